@@ -1,15 +1,24 @@
-import { Stack } from "expo-router";
+import { Stack, router } from "expo-router";
+import { Alert } from "react-native";
 import { PaperProvider } from "react-native-paper";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { useEffect, useRef } from "react";
 import { useTaskStore } from "../lib/store";
 import { useThemeStore } from "../lib/themeStore";
+import { useAuthStore } from "../lib/authStore";
+import { startLiveSync, stopLiveSync } from "../lib/liveSync";
 import { lightTheme, darkTheme } from "../lib/theme";
 import { requestNotificationPermissions } from "../lib/notifications";
 import NetInfo from "@react-native-community/netinfo";
+import UndoSnackbar from "../components/UndoSnackbar";
 
 export default function RootLayout() {
-  const { initializeNotifications, syncTasks } = useTaskStore();
+  const {
+    initializeNotifications,
+    purgeTrash,
+    archiveFinishedTasks,
+    syncTasks,
+  } = useTaskStore();
   const { themeMode } = useThemeStore();
   const theme = themeMode === "dark" ? darkTheme : lightTheme;
   const wasOfflineRef = useRef<boolean | null>(null);
@@ -19,25 +28,91 @@ export default function RootLayout() {
     const initNotifications = async () => {
       await requestNotificationPermissions();
       await initializeNotifications();
+      // Tasks kept in the Trash longer than the retention setting are deleted for good,
+      // tasks finished longer ago than the auto archive setting are archived. Tasks already
+      // on the server wait for the first sync, which archives them right after pulling
+      purgeTrash();
+      archiveFinishedTasks();
     };
     initNotifications();
-  }, [initializeNotifications]);
+  }, [initializeNotifications, purgeTrash, archiveFinishedTasks]);
 
   useEffect(() => {
-    // Проверяем начальное состояние сети и синхронизируем если есть pending операции
+    // Восстанавливаем токен из SecureStore; после входа сразу синхронизируем
+    // и подключаемся к живому каналу событий, а при истекшей сессии предлагаем войти заново
+    const unsubscribe = useAuthStore.subscribe((state, prevState) => {
+      if (state.status === prevState.status) {
+        return;
+      }
+      if (state.status === "signedIn") {
+        syncTasks().catch((error) => {
+          console.error("Failed to sync tasks after sign in:", error);
+        });
+        startLiveSync();
+      } else {
+        stopLiveSync();
+      }
+      if (state.status === "expired" && prevState.status === "signedIn") {
+        Alert.alert(
+          "Session Expired",
+          "Sign in again to continue syncing your tasks. Changes are kept on this device until then.",
+          [
+            { text: "Later", style: "cancel" },
+            { text: "Sign In", onPress: () => router.push("/login") },
+          ]
+        );
+      }
+    });
+    useAuthStore.getState().restoreSession();
+
+    return () => {
+      unsubscribe();
+      stopLiveSync();
+    };
+  }, [syncTasks]);
+
+  useEffect(() => {
+    // Если задачи не загрузились из хранилища, изменения не сохраняются (см. lib/taskDatabase.ts):
+    // сообщаем об этом и предлагаем загрузить еще раз
+    const showLoadError = (loadError: string) => {
+      Alert.alert(
+        "Tasks Not Loaded",
+        `Your saved tasks could not be loaded: ${loadError}. Changes made now are not saved until they are.`,
+        [
+          { text: "Later", style: "cancel" },
+          {
+            text: "Try Again",
+            onPress: () => {
+              useTaskStore.setState({ loadError: null });
+              useTaskStore.persist.rehydrate();
+            },
+          },
+        ]
+      );
+    };
+    const { loadError } = useTaskStore.getState();
+    if (loadError) {
+      showLoadError(loadError);
+    }
+    return useTaskStore.subscribe((state, prevState) => {
+      if (state.loadError && state.loadError !== prevState.loadError) {
+        showLoadError(state.loadError);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    // Проверяем начальное состояние сети и синхронизируем с сервером
     NetInfo.fetch().then((state) => {
       const isConnected = state.isConnected ?? false;
       wasOfflineRef.current = !isConnected;
 
-      // Если при старте есть интернет и есть pending операции, пытаемся синхронизировать
+      // Если при старте есть интернет, отправляем pending операции и забираем изменения с сервера
       if (isConnected) {
-        const { pendingSync } = useTaskStore.getState();
-        if (pendingSync.length > 0) {
-          console.log("App started with internet, syncing pending tasks...");
-          syncTasks().catch((error) => {
-            console.error("Failed to sync tasks on app start:", error);
-          });
-        }
+        console.log("App started with internet, syncing tasks...");
+        syncTasks().catch((error) => {
+          console.error("Failed to sync tasks on app start:", error);
+        });
       }
     });
 
@@ -106,6 +181,115 @@ export default function RootLayout() {
               headerTitleStyle: { fontWeight: "700" },
             })}
           />
+          <Stack.Screen
+            name="conflict/[id]"
+            options={() => ({
+              title: "Resolve Conflict",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="failed-sync"
+            options={() => ({
+              title: "Failed Sync",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="tags"
+            options={() => ({
+              title: "Tags",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="projects"
+            options={() => ({
+              title: "Projects",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="time-report"
+            options={() => ({
+              title: "Time Report",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="estimates"
+            options={() => ({
+              title: "Estimates",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="custom-fields"
+            options={() => ({
+              title: "Custom Fields",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="archive"
+            options={() => ({
+              title: "Archive",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="trash"
+            options={() => ({
+              title: "Trash",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="sync"
+            options={() => ({
+              title: "Sync",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="settings"
+            options={() => ({
+              title: "Settings",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
+          <Stack.Screen
+            name="login"
+            options={() => ({
+              title: "Sign In",
+              presentation: "modal",
+              headerStyle: { backgroundColor: theme.colors.surface },
+              headerTintColor: theme.colors.onSurface,
+              headerTitleStyle: { fontWeight: "700" },
+            })}
+          />
           <Stack.Screen
             name="map"
             options={() => ({
@@ -125,6 +309,7 @@ export default function RootLayout() {
             })}
           />
         </Stack>
+        <UndoSnackbar />
       </PaperProvider>
     </SafeAreaProvider>
   );
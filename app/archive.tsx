@@ -0,0 +1,215 @@
+import React from "react";
+import { View, StyleSheet, FlatList, Pressable } from "react-native";
+import {
+  Surface,
+  Text,
+  IconButton,
+  Searchbar,
+  useTheme,
+} from "react-native-paper";
+import { useRouter } from "expo-router";
+import { useTaskStore } from "../lib/store";
+import { useSettingsStore } from "../lib/settingsStore";
+import { getProjectName } from "../lib/projects";
+import { getTaskComments } from "../lib/comments";
+import { getActiveFieldDefinitions } from "../lib/customFields";
+import { searchTask } from "../lib/search";
+import { describeAutoArchive, getArchivedTasks } from "../lib/archive";
+import { statusLabels } from "../lib/status";
+import { Task } from "../lib/types";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function ArchiveScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const {
+    tasks,
+    projects,
+    comments,
+    customFieldDefinitions,
+    unarchiveTask,
+    archiveFinishedTasks,
+  } = useTaskStore();
+  const { autoArchiveDays } = useSettingsStore();
+  const [searchQuery, setSearchQuery] = React.useState("");
+  const archived = getArchivedTasks(tasks);
+  const fieldDefinitions = getActiveFieldDefinitions(customFieldDefinitions);
+  // Same search as the main list: title, description, location, tags, custom fields and comments
+  const results = searchQuery.trim()
+    ? archived.filter(
+        (task) =>
+          searchTask(
+            task,
+            getTaskComments(comments, task.id),
+            searchQuery,
+            fieldDefinitions
+          ) !== null
+      )
+    : archived;
+
+  // Tasks that finished long enough ago show up without waiting for the next sync,
+  // except those already on the server: the sync archives them after pulling
+  React.useEffect(() => {
+    archiveFinishedTasks();
+  }, [archiveFinishedTasks]);
+
+  const renderTask = ({ item }: { item: Task }) => (
+    <Surface
+      style={[styles.item, { backgroundColor: theme.colors.surface }]}
+      elevation={1}
+    >
+      <View style={styles.itemContent}>
+        <Pressable
+          style={styles.itemInfo}
+          onPress={() => router.push(`/task/${item.id}`)}
+        >
+          <Text
+            variant="titleMedium"
+            style={{ color: theme.colors.onSurface }}
+            numberOfLines={1}
+          >
+            {item.title}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+            numberOfLines={1}
+          >
+            {statusLabels[item.status]} · {getProjectName(item, projects)}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            Archived {formatDate(item.archivedAt!)}
+          </Text>
+        </Pressable>
+        <IconButton
+          icon="archive-arrow-up"
+          size={20}
+          onPress={() => unarchiveTask(item.id)}
+          iconColor={theme.colors.primary}
+          accessibilityLabel="Unarchive"
+        />
+      </View>
+    </Surface>
+  );
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <Surface
+        style={[
+          styles.header,
+          {
+            backgroundColor: theme.colors.surface,
+            borderBottomColor: theme.colors.outline,
+          },
+        ]}
+        elevation={2}
+      >
+        <Text
+          variant="bodyMedium"
+          style={[styles.headerText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          {autoArchiveDays > 0
+            ? `Finished tasks are archived ${describeAutoArchive(
+                autoArchiveDays
+              )} after completion`
+            : "Automatic archiving is off, see Settings"}
+        </Text>
+        <Searchbar
+          placeholder="Search archived tasks"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          style={[
+            styles.searchbar,
+            { backgroundColor: theme.colors.surfaceVariant },
+          ]}
+          inputStyle={styles.searchbarInput}
+        />
+      </Surface>
+
+      {results.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {archived.length === 0
+              ? "No archived tasks. Archive a task from its menu to keep the main list short; it stays synced and exported."
+              : "No archived tasks match the search"}
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTask}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    borderBottomWidth: 1,
+    paddingTop: 12,
+  },
+  headerText: {
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  searchbar: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    height: 44,
+    // backgroundColor will be set dynamically
+  },
+  searchbarInput: {
+    minHeight: 0,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  item: {
+    marginBottom: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  itemContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingLeft: 16,
+    paddingVertical: 8,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,307 @@
+import React from "react";
+import { View, StyleSheet, ScrollView, Pressable } from "react-native";
+import {
+  Card,
+  Title,
+  Button,
+  Surface,
+  Text,
+  Divider,
+  useTheme,
+} from "react-native-paper";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { useTaskStore } from "../../lib/store";
+import {
+  CONFLICT_FIELDS,
+  ConflictField,
+  ConflictSide,
+  formatConflictValue,
+  getConflictingFields,
+  mergeConflict,
+} from "../../lib/conflicts";
+import { Task } from "../../lib/types";
+
+const VersionOption = ({
+  label,
+  value,
+  selected,
+  onPress,
+}: {
+  label: string;
+  value: string;
+  selected: boolean;
+  onPress: () => void;
+}) => {
+  const theme = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[
+        styles.option,
+        {
+          borderColor: selected ? theme.colors.primary : theme.colors.outline,
+          backgroundColor: selected
+            ? theme.colors.primaryContainer
+            : theme.colors.surfaceVariant,
+        },
+      ]}
+    >
+      <Text
+        variant="labelMedium"
+        style={[
+          styles.optionLabel,
+          {
+            color: selected
+              ? theme.colors.primary
+              : theme.colors.onSurfaceVariant,
+          },
+        ]}
+      >
+        {label}
+      </Text>
+      <Text
+        variant="bodyMedium"
+        style={{ color: theme.colors.onSurface }}
+        numberOfLines={4}
+      >
+        {value}
+      </Text>
+    </Pressable>
+  );
+};
+
+export default function ConflictResolutionScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { conflicts, projects, customFieldDefinitions, resolveConflict } =
+    useTaskStore();
+  const [choices, setChoices] = React.useState<
+    Partial<Record<ConflictField, ConflictSide>>
+  >({});
+
+  const conflict = conflicts.find((c) => c.taskId === id);
+
+  if (!conflict) {
+    return (
+      <View style={styles.container}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title>No conflict for this task</Title>
+            <Button onPress={() => router.back()}>Go Back</Button>
+          </Card.Content>
+        </Card>
+      </View>
+    );
+  }
+
+  const { localTask, remoteTask } = conflict;
+  const conflictingFields = getConflictingFields(localTask, remoteTask);
+  // Local changes win by default, the user switches fields to the server version
+  const getChoice = (field: ConflictField): ConflictSide =>
+    choices[field] ?? "local";
+
+  const selectAll = (side: ConflictSide) => {
+    const next: Partial<Record<ConflictField, ConflictSide>> = {};
+    conflictingFields.forEach((field) => {
+      next[field] = side;
+    });
+    setChoices(next);
+  };
+
+  const handleResolve = () => {
+    const resolvedChoices: Partial<Record<ConflictField, ConflictSide>> = {};
+    conflictingFields.forEach((field) => {
+      resolvedChoices[field] = getChoice(field);
+    });
+    const resolved: Task = mergeConflict(
+      localTask,
+      remoteTask,
+      resolvedChoices
+    );
+    resolveConflict(conflict.taskId, resolved);
+    router.back();
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      showsVerticalScrollIndicator={false}
+    >
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="headlineSmall"
+            style={[styles.title, { color: theme.colors.onSurface }]}
+          >
+            {localTask.title}
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={[styles.subtitle, { color: theme.colors.onSurfaceVariant }]}
+          >
+            This task was changed on this device and on the server. Choose
+            which version to keep for each field.
+          </Text>
+
+          <View style={styles.bulkActions}>
+            <Button
+              mode="outlined"
+              compact
+              onPress={() => selectAll("local")}
+              style={[styles.bulkButton, { borderColor: theme.colors.primary }]}
+              textColor={theme.colors.primary}
+              icon="cellphone"
+            >
+              Keep Mine
+            </Button>
+            <Button
+              mode="outlined"
+              compact
+              onPress={() => selectAll("remote")}
+              style={[styles.bulkButton, { borderColor: theme.colors.primary }]}
+              textColor={theme.colors.primary}
+              icon="server"
+            >
+              Keep Server
+            </Button>
+          </View>
+
+          {CONFLICT_FIELDS.filter((field) =>
+            conflictingFields.includes(field.key)
+          ).map((field) => (
+            <View key={field.key}>
+              <Divider style={{ backgroundColor: theme.colors.outline }} />
+              <View style={styles.section}>
+                <Text
+                  variant="titleMedium"
+                  style={[
+                    styles.sectionTitle,
+                    { color: theme.colors.onSurface },
+                  ]}
+                >
+                  {field.label}
+                </Text>
+                <VersionOption
+                  label="This device"
+                  value={formatConflictValue(
+                    localTask,
+                    field.key,
+                    projects,
+                    customFieldDefinitions
+                  )}
+                  selected={getChoice(field.key) === "local"}
+                  onPress={() =>
+                    setChoices((prev) => ({ ...prev, [field.key]: "local" }))
+                  }
+                />
+                <VersionOption
+                  label="Server"
+                  value={formatConflictValue(
+                    remoteTask,
+                    field.key,
+                    projects,
+                    customFieldDefinitions
+                  )}
+                  selected={getChoice(field.key) === "remote"}
+                  onPress={() =>
+                    setChoices((prev) => ({ ...prev, [field.key]: "remote" }))
+                  }
+                />
+              </View>
+            </View>
+          ))}
+
+          {conflictingFields.length === 0 && (
+            <Text
+              variant="bodyMedium"
+              style={[styles.subtitle, { color: theme.colors.onSurfaceVariant }]}
+            >
+              Both versions are identical.
+            </Text>
+          )}
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={() => router.back()}
+              style={[styles.button, { borderColor: theme.colors.outline }]}
+              textColor={theme.colors.onSurfaceVariant}
+            >
+              Later
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleResolve}
+              style={styles.button}
+              buttonColor={theme.colors.primary}
+            >
+              Resolve
+            </Button>
+          </View>
+        </View>
+      </Surface>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  card: {
+    margin: 16,
+    borderRadius: 16,
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    marginBottom: 8,
+    fontWeight: "700",
+  },
+  subtitle: {
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  bulkActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 16,
+  },
+  bulkButton: {
+    flex: 1,
+  },
+  section: {
+    marginVertical: 16,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    // borderColor and backgroundColor will be set dynamically
+  },
+  optionLabel: {
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 24,
+  },
+  button: {
+    flex: 1,
+    marginHorizontal: 6,
+    borderRadius: 12,
+  },
+});
@@ -0,0 +1,386 @@
+import React from "react";
+import { View, StyleSheet, FlatList } from "react-native";
+import {
+  Surface,
+  Text,
+  Button,
+  Chip,
+  Icon,
+  IconButton,
+  Switch,
+  TextInput,
+  Dialog,
+  Portal,
+  FAB,
+  useTheme,
+} from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import { getActiveTasks } from "../lib/trash";
+import {
+  CUSTOM_FIELD_TYPES,
+  MAX_CUSTOM_FIELD_NAME_LENGTH,
+  MAX_CUSTOM_FIELD_OPTIONS,
+  customFieldTypeIcons,
+  customFieldTypeLabels,
+  getActiveFieldDefinitions,
+  normalizeFieldDefinition,
+} from "../lib/customFields";
+import { CustomFieldDefinition, CustomFieldType } from "../lib/types";
+
+type FieldForm = {
+  id: string | null; // null for a new field
+  name: string;
+  type: CustomFieldType;
+  options: string; // Choices of a select field, one per line
+  required: boolean;
+};
+
+const parseOptions = (options: string) =>
+  normalizeFieldDefinition({
+    name: "",
+    type: "select",
+    options: options.split("\n"),
+  }).options ?? [];
+
+export default function CustomFieldsScreen() {
+  const theme = useTheme();
+  const {
+    tasks,
+    customFieldDefinitions,
+    addCustomField,
+    updateCustomField,
+    deleteCustomField,
+  } = useTaskStore();
+  const definitions = getActiveFieldDefinitions(customFieldDefinitions);
+  const [form, setForm] = React.useState<FieldForm | null>(null);
+  const [deleting, setDeleting] = React.useState<CustomFieldDefinition | null>(
+    null
+  );
+
+  const countTasks = (fieldId: string) =>
+    getActiveTasks(tasks).filter(
+      (task) => task.customFields?.[fieldId] !== undefined
+    ).length;
+
+  const formOptions = form ? parseOptions(form.options) : [];
+  const canSave =
+    !!form?.name.trim() && (form.type !== "select" || formOptions.length > 0);
+
+  const openNew = () =>
+    setForm({ id: null, name: "", type: "text", options: "", required: false });
+
+  const openEdit = (definition: CustomFieldDefinition) =>
+    setForm({
+      id: definition.id,
+      name: definition.name,
+      type: definition.type,
+      options: (definition.options ?? []).join("\n"),
+      required: !!definition.required,
+    });
+
+  const handleSave = () => {
+    if (!form || !canSave) return;
+    const options = form.type === "select" ? formOptions : undefined;
+    // A yes/no field always has a value
+    const required = form.type !== "boolean" && form.required;
+    if (form.id) {
+      updateCustomField(form.id, {
+        name: form.name,
+        options,
+        required,
+      });
+    } else {
+      addCustomField({
+        name: form.name,
+        type: form.type,
+        options,
+        required,
+      });
+    }
+    setForm(null);
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    deleteCustomField(deleting.id);
+    setDeleting(null);
+  };
+
+  const renderField = ({ item }: { item: CustomFieldDefinition }) => {
+    const count = countTasks(item.id);
+    return (
+      <Surface
+        style={[styles.item, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.itemContent}>
+          <Icon
+            source={customFieldTypeIcons[item.type]}
+            size={22}
+            color={theme.colors.primary}
+          />
+          <View style={styles.itemInfo}>
+            <Text
+              variant="titleMedium"
+              style={{ color: theme.colors.onSurface }}
+              numberOfLines={1}
+            >
+              {item.name}
+              {item.required ? " *" : ""}
+            </Text>
+            <Text
+              variant="bodySmall"
+              style={{ color: theme.colors.onSurfaceVariant }}
+              numberOfLines={1}
+            >
+              {customFieldTypeLabels[item.type]}
+              {item.type === "select" && item.options
+                ? `: ${item.options.join(", ")}`
+                : ""}
+            </Text>
+            <Text
+              variant="bodySmall"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              Set on {count} task{count !== 1 ? "s" : ""}
+            </Text>
+          </View>
+          <View style={styles.itemActions}>
+            <IconButton
+              icon="pencil"
+              size={20}
+              onPress={() => openEdit(item)}
+              iconColor={theme.colors.onSurfaceVariant}
+            />
+            <IconButton
+              icon="delete"
+              size={20}
+              onPress={() => setDeleting(item)}
+              iconColor={theme.colors.error}
+            />
+          </View>
+        </View>
+      </Surface>
+    );
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      {definitions.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            No custom fields yet. Add fields like "Customer" or "Invoice
+            number" to track your own details on every task.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={definitions}
+          keyExtractor={(item) => item.id}
+          renderItem={renderField}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      <FAB
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        icon="plus"
+        onPress={openNew}
+        label="New Field"
+      />
+
+      <Portal>
+        <Dialog visible={!!form} onDismiss={() => setForm(null)}>
+          <Dialog.Title>{form?.id ? "Edit Field" : "New Field"}</Dialog.Title>
+          <Dialog.ScrollArea style={styles.scrollArea}>
+            <View>
+              <TextInput
+                label="Name"
+                value={form?.name ?? ""}
+                onChangeText={(name) => form && setForm({ ...form, name })}
+                maxLength={MAX_CUSTOM_FIELD_NAME_LENGTH}
+                mode="outlined"
+                outlineColor={theme.colors.outline}
+                activeOutlineColor={theme.colors.primary}
+              />
+              <Text
+                variant="bodyMedium"
+                style={[styles.label, { color: theme.colors.onSurface }]}
+              >
+                Type
+              </Text>
+              {form?.id ? (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  {customFieldTypeLabels[form.type]} · the type can't be
+                  changed once the field is created
+                </Text>
+              ) : (
+                <View style={styles.types}>
+                  {CUSTOM_FIELD_TYPES.map((type) => {
+                    const selected = form?.type === type;
+                    return (
+                      <Chip
+                        key={type}
+                        icon={customFieldTypeIcons[type]}
+                        selected={selected}
+                        showSelectedCheck={false}
+                        onPress={() => form && setForm({ ...form, type })}
+                        style={{
+                          backgroundColor: selected
+                            ? theme.colors.primaryContainer
+                            : theme.colors.surfaceVariant,
+                        }}
+                        textStyle={{
+                          color: selected
+                            ? theme.colors.onPrimaryContainer
+                            : theme.colors.onSurfaceVariant,
+                        }}
+                      >
+                        {customFieldTypeLabels[type]}
+                      </Chip>
+                    );
+                  })}
+                </View>
+              )}
+              {form?.type === "select" && (
+                <>
+                  <TextInput
+                    label="Options, one per line"
+                    value={form.options}
+                    onChangeText={(options) => setForm({ ...form, options })}
+                    multiline
+                    numberOfLines={4}
+                    mode="outlined"
+                    style={styles.optionsInput}
+                    outlineColor={theme.colors.outline}
+                    activeOutlineColor={theme.colors.primary}
+                  />
+                  <Text
+                    variant="bodySmall"
+                    style={{ color: theme.colors.onSurfaceVariant }}
+                  >
+                    {formOptions.length} of {MAX_CUSTOM_FIELD_OPTIONS} options
+                  </Text>
+                </>
+              )}
+              {form && form.type !== "boolean" && (
+                <View style={styles.switchRow}>
+                  <Text
+                    variant="bodyMedium"
+                    style={{ color: theme.colors.onSurface }}
+                  >
+                    Required
+                  </Text>
+                  <Switch
+                    value={form.required}
+                    onValueChange={(required) => setForm({ ...form, required })}
+                  />
+                </View>
+              )}
+            </View>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            <Button onPress={() => setForm(null)}>Cancel</Button>
+            <Button onPress={handleSave} disabled={!canSave}>
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!deleting} onDismiss={() => setDeleting(null)}>
+          <Dialog.Title>Delete "{deleting?.name}"</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              The field disappears from all tasks and forms. Values already
+              entered are no longer shown.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDeleting(null)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor={theme.colors.error}>
+              Delete
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  item: {
+    marginBottom: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  itemContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingLeft: 16,
+    paddingVertical: 8,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemActions: {
+    flexDirection: "row",
+  },
+  scrollArea: {
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+    maxHeight: 420,
+  },
+  label: {
+    marginTop: 16,
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  types: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  optionsInput: {
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 16,
+  },
+  fab: {
+    position: "absolute",
+    margin: 20,
+    right: 0,
+    bottom: 0,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
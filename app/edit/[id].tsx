@@ -15,11 +15,34 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { useTaskStore } from "../../lib/store";
+import { getActiveTasks } from "../../lib/trash";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
 import * as DocumentPicker from "expo-document-picker";
 import { Attachment, LocationCoordinates } from "../../lib/types";
 import LocationPicker from "../../components/LocationPicker";
+import PriorityPicker from "../../components/PriorityPicker";
+import EstimatePicker from "../../components/EstimatePicker";
+import CustomFieldInputs from "../../components/CustomFieldInputs";
+import TagInput from "../../components/TagInput";
+import RecurrenceEditor from "../../components/RecurrenceEditor";
+import ProjectPicker from "../../components/ProjectPicker";
+import BlockerPicker from "../../components/BlockerPicker";
+import { MAX_TAGS_PER_TASK, MAX_TAG_LENGTH, collectTags } from "../../lib/tags";
+import { TASK_PRIORITIES, getTaskPriority } from "../../lib/priority";
+import { MAX_ESTIMATE_MINUTES } from "../../lib/estimates";
+import {
+  fromFormValues,
+  getActiveFieldDefinitions,
+  toFormValues,
+  validateCustomFields,
+} from "../../lib/customFields";
+import {
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  RECURRENCE_FREQUENCIES,
+  anchorRecurrence,
+} from "../../lib/recurrence";
 
 const taskSchema = z.object({
   title: z
@@ -40,6 +63,27 @@ const taskSchema = z.object({
     .string()
     .min(1, "Location is required")
     .max(120, "Location must be 120 characters or less"),
+  projectId: z.string().optional(),
+  priority: z.enum(TASK_PRIORITIES),
+  estimateMinutes: z.number().int().min(1).max(MAX_ESTIMATE_MINUTES).nullable(),
+  tags: z
+    .array(z.string().min(1).max(MAX_TAG_LENGTH))
+    .max(MAX_TAGS_PER_TASK, `No more than ${MAX_TAGS_PER_TASK} tags`),
+  blockedBy: z.array(z.string()),
+  recurrence: z
+    .object({
+      frequency: z.enum(RECURRENCE_FREQUENCIES),
+      interval: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL),
+      weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+      monthlyBy: z.enum(["day", "weekday"]).optional(),
+      monthDay: z.number().int().optional(),
+      weekOfMonth: z.number().int().optional(),
+      endDate: z.string().optional(),
+      count: z.number().int().min(1).max(MAX_RECURRENCE_COUNT).optional(),
+    })
+    .nullable(),
+  // Checked per field by validateCustomFields, generated from the field definitions
+  customFields: z.record(z.union([z.string(), z.boolean(), z.null()])),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -48,11 +92,23 @@ export default function EditTaskScreen() {
   const router = useRouter();
   const theme = useTheme();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { tasks, updateTask } = useTaskStore();
+  const { tasks, updateTask, customFieldDefinitions } = useTaskStore();
+  const fieldDefinitions = React.useMemo(
+    () => getActiveFieldDefinitions(customFieldDefinitions),
+    [customFieldDefinitions]
+  );
+  const schema = React.useMemo(
+    () => taskSchema.superRefine(validateCustomFields(fieldDefinitions)),
+    [fieldDefinitions]
+  );
   const [showDatePicker, setShowDatePicker] = React.useState(false);
   const [showTimePicker, setShowTimePicker] = React.useState(false);
 
   const task = tasks.find((t) => t.id === id);
+  const availableTags = React.useMemo(
+    () => collectTags(getActiveTasks(tasks)).map((tag) => tag.name),
+    [tasks]
+  );
   const [attachments, setAttachments] = React.useState<Attachment[]>(
     task?.attachments || []
   );
@@ -68,12 +124,19 @@ export default function EditTaskScreen() {
     setValue,
     watch,
   } = useForm<TaskFormData>({
-    resolver: zodResolver(taskSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       title: task?.title || "",
       description: task?.description || "",
       datetime: task ? new Date(task.datetime) : new Date(),
       location: task?.location || "",
+      projectId: task?.projectId,
+      priority: task ? getTaskPriority(task) : "none",
+      estimateMinutes: task?.estimateMinutes ?? null,
+      tags: task?.tags ?? [],
+      blockedBy: task?.blockedBy ?? [],
+      recurrence: task?.recurrence ?? null,
+      customFields: toFormValues(fieldDefinitions, task?.customFields),
     },
     mode: "onChange",
   });
@@ -99,6 +162,19 @@ export default function EditTaskScreen() {
       description: data.description || "",
       datetime: data.datetime.toISOString(),
       location: data.location,
+      projectId: data.projectId,
+      priority: data.priority,
+      estimateMinutes: data.estimateMinutes ?? undefined,
+      tags: data.tags.length > 0 ? data.tags : undefined,
+      blockedBy: data.blockedBy.length > 0 ? data.blockedBy : undefined,
+      recurrence: data.recurrence
+        ? anchorRecurrence(data.recurrence, data.datetime)
+        : undefined,
+      customFields: fromFormValues(
+        fieldDefinitions,
+        data.customFields,
+        task.customFields
+      ),
       coordinates: locationCoordinates,
       attachments: attachments.length > 0 ? attachments : undefined,
     });
@@ -267,6 +343,56 @@ export default function EditTaskScreen() {
             </Text>
           )}
 
+          <Controller
+            control={control}
+            name="projectId"
+            render={({ field: { onChange, value } }) => (
+              <ProjectPicker value={value} onChange={onChange} />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="priority"
+            render={({ field: { onChange, value } }) => (
+              <PriorityPicker value={value} onChange={onChange} />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="estimateMinutes"
+            render={({ field: { onChange, value } }) => (
+              <EstimatePicker value={value} onChange={onChange} />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field: { onChange, value } }) => (
+              <TagInput
+                value={value}
+                onChange={onChange}
+                availableTags={availableTags}
+                error={!!errors.tags}
+              />
+            )}
+          />
+          {errors.tags && (
+            <Text variant="bodySmall" style={styles.errorText}>
+              {errors.tags.message}
+            </Text>
+          )}
+
+          <Controller
+            control={control}
+            name="blockedBy"
+            render={({ field: { onChange, value } }) => (
+              <BlockerPicker taskId={task.id} value={value} onChange={onChange} />
+            )}
+          />
+
           <View style={styles.datetimeContainer}>
             <Text
               variant="bodyMedium"
@@ -330,6 +456,18 @@ export default function EditTaskScreen() {
             </Text>
           )}
 
+          <Controller
+            control={control}
+            name="recurrence"
+            render={({ field: { onChange, value } }) => (
+              <RecurrenceEditor
+                value={value}
+                onChange={onChange}
+                date={selectedDateTime}
+              />
+            )}
+          />
+
           <View style={styles.locationSection}>
             <Controller
               control={control}
@@ -375,6 +513,19 @@ export default function EditTaskScreen() {
             initialCoordinates={locationCoordinates}
           />
 
+          <Controller
+            control={control}
+            name="customFields"
+            render={({ field: { onChange, value } }) => (
+              <CustomFieldInputs
+                definitions={fieldDefinitions}
+                value={value}
+                onChange={onChange}
+                errors={errors.customFields}
+              />
+            )}
+          />
+
           <View style={styles.attachmentsSection}>
             <Text
               variant="titleMedium"
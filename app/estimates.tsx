@@ -0,0 +1,280 @@
+import React from "react";
+import { View, StyleSheet, ScrollView, Pressable } from "react-native";
+import { Surface, Text, Chip, Divider, useTheme } from "react-native-paper";
+import { useRouter } from "expo-router";
+import { useTaskStore } from "../lib/store";
+import { getActiveTasks } from "../lib/trash";
+import { useSettingsStore } from "../lib/settingsStore";
+import {
+  EstimateComparison,
+  EstimateGroupBy,
+  buildEstimateReport,
+  formatEstimateDeviation,
+} from "../lib/estimates";
+import { formatDuration } from "../lib/timeTracking";
+
+const groupByOptions: { key: EstimateGroupBy; label: string }[] = [
+  { key: "project", label: "By Project" },
+  { key: "tag", label: "By Tag" },
+];
+
+export default function EstimatesScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { tasks, projects, tagColors } = useTaskStore();
+  const { overrunMargin } = useSettingsStore();
+  const [groupBy, setGroupBy] = React.useState<EstimateGroupBy>("project");
+
+  const report = buildEstimateReport(
+    getActiveTasks(tasks),
+    projects,
+    tagColors,
+    groupBy,
+    overrunMargin
+  );
+
+  const deviationColor = (estimated: number, actual: number) =>
+    actual > estimated ? theme.colors.error : theme.colors.primary;
+
+  const renderComparison = (comparison: EstimateComparison) => (
+    <Pressable
+      key={comparison.task.id}
+      onPress={() => router.push(`/task/${comparison.task.id}`)}
+      style={styles.row}
+    >
+      <Text
+        variant="bodyMedium"
+        style={[
+          styles.rowName,
+          {
+            color: comparison.overEstimate
+              ? theme.colors.error
+              : theme.colors.onSurface,
+          },
+        ]}
+        numberOfLines={1}
+      >
+        {comparison.overEstimate ? "⚠ " : ""}
+        {comparison.task.title}
+      </Text>
+      <Text
+        variant="bodySmall"
+        style={{ color: theme.colors.onSurfaceVariant }}
+      >
+        {formatDuration(comparison.actual)} /{" "}
+        {formatDuration(comparison.estimated)}
+      </Text>
+      <Text
+        variant="bodySmall"
+        style={[
+          styles.deviation,
+          {
+            color: deviationColor(comparison.estimated, comparison.actual),
+          },
+        ]}
+      >
+        {formatEstimateDeviation(comparison.estimated, comparison.actual)}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      <View style={styles.options}>
+        {groupByOptions.map((option) => {
+          const selected = option.key === groupBy;
+          return (
+            <Chip
+              key={option.key}
+              selected={selected}
+              showSelectedCheck={false}
+              onPress={() => setGroupBy(option.key)}
+              style={{
+                backgroundColor: selected
+                  ? theme.colors.primaryContainer
+                  : theme.colors.surfaceVariant,
+              }}
+              textStyle={{
+                color: selected
+                  ? theme.colors.onPrimaryContainer
+                  : theme.colors.onSurfaceVariant,
+              }}
+            >
+              {option.label}
+            </Chip>
+          );
+        })}
+      </View>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.summary}>
+          <Text
+            variant="headlineSmall"
+            style={[
+              styles.summaryValue,
+              {
+                color:
+                  report.taskCount > 0
+                    ? deviationColor(report.estimated, report.actual)
+                    : theme.colors.onSurface,
+              },
+            ]}
+          >
+            {formatEstimateDeviation(report.estimated, report.actual)}
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={{ color: theme.colors.onSurface }}
+          >
+            {formatDuration(report.actual)} tracked for{" "}
+            {formatDuration(report.estimated)} estimated in {report.taskCount}{" "}
+            completed task{report.taskCount !== 1 ? "s" : ""}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={{
+              color:
+                report.overCount > 0
+                  ? theme.colors.error
+                  : theme.colors.onSurfaceVariant,
+            }}
+          >
+            {report.overCount} went over the estimate by more than{" "}
+            {overrunMargin}% (change the margin in Settings)
+          </Text>
+        </View>
+      </Surface>
+
+      {report.groups.length === 0 ? (
+        <Text
+          variant="bodyLarge"
+          style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          Nothing to compare yet. Completed tasks that have an estimate and
+          tracked time show up here.
+        </Text>
+      ) : (
+        report.groups.map((group) => (
+          <Surface
+            key={group.key}
+            style={[styles.card, { backgroundColor: theme.colors.surface }]}
+            elevation={1}
+          >
+            <View style={styles.groupHeader}>
+              <View style={[styles.dot, { backgroundColor: group.color }]} />
+              <Text
+                variant="titleMedium"
+                style={[styles.groupName, { color: theme.colors.onSurface }]}
+                numberOfLines={1}
+              >
+                {group.name}
+              </Text>
+              <Text
+                variant="titleSmall"
+                style={{
+                  color: deviationColor(group.estimated, group.actual),
+                }}
+              >
+                {formatEstimateDeviation(group.estimated, group.actual)}
+              </Text>
+            </View>
+            <Text
+              variant="bodySmall"
+              style={[
+                styles.groupStats,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              {formatDuration(group.actual)} of{" "}
+              {formatDuration(group.estimated)} · {group.comparisons.length}{" "}
+              task{group.comparisons.length !== 1 ? "s" : ""}
+              {group.overCount > 0 ? ` · ${group.overCount} over` : ""}
+            </Text>
+            <Divider style={{ backgroundColor: theme.colors.outline }} />
+            {group.comparisons.map(renderComparison)}
+          </Surface>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  summary: {
+    padding: 16,
+    gap: 4,
+  },
+  summaryValue: {
+    fontWeight: "700",
+    // color will be set dynamically
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  groupName: {
+    flex: 1,
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  groupStats: {
+    paddingHorizontal: 16,
+    paddingTop: 4,
+    paddingBottom: 12,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    // backgroundColor will be set dynamically
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  rowName: {
+    flex: 1,
+    // color will be set dynamically
+  },
+  deviation: {
+    width: 48,
+    textAlign: "right",
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 32,
+  },
+});
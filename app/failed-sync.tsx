@@ -0,0 +1,234 @@
+import React from "react";
+import { View, StyleSheet, FlatList, Alert } from "react-native";
+import { Surface, Text, Button, Chip, useTheme } from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import { DeadLetterOperation, SyncOperationType } from "../lib/types";
+
+const operationLabels: Record<SyncOperationType, string> = {
+  create: "Create",
+  update: "Update",
+  delete: "Delete",
+};
+
+const formatDate = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const DeadLetterItem = ({ deadLetter }: { deadLetter: DeadLetterOperation }) => {
+  const theme = useTheme();
+  const { tasks, retryDeadLetter, discardDeadLetter } = useTaskStore();
+  const { operation } = deadLetter;
+  const taskTitle =
+    operation.taskData?.title ??
+    tasks.find((t) => t.id === operation.taskId)?.title ??
+    "Deleted task";
+
+  const handleDiscard = () => {
+    Alert.alert(
+      "Discard Change",
+      "This change will never be sent to the server. Continue?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => discardDeadLetter(operation.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <Surface
+      style={[styles.item, { backgroundColor: theme.colors.surface }]}
+      elevation={1}
+    >
+      <View style={styles.itemContent}>
+        <View style={styles.itemHeader}>
+          <Text
+            variant="titleSmall"
+            style={[styles.itemTitle, { color: theme.colors.onSurface }]}
+            numberOfLines={1}
+          >
+            {taskTitle}
+          </Text>
+          <Chip
+            mode="flat"
+            style={{ backgroundColor: theme.colors.surfaceVariant }}
+            textStyle={{
+              color: theme.colors.onSurfaceVariant,
+              fontSize: 11,
+              fontWeight: "600",
+            }}
+          >
+            {operationLabels[operation.type]}
+          </Chip>
+        </View>
+        <Text
+          variant="bodySmall"
+          style={[styles.errorText, { color: theme.colors.error }]}
+        >
+          {deadLetter.error}
+        </Text>
+        <Text
+          variant="bodySmall"
+          style={{ color: theme.colors.onSurfaceVariant }}
+        >
+          Failed {formatDate(deadLetter.failedAt)} after {operation.retries}{" "}
+          {operation.retries === 1 ? "retry" : "retries"}
+        </Text>
+        <View style={styles.itemActions}>
+          <Button
+            mode="text"
+            compact
+            onPress={handleDiscard}
+            textColor={theme.colors.error}
+            icon="delete"
+          >
+            Discard
+          </Button>
+          <Button
+            mode="text"
+            compact
+            onPress={() => retryDeadLetter(operation.id)}
+            textColor={theme.colors.primary}
+            icon="refresh"
+          >
+            Retry
+          </Button>
+        </View>
+      </View>
+    </Surface>
+  );
+};
+
+export default function FailedSyncScreen() {
+  const theme = useTheme();
+  const { deadLetters, retryDeadLetter } = useTaskStore();
+
+  const handleRetryAll = () => {
+    deadLetters.forEach((deadLetter) =>
+      retryDeadLetter(deadLetter.operation.id)
+    );
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <Surface
+        style={[
+          styles.header,
+          {
+            backgroundColor: theme.colors.surface,
+            borderBottomColor: theme.colors.outline,
+          },
+        ]}
+        elevation={2}
+      >
+        <View style={styles.headerContent}>
+          <Text
+            variant="headlineSmall"
+            style={[styles.headerTitle, { color: theme.colors.onSurface }]}
+          >
+            Failed Changes ({deadLetters.length})
+          </Text>
+          {deadLetters.length > 0 && (
+            <Button
+              mode="text"
+              onPress={handleRetryAll}
+              textColor={theme.colors.primary}
+              icon="refresh"
+              compact
+            >
+              Retry All
+            </Button>
+          )}
+        </View>
+      </Surface>
+
+      {deadLetters.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            All changes were synced successfully
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={deadLetters}
+          keyExtractor={(item) => item.operation.id}
+          renderItem={({ item }) => <DeadLetterItem deadLetter={item} />}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontWeight: "700",
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  item: {
+    marginBottom: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  itemContent: {
+    padding: 16,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  itemTitle: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  errorText: {
+    marginBottom: 4,
+  },
+  itemActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
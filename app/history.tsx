@@ -43,6 +43,24 @@ const getActionConfig = (
         backgroundColor: statusColors.cancelled.backgroundColor,
         label: "Deleted",
       };
+    case "restored":
+      return {
+        icon: "delete-restore",
+        color: statusColors.completed.color,
+        backgroundColor: statusColors.completed.backgroundColor,
+        label: "Restored",
+      };
+    case "archived":
+    case "unarchived":
+      return {
+        icon:
+          actionType === "archived"
+            ? "archive-arrow-down"
+            : "archive-arrow-up",
+        color: themeMode === "dark" ? "#d6d3d1" : "#57534e",
+        backgroundColor: themeMode === "dark" ? "#44403c" : "#f5f5f4",
+        label: actionType === "archived" ? "Archived" : "Unarchived",
+      };
     case "status_changed":
       return {
         icon: "update",
@@ -50,6 +68,25 @@ const getActionConfig = (
         backgroundColor: statusColors.in_progress.backgroundColor,
         label: "Status Changed",
       };
+    case "project_created":
+    case "project_updated":
+    case "project_deleted":
+      return {
+        icon:
+          actionType === "project_deleted"
+            ? "folder-remove"
+            : actionType === "project_created"
+            ? "folder-plus"
+            : "folder-edit",
+        color: themeMode === "dark" ? "#a5b4fc" : "#4f46e5",
+        backgroundColor: themeMode === "dark" ? "#312e81" : "#eef2ff",
+        label:
+          actionType === "project_deleted"
+            ? "Project Deleted"
+            : actionType === "project_created"
+            ? "Project Created"
+            : "Project Updated",
+      };
     default:
       return {
         icon: "information",
@@ -159,6 +196,24 @@ const ActionLogItem = ({ log }: { log: ActionLog }) => {
                 {log.details}
               </Text>
             )}
+            {log.overEstimate && (
+              <Chip
+                mode="flat"
+                icon="timer-alert-outline"
+                compact
+                style={[
+                  styles.overEstimateChip,
+                  { backgroundColor: theme.colors.errorContainer },
+                ]}
+                textStyle={{
+                  color: theme.colors.onErrorContainer,
+                  fontSize: 11,
+                  fontWeight: "600",
+                }}
+              >
+                Over Estimate
+              </Chip>
+            )}
             <Text
               variant="bodySmall"
               style={[styles.logTime, { color: theme.colors.onSurfaceVariant }]}
@@ -216,6 +271,34 @@ const EmptyState = () => {
   );
 };
 
+const UndoControls = () => {
+  const theme = useTheme();
+  const { undoStack, redoStack, undo, redo } = useTaskStore();
+  const nextUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
+
+  return (
+    <View style={styles.headerActions}>
+      <IconButton
+        icon="undo"
+        size={20}
+        onPress={undo}
+        disabled={!nextUndo}
+        iconColor={theme.colors.primary}
+        accessibilityLabel={nextUndo ? `Undo: ${nextUndo.label}` : "Undo"}
+      />
+      <IconButton
+        icon="redo"
+        size={20}
+        onPress={redo}
+        disabled={!nextRedo}
+        iconColor={theme.colors.primary}
+        accessibilityLabel={nextRedo ? `Redo: ${nextRedo.label}` : "Redo"}
+      />
+    </View>
+  );
+};
+
 export default function HistoryScreen() {
   const theme = useTheme();
   const { getActionLogs, clearActionLogs } = useTaskStore();
@@ -296,6 +379,7 @@ export default function HistoryScreen() {
             >
               History
             </Text>
+            <UndoControls />
           </View>
         </Surface>
         <EmptyState />
@@ -324,15 +408,18 @@ export default function HistoryScreen() {
           >
             History ({logs.length})
           </Text>
-          <Button
-            mode="text"
-            onPress={handleClearHistory}
-            textColor={theme.colors.error}
-            icon="delete-sweep"
-            compact
-          >
-            Clear
-          </Button>
+          <View style={styles.headerActions}>
+            <UndoControls />
+            <Button
+              mode="text"
+              onPress={handleClearHistory}
+              textColor={theme.colors.error}
+              icon="delete-sweep"
+              compact
+            >
+              Clear
+            </Button>
+          </View>
         </View>
       </Surface>
 
@@ -377,6 +464,10 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontWeight: "700",
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   list: {
     padding: 16,
     paddingBottom: 100,
@@ -437,6 +528,11 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     fontSize: 12,
   },
+  overEstimateChip: {
+    alignSelf: "flex-start",
+    marginBottom: 4,
+    // backgroundColor will be set dynamically
+  },
   logTime: {
     fontSize: 11,
   },
@@ -1,5 +1,5 @@
 import React from "react";
-import { View, FlatList, StyleSheet, ScrollView } from "react-native";
+import { View, FlatList, StyleSheet, ScrollView, Alert } from "react-native";
 import {
   FAB,
   Card,
@@ -12,13 +12,50 @@ import {
   Surface,
   Divider,
   Switch,
+  IconButton,
+  Badge,
+  ProgressBar,
+  Searchbar,
   useTheme,
 } from "react-native-paper";
 import { useRouter } from "expo-router";
 import { useTaskStore } from "../lib/store";
 import { useThemeStore } from "../lib/themeStore";
+import { useAuthStore } from "../lib/authStore";
 import { lightStatusColors, darkStatusColors } from "../lib/theme";
 import { Task, TaskStatus } from "../lib/types";
+import { getTaskPriority } from "../lib/priority";
+import { statusLabels } from "../lib/status";
+import PriorityChip from "../components/PriorityChip";
+import TagChip from "../components/TagChip";
+import TagFilterBar from "../components/TagFilterBar";
+import ProjectBar from "../components/ProjectBar";
+import ProjectChip from "../components/ProjectChip";
+import { collectTags, hasTag, isSameTag } from "../lib/tags";
+import { getChecklistProgress } from "../lib/checklist";
+import { getOpenBlockers } from "../lib/dependencies";
+import {
+  formatDuration,
+  getRunningEntry,
+  getTrackedTime,
+} from "../lib/timeTracking";
+import { formatEstimate } from "../lib/estimates";
+import { getTaskComments } from "../lib/comments";
+import { TaskSearchMatch, searchTask } from "../lib/search";
+import {
+  CustomFieldFilter,
+  describeCustomFieldFilter,
+  getActiveFieldDefinitions,
+  getFieldFilterOptions,
+  matchesCustomFieldFilter,
+} from "../lib/customFields";
+import {
+  ProjectFilter,
+  countOpenTasks,
+  getTaskProject,
+  isTaskInProject,
+  summarizeProjects,
+} from "../lib/projects";
 
 const StatusChip = ({ status }: { status: TaskStatus }) => {
   const { themeMode } = useThemeStore();
@@ -31,16 +68,9 @@ const StatusChip = ({ status }: { status: TaskStatus }) => {
       backgroundColor: themeMode === "dark" ? "#374151" : "#f3f4f6",
     };
 
-    const labels: Record<TaskStatus, string> = {
-      todo: "To Do",
-      in_progress: "In Progress",
-      completed: "Completed",
-      cancelled: "Cancelled",
-    };
-
     return {
       ...config,
-      label: labels[status] || status,
+      label: statusLabels[status] || status,
     };
   };
 
@@ -64,10 +94,30 @@ const StatusChip = ({ status }: { status: TaskStatus }) => {
   );
 };
 
-const TaskCard = ({ task }: { task: Task }) => {
+const TaskCard = ({
+  task,
+  showProject,
+  searchMatch,
+}: {
+  task: Task;
+  showProject: boolean; // The list shows tasks of several projects
+  searchMatch?: TaskSearchMatch; // Set while searching
+}) => {
   const router = useRouter();
   const theme = useTheme();
-  const { setStatus } = useTaskStore();
+  const { tasks, setStatus, archiveTask, conflicts, projects } =
+    useTaskStore();
+  const project = showProject ? getTaskProject(task, projects) : undefined;
+  // Finished tasks are not shown as blocked even if their blockers are still open
+  const blockers =
+    task.status === "completed" || task.status === "cancelled"
+      ? []
+      : getOpenBlockers(task, tasks);
+  const hasConflict = conflicts.some((c) => c.taskId === task.id);
+  const priority = getTaskPriority(task);
+  const checklist = getChecklistProgress(task);
+  const trackedTime = getTrackedTime(task);
+  const timerRunning = !!getRunningEntry(task);
   const [menuVisible, setMenuVisible] = React.useState(false);
   const [menuKey, setMenuKey] = React.useState(0);
 
@@ -82,7 +132,35 @@ const TaskCard = ({ task }: { task: Task }) => {
   };
 
   const handleStatusChange = (newStatus: TaskStatus) => {
-    setStatus(task.id, newStatus);
+    // The store starts or completes a blocked task only when asked to explicitly
+    if (
+      (newStatus === "in_progress" || newStatus === "completed") &&
+      blockers.length > 0
+    ) {
+      const verb = newStatus === "in_progress" ? "Start" : "Complete";
+      Alert.alert(
+        "Task Is Blocked",
+        `Still waiting for ${blockers
+          .map((b) => `"${b.title}"`)
+          .join(", ")}. ${verb} it anyway?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: `${verb} Anyway`,
+            onPress: () => setStatus(task.id, newStatus, true),
+          },
+        ]
+      );
+    } else {
+      setStatus(task.id, newStatus);
+    }
+    setMenuVisible(false);
+    // Force menu re-render
+    setMenuKey((prev) => prev + 1);
+  };
+
+  const handleArchive = () => {
+    archiveTask(task.id);
     setMenuVisible(false);
     // Force menu re-render
     setMenuKey((prev) => prev + 1);
@@ -90,7 +168,11 @@ const TaskCard = ({ task }: { task: Task }) => {
 
   return (
     <Surface
-      style={[styles.taskCard, { backgroundColor: theme.colors.surface }]}
+      style={[
+        styles.taskCard,
+        { backgroundColor: theme.colors.surface },
+        blockers.length > 0 && styles.blockedCard,
+      ]}
       elevation={1}
     >
       <Card
@@ -108,6 +190,45 @@ const TaskCard = ({ task }: { task: Task }) => {
               >
                 {task.title}
               </Text>
+              {hasConflict && (
+                <Chip
+                  icon="alert-circle"
+                  style={[
+                    styles.conflictChip,
+                    { backgroundColor: theme.colors.errorContainer },
+                  ]}
+                  textStyle={{
+                    color: theme.colors.onErrorContainer,
+                    fontWeight: "600",
+                    fontSize: 12,
+                  }}
+                  onPress={() => router.push(`/conflict/${task.id}`)}
+                >
+                  Conflict
+                </Chip>
+              )}
+              {blockers.length > 0 && (
+                <Chip
+                  icon="lock"
+                  compact
+                  style={[
+                    styles.blockedChip,
+                    { backgroundColor: theme.colors.surfaceVariant },
+                  ]}
+                  textStyle={{
+                    color: theme.colors.onSurfaceVariant,
+                    fontWeight: "600",
+                    fontSize: 11,
+                  }}
+                >
+                  Blocked
+                </Chip>
+              )}
+              {priority !== "none" && (
+                <View style={styles.priorityChip}>
+                  <PriorityChip priority={priority} compact />
+                </View>
+              )}
               <StatusChip status={task.status} />
             </View>
 
@@ -143,6 +264,11 @@ const TaskCard = ({ task }: { task: Task }) => {
                 onPress={() => handleStatusChange("cancelled")}
                 title="Mark Cancelled"
               />
+              <Menu.Item
+                onPress={handleArchive}
+                leadingIcon="archive-arrow-down"
+                title="Archive"
+              />
             </Menu>
           </View>
 
@@ -175,6 +301,7 @@ const TaskCard = ({ task }: { task: Task }) => {
                 style={[styles.metaValue, { color: theme.colors.onSurface }]}
               >
                 {formatDateTime(task.datetime)}
+                {task.recurrence ? " ↻" : ""}
               </Text>
             </View>
             <View style={styles.metaItem}>
@@ -196,6 +323,64 @@ const TaskCard = ({ task }: { task: Task }) => {
               </Text>
             </View>
           </View>
+          {checklist.total > 0 && (
+            <View style={styles.checklistProgress}>
+              <Text
+                variant="bodySmall"
+                style={[
+                  styles.checklistText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                ☑ {checklist.done}/{checklist.total}
+              </Text>
+              <ProgressBar
+                progress={checklist.done / checklist.total}
+                color={theme.colors.primary}
+                style={styles.checklistBar}
+              />
+            </View>
+          )}
+          {searchMatch?.snippet && (
+            <Text
+              variant="bodySmall"
+              style={[
+                styles.searchSnippet,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+              numberOfLines={2}
+            >
+              {searchMatch.field === "comment" ? "💬" : "🔖"}{" "}
+              {searchMatch.snippet}
+            </Text>
+          )}
+          {(trackedTime > 0 || timerRunning || !!task.estimateMinutes) && (
+            <Text
+              variant="bodySmall"
+              style={[
+                styles.trackedTime,
+                {
+                  color: timerRunning
+                    ? theme.colors.primary
+                    : theme.colors.onSurfaceVariant,
+                },
+              ]}
+            >
+              ⏱ {formatDuration(trackedTime)}
+              {task.estimateMinutes
+                ? ` / ${formatEstimate(task.estimateMinutes)}`
+                : ""}
+              {timerRunning ? " · running" : ""}
+            </Text>
+          )}
+          {(project || (task.tags && task.tags.length > 0)) && (
+            <View style={styles.tagsRow}>
+              {project && <ProjectChip project={project} compact />}
+              {task.tags?.map((tag) => (
+                <TagChip key={tag} tag={tag} compact />
+              ))}
+            </View>
+          )}
           {task.attachments && task.attachments.length > 0 && (
             <View
               style={[
@@ -221,8 +406,7 @@ const TaskCard = ({ task }: { task: Task }) => {
   );
 };
 
-const EmptyState = () => {
-  const router = useRouter();
+const EmptyState = ({ onCreate }: { onCreate: () => void }) => {
   const theme = useTheme();
 
   return (
@@ -251,7 +435,7 @@ const EmptyState = () => {
           </Text>
           <Button
             mode="contained"
-            onPress={() => router.push("/new")}
+            onPress={onCreate}
             style={[
               styles.emptyButton,
               { backgroundColor: theme.colors.primary },
@@ -276,9 +460,75 @@ export default function TaskListScreen() {
     pendingSync,
     syncStatus,
     syncTasks,
+    deadLetters,
+    projects,
+    comments,
+    customFieldDefinitions,
   } = useTaskStore();
   const { themeMode, toggleTheme } = useThemeStore();
-  const tasks = getSortedTasks();
+  const { status: authStatus } = useAuthStore();
+  const sortedTasks = getSortedTasks();
+  const [selectedProject, setSelectedProject] =
+    React.useState<ProjectFilter>("all");
+  const projectSummaries = summarizeProjects(sortedTasks, projects);
+  // A project deleted meanwhile (here or on another device) falls back to all tasks
+  const activeProject =
+    selectedProject === "all" ||
+    selectedProject === "inbox" ||
+    projectSummaries.some((s) => s.project.id === selectedProject)
+      ? selectedProject
+      : "all";
+  const allTasks = sortedTasks.filter((task) =>
+    isTaskInProject(task, activeProject, projects)
+  );
+  const tagSummaries = collectTags(allTasks);
+  // New tasks go to the project being viewed
+  const openNewTask = () =>
+    activeProject !== "all" && activeProject !== "inbox"
+      ? router.push({ pathname: "/new", params: { projectId: activeProject } })
+      : router.push("/new");
+  const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+  // Tags that were renamed or deleted drop out of the filter
+  const activeTags = selectedTags.filter((tag) =>
+    tagSummaries.some((summary) => isSameTag(summary.name, tag))
+  );
+  const taggedTasks =
+    activeTags.length > 0
+      ? allTasks.filter((task) => activeTags.some((tag) => hasTag(task, tag)))
+      : allTasks;
+  const fieldDefinitions = getActiveFieldDefinitions(customFieldDefinitions);
+  const [fieldFilter, setFieldFilter] =
+    React.useState<CustomFieldFilter | null>(null);
+  const [fieldMenuVisible, setFieldMenuVisible] = React.useState(false);
+  const [fieldMenuKey, setFieldMenuKey] = React.useState(0);
+  // A field deleted meanwhile drops out of the filter
+  const filterField = fieldDefinitions.find(
+    (definition) => definition.id === fieldFilter?.fieldId
+  );
+  const activeFieldFilter = filterField ? fieldFilter : null;
+  const fieldFilteredTasks = activeFieldFilter
+    ? taggedTasks.filter((task) =>
+        matchesCustomFieldFilter(task, activeFieldFilter)
+      )
+    : taggedTasks;
+  const [searchQuery, setSearchQuery] = React.useState("");
+  const searching = searchQuery.trim().length > 0;
+  // Title, description, location, tags, custom fields and comments of each task
+  const searchMatches = new Map<string, TaskSearchMatch>();
+  if (searching) {
+    for (const task of fieldFilteredTasks) {
+      const match = searchTask(
+        task,
+        getTaskComments(comments, task.id),
+        searchQuery,
+        fieldDefinitions
+      );
+      if (match) searchMatches.set(task.id, match);
+    }
+  }
+  const tasks = searching
+    ? fieldFilteredTasks.filter((task) => searchMatches.has(task.id))
+    : fieldFilteredTasks;
   const [sortMenuVisible, setSortMenuVisible] = React.useState(false);
   const [menuKey, setMenuKey] = React.useState(0);
 
@@ -286,8 +536,24 @@ export default function TaskListScreen() {
     { key: "dateAdded_desc", label: "Newest First" },
     { key: "dateAdded_asc", label: "Oldest First" },
     { key: "status", label: "By Status" },
+    { key: "priority", label: "By Priority" },
+    ...fieldDefinitions.map((definition) => ({
+      key: `field:${definition.id}`,
+      label: `By ${definition.name}`,
+    })),
   ];
 
+  const syncIcon =
+    authStatus !== "signedIn"
+      ? "cloud-off-outline"
+      : syncStatus === "syncing"
+      ? "cloud-sync"
+      : syncStatus === "error"
+      ? "cloud-alert"
+      : pendingSync.length > 0
+      ? "cloud-upload-outline"
+      : "cloud-check-outline";
+
   const currentSortLabel =
     sortOptions.find((opt) => opt.key === sortOrder)?.label || "Sort";
 
@@ -298,6 +564,13 @@ export default function TaskListScreen() {
     setMenuKey((prev) => prev + 1);
   };
 
+  const handleFieldFilterChange = (filter: CustomFieldFilter) => {
+    setFieldFilter(filter);
+    setFieldMenuVisible(false);
+    // Force menu re-render
+    setFieldMenuKey((prev) => prev + 1);
+  };
+
   const openSortMenu = () => {
     setSortMenuVisible(true);
   };
@@ -374,6 +647,78 @@ export default function TaskListScreen() {
             </View>
           </View>
         )}
+        {(authStatus === "signedOut" || authStatus === "expired") && (
+          <View
+            style={[
+              styles.syncIndicator,
+              {
+                backgroundColor:
+                  authStatus === "expired"
+                    ? theme.colors.errorContainer
+                    : theme.colors.surfaceVariant,
+              },
+            ]}
+          >
+            <View style={styles.syncIndicatorContent}>
+              <Text
+                style={[
+                  styles.syncText,
+                  {
+                    color:
+                      authStatus === "expired"
+                        ? theme.colors.onErrorContainer
+                        : theme.colors.onSurfaceVariant,
+                  },
+                ]}
+              >
+                {authStatus === "expired"
+                  ? "Session expired, sync is paused"
+                  : "Sign in to sync your tasks"}
+              </Text>
+              <Button
+                mode="text"
+                compact
+                onPress={() => router.push("/login")}
+                textColor={
+                  authStatus === "expired"
+                    ? theme.colors.onErrorContainer
+                    : theme.colors.primary
+                }
+                style={styles.syncButton}
+              >
+                Sign In
+              </Button>
+            </View>
+          </View>
+        )}
+        {deadLetters.length > 0 && (
+          <View
+            style={[
+              styles.syncIndicator,
+              { backgroundColor: theme.colors.errorContainer },
+            ]}
+          >
+            <View style={styles.syncIndicatorContent}>
+              <Text
+                style={[
+                  styles.syncText,
+                  { color: theme.colors.onErrorContainer },
+                ]}
+              >
+                {deadLetters.length} change(s) failed to sync
+              </Text>
+              <Button
+                mode="text"
+                compact
+                onPress={() => router.push("/failed-sync")}
+                textColor={theme.colors.onErrorContainer}
+                style={styles.syncButton}
+              >
+                Review
+              </Button>
+            </View>
+          </View>
+        )}
         <View style={styles.headerContent}>
           <View style={styles.headerActions}>
             <Button
@@ -430,25 +775,149 @@ export default function TaskListScreen() {
                 color={theme.colors.primary}
               />
             </View>
+            <View style={styles.syncIconContainer}>
+              <IconButton
+                icon={syncIcon}
+                size={22}
+                onPress={() => router.push("/sync")}
+                iconColor={
+                  syncStatus === "error"
+                    ? theme.colors.error
+                    : theme.colors.primary
+                }
+                style={styles.settingsButton}
+              />
+              {pendingSync.length > 0 && (
+                <Badge size={16} style={styles.syncBadge}>
+                  {pendingSync.length}
+                </Badge>
+              )}
+            </View>
+            <IconButton
+              icon="archive-outline"
+              size={22}
+              onPress={() => router.push("/archive")}
+              iconColor={theme.colors.primary}
+              style={styles.settingsButton}
+            />
+            <IconButton
+              icon="timer-outline"
+              size={22}
+              onPress={() => router.push("/time-report")}
+              iconColor={theme.colors.primary}
+              style={styles.settingsButton}
+            />
+            <IconButton
+              icon="cog"
+              size={22}
+              onPress={() => router.push("/settings")}
+              iconColor={theme.colors.primary}
+              style={styles.settingsButton}
+            />
           </View>
         </View>
+        <Searchbar
+          placeholder="Search tasks and comments"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          style={[
+            styles.searchbar,
+            { backgroundColor: theme.colors.surfaceVariant },
+          ]}
+          inputStyle={styles.searchbarInput}
+        />
+        {fieldDefinitions.length > 0 && (
+          <View style={styles.fieldFilterRow}>
+            {activeFieldFilter && filterField ? (
+              <Chip
+                icon="filter-variant"
+                onClose={() => setFieldFilter(null)}
+                style={{ backgroundColor: theme.colors.primaryContainer }}
+                textStyle={{ color: theme.colors.onPrimaryContainer }}
+              >
+                {describeCustomFieldFilter(activeFieldFilter, filterField)}
+              </Chip>
+            ) : (
+              <Menu
+                key={fieldMenuKey}
+                visible={fieldMenuVisible}
+                onDismiss={() => setFieldMenuVisible(false)}
+                anchor={
+                  <Chip
+                    icon="filter-variant"
+                    onPress={() => setFieldMenuVisible(true)}
+                    style={{ backgroundColor: theme.colors.surfaceVariant }}
+                    textStyle={{ color: theme.colors.onSurfaceVariant }}
+                  >
+                    Filter by field
+                  </Chip>
+                }
+              >
+                {fieldDefinitions.flatMap((definition) =>
+                  getFieldFilterOptions(definition).map((filter) => (
+                    <Menu.Item
+                      key={`${definition.id}:${String(filter.value)}`}
+                      onPress={() => handleFieldFilterChange(filter)}
+                      title={describeCustomFieldFilter(filter, definition)}
+                    />
+                  ))
+                )}
+              </Menu>
+            )}
+          </View>
+        )}
+        <ProjectBar
+          projects={projectSummaries}
+          selected={activeProject}
+          allCount={countOpenTasks(sortedTasks, "all", projects)}
+          inboxCount={countOpenTasks(sortedTasks, "inbox", projects)}
+          onChange={setSelectedProject}
+          onManage={() => router.push("/projects")}
+        />
+        {tagSummaries.length > 0 && (
+          <TagFilterBar
+            tags={tagSummaries}
+            selected={activeTags}
+            onChange={setSelectedTags}
+            onManage={() => router.push("/tags")}
+          />
+        )}
       </Surface>
 
-      {tasks.length === 0 ? (
-        <EmptyState />
+      {allTasks.length === 0 ? (
+        <EmptyState onCreate={openNewTask} />
+      ) : tasks.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {searching
+              ? `Nothing matches "${searchQuery.trim()}"`
+              : activeFieldFilter
+              ? "No tasks match the field filter"
+              : "No tasks with the selected tags"}
+          </Text>
+        </View>
       ) : (
         <>
           <FlatList
             data={tasks}
             keyExtractor={(item) => item.id}
-            renderItem={({ item }) => <TaskCard task={item} />}
+            renderItem={({ item }) => (
+              <TaskCard
+                task={item}
+                showProject={activeProject === "all"}
+                searchMatch={searchMatches.get(item.id)}
+              />
+            )}
             contentContainerStyle={styles.list}
             showsVerticalScrollIndicator={false}
           />
           <FAB
             style={[styles.fab, { backgroundColor: theme.colors.primary }]}
             icon="plus"
-            onPress={() => router.push("/new")}
+            onPress={openNewTask}
             label="New Task"
             size="large"
           />
@@ -475,6 +944,20 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontWeight: "700",
   },
+  searchbar: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    height: 44,
+    // backgroundColor will be set dynamically
+  },
+  searchbarInput: {
+    minHeight: 0,
+  },
+  fieldFilterRow: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
   headerActions: {
     flexDirection: "row",
     gap: 8,
@@ -490,6 +973,17 @@ const styles = StyleSheet.create({
   themeToggle: {
     marginLeft: 8,
   },
+  settingsButton: {
+    margin: 0,
+  },
+  syncIconContainer: {
+    position: "relative",
+  },
+  syncBadge: {
+    position: "absolute",
+    top: 0,
+    right: 0,
+  },
   syncIndicator: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -534,6 +1028,20 @@ const styles = StyleSheet.create({
     alignItems: "flex-start",
     marginBottom: 8,
   },
+  conflictChip: {
+    marginRight: 8,
+    // backgroundColor will be set dynamically
+  },
+  priorityChip: {
+    marginRight: 8,
+  },
+  blockedChip: {
+    marginRight: 8,
+    // backgroundColor will be set dynamically
+  },
+  blockedCard: {
+    opacity: 0.75,
+  },
   taskTitle: {
     flex: 1,
     marginRight: 12,
@@ -563,6 +1071,37 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     // color will be set dynamically
   },
+  checklistProgress: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+  },
+  checklistText: {
+    fontWeight: "500",
+    // color will be set dynamically
+  },
+  checklistBar: {
+    width: 80,
+    height: 4,
+    borderRadius: 2,
+  },
+  trackedTime: {
+    fontWeight: "500",
+    marginTop: 8,
+    // color will be set dynamically
+  },
+  searchSnippet: {
+    fontStyle: "italic",
+    marginTop: 8,
+    // color will be set dynamically
+  },
+  tagsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 12,
+  },
   attachmentsBadge: {
     marginTop: 8,
     paddingTop: 8,
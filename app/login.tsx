@@ -0,0 +1,251 @@
+import React from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import { Button, TextInput, Surface, Text, useTheme } from "react-native-paper";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useRouter } from "expo-router";
+import { useAuthStore } from "../lib/authStore";
+import { useTaskStore } from "../lib/store";
+import { getApiBaseUrl, loginOnServer } from "../lib/sync";
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+type LoginFormData = z.infer<typeof loginSchema>;
+
+const confirmDiscardUnsynced = () => {
+  const { pendingSync, deadLetters } = useTaskStore.getState();
+  const count = pendingSync.length + deadLetters.length;
+  return new Promise<boolean>((resolve) => {
+    Alert.alert(
+      "Unsynced Changes",
+      `${count} change${
+        count !== 1 ? "s" : ""
+      } made with the previous account haven't reached the server. Signing in as another user removes them from this device.`,
+      [
+        { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+        {
+          text: "Discard and Sign In",
+          style: "destructive",
+          onPress: () => resolve(true),
+        },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+};
+
+export default function LoginScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { user, status, setSession } = useAuthStore();
+  const { switchAccount, syncTasks } = useTaskStore();
+  const [submitting, setSubmitting] = React.useState(false);
+  const [loginError, setLoginError] = React.useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+  } = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: {
+      username: user?.username ?? "",
+      password: "",
+    },
+    mode: "onChange",
+  });
+
+  const onSubmit = async (data: LoginFormData) => {
+    setSubmitting(true);
+    setLoginError(null);
+    try {
+      const session = await loginOnServer(data.username, data.password);
+      if (!switchAccount(session.user.id)) {
+        // Another account's changes haven't reached the server yet
+        const discard = await confirmDiscardUnsynced();
+        if (!discard) {
+          return;
+        }
+        switchAccount(session.user.id, true);
+      }
+      await setSession(session.token, session.user);
+      syncTasks().catch((error) => {
+        console.error("Sync after sign in failed:", error);
+      });
+      router.back();
+    } catch (error) {
+      setLoginError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="headlineSmall"
+            style={[styles.title, { color: theme.colors.onSurface }]}
+          >
+            Sign In
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={[styles.subtitle, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {status === "expired"
+              ? "Your session has expired. Sign in again to resume syncing."
+              : "Sign in to sync your tasks between devices."}
+          </Text>
+
+          <Controller
+            control={control}
+            name="username"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInput
+                label="Username"
+                value={value}
+                onBlur={onBlur}
+                onChangeText={onChange}
+                error={!!errors.username}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+                mode="outlined"
+                outlineColor={theme.colors.outline}
+                activeOutlineColor={theme.colors.primary}
+              />
+            )}
+          />
+          {errors.username && (
+            <Text variant="bodySmall" style={styles.errorText}>
+              {errors.username.message}
+            </Text>
+          )}
+
+          <Controller
+            control={control}
+            name="password"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInput
+                label="Password"
+                value={value}
+                onBlur={onBlur}
+                onChangeText={onChange}
+                error={!!errors.password}
+                secureTextEntry
+                autoCapitalize="none"
+                style={styles.input}
+                mode="outlined"
+                outlineColor={theme.colors.outline}
+                activeOutlineColor={theme.colors.primary}
+              />
+            )}
+          />
+          {errors.password && (
+            <Text variant="bodySmall" style={styles.errorText}>
+              {errors.password.message}
+            </Text>
+          )}
+
+          {loginError && (
+            <Text variant="bodyMedium" style={styles.loginError}>
+              {loginError}
+            </Text>
+          )}
+
+          <Text
+            variant="bodySmall"
+            style={[styles.serverHint, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Server: {getApiBaseUrl()}
+          </Text>
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={() => router.push("/settings")}
+              style={[styles.button, { borderColor: theme.colors.outline }]}
+              textColor={theme.colors.onSurfaceVariant}
+            >
+              Change Server
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit(onSubmit)}
+              disabled={!isValid || submitting}
+              loading={submitting}
+              style={styles.button}
+              buttonColor={theme.colors.primary}
+            >
+              Sign In
+            </Button>
+          </View>
+        </View>
+      </Surface>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  card: {
+    margin: 16,
+    borderRadius: 16,
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    marginBottom: 8,
+    textAlign: "center",
+    fontWeight: "700",
+  },
+  subtitle: {
+    marginBottom: 24,
+    textAlign: "center",
+    lineHeight: 20,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  errorText: {
+    color: "#ef4444",
+    fontSize: 12,
+    marginBottom: 16,
+    marginTop: -4,
+    fontWeight: "500",
+  },
+  loginError: {
+    color: "#ef4444",
+    marginTop: 8,
+    fontWeight: "500",
+  },
+  serverHint: {
+    marginTop: 16,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 24,
+  },
+  button: {
+    flex: 1,
+    marginHorizontal: 6,
+    borderRadius: 12,
+  },
+});
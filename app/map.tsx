@@ -21,9 +21,17 @@ try {
 }
 import { useRouter } from "expo-router";
 import { useTaskStore } from "../lib/store";
+import { getListedTasks } from "../lib/archive";
 import { useThemeStore } from "../lib/themeStore";
-import { lightStatusColors, darkStatusColors } from "../lib/theme";
+import {
+  lightStatusColors,
+  darkStatusColors,
+  lightPriorityColors,
+  darkPriorityColors,
+} from "../lib/theme";
 import { Task, TaskStatus } from "../lib/types";
+import { getTaskPriority } from "../lib/priority";
+import PriorityChip from "../components/PriorityChip";
 import {
   getCurrentPositionAsync,
   requestLocationPermissions,
@@ -61,8 +69,8 @@ export default function MapScreen() {
   } | null>(null);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
 
-  // Filter tasks that have coordinates
-  const tasksWithLocation = tasks.filter(
+  // Filter tasks that have coordinates, archived ones are left out
+  const tasksWithLocation = getListedTasks(tasks).filter(
     (task) =>
       task.coordinates &&
       task.status !== "completed" &&
@@ -106,6 +114,9 @@ export default function MapScreen() {
     );
   };
 
+  const priorityColors =
+    themeMode === "dark" ? darkPriorityColors : lightPriorityColors;
+
   const mapsAvailable = MapView !== null && Marker !== null;
 
   return (
@@ -137,6 +148,17 @@ export default function MapScreen() {
                     {task.title.charAt(0).toUpperCase()}
                   </Text>
                 </View>
+                {getTaskPriority(task) !== "none" && (
+                  <View
+                    style={[
+                      styles.markerPriority,
+                      {
+                        backgroundColor:
+                          priorityColors[getTaskPriority(task)].color,
+                      },
+                    ]}
+                  />
+                )}
               </View>
             </Marker>
           ))}
@@ -194,7 +216,12 @@ export default function MapScreen() {
                     >
                       {task.title}
                     </Text>
-                    <StatusChip status={task.status} />
+                    <View style={styles.taskItemChips}>
+                      <StatusChip status={task.status} />
+                      {getTaskPriority(task) !== "none" && (
+                        <PriorityChip priority={getTaskPriority(task)} compact />
+                      )}
+                    </View>
                     <Text
                       variant="bodySmall"
                       style={[
@@ -289,6 +316,11 @@ export default function MapScreen() {
               </Text>
               <StatusChip status={selectedTask.status} />
             </View>
+            {getTaskPriority(selectedTask) !== "none" && (
+              <View style={styles.taskCardPriority}>
+                <PriorityChip priority={getTaskPriority(selectedTask)} compact />
+              </View>
+            )}
 
             {selectedTask.description && (
               <Text
@@ -377,6 +409,17 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
+  markerPriority: {
+    position: "absolute",
+    top: -2,
+    right: -2,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: "#ffffff",
+    // backgroundColor will be set dynamically
+  },
   markerText: {
     color: "#ffffff",
     fontSize: 16,
@@ -398,6 +441,10 @@ const styles = StyleSheet.create({
     alignItems: "flex-start",
     marginBottom: 8,
   },
+  taskCardPriority: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
   taskCardTitle: {
     flex: 1,
     marginRight: 12,
@@ -468,6 +515,11 @@ const styles = StyleSheet.create({
   taskItemTitle: {
     fontWeight: "600",
   },
+  taskItemChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
   taskItemLocation: {
     fontWeight: "500",
   },
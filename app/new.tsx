@@ -13,13 +13,35 @@ import {
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useRouter } from "expo-router";
+import { useRouter, useLocalSearchParams } from "expo-router";
 import { useTaskStore } from "../lib/store";
+import { getActiveTasks } from "../lib/trash";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
 import * as DocumentPicker from "expo-document-picker";
 import { Attachment, LocationCoordinates } from "../lib/types";
 import LocationPicker from "../components/LocationPicker";
+import PriorityPicker from "../components/PriorityPicker";
+import EstimatePicker from "../components/EstimatePicker";
+import CustomFieldInputs from "../components/CustomFieldInputs";
+import TagInput from "../components/TagInput";
+import RecurrenceEditor from "../components/RecurrenceEditor";
+import ProjectPicker from "../components/ProjectPicker";
+import { MAX_TAGS_PER_TASK, MAX_TAG_LENGTH, collectTags } from "../lib/tags";
+import { TASK_PRIORITIES } from "../lib/priority";
+import { MAX_ESTIMATE_MINUTES } from "../lib/estimates";
+import {
+  fromFormValues,
+  getActiveFieldDefinitions,
+  toFormValues,
+  validateCustomFields,
+} from "../lib/customFields";
+import {
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  RECURRENCE_FREQUENCIES,
+  anchorRecurrence,
+} from "../lib/recurrence";
 
 const taskSchema = z.object({
   title: z
@@ -40,6 +62,26 @@ const taskSchema = z.object({
     .string()
     .min(1, "Location is required")
     .max(120, "Location must be 120 characters or less"),
+  projectId: z.string().optional(),
+  priority: z.enum(TASK_PRIORITIES),
+  estimateMinutes: z.number().int().min(1).max(MAX_ESTIMATE_MINUTES).nullable(),
+  tags: z
+    .array(z.string().min(1).max(MAX_TAG_LENGTH))
+    .max(MAX_TAGS_PER_TASK, `No more than ${MAX_TAGS_PER_TASK} tags`),
+  recurrence: z
+    .object({
+      frequency: z.enum(RECURRENCE_FREQUENCIES),
+      interval: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL),
+      weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+      monthlyBy: z.enum(["day", "weekday"]).optional(),
+      monthDay: z.number().int().optional(),
+      weekOfMonth: z.number().int().optional(),
+      endDate: z.string().optional(),
+      count: z.number().int().min(1).max(MAX_RECURRENCE_COUNT).optional(),
+    })
+    .nullable(),
+  // Checked per field by validateCustomFields, generated from the field definitions
+  customFields: z.record(z.union([z.string(), z.boolean(), z.null()])),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -47,7 +89,21 @@ type TaskFormData = z.infer<typeof taskSchema>;
 export default function NewTaskScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { addTask } = useTaskStore();
+  // Opened from a project on the home screen: the task goes to that project
+  const { projectId } = useLocalSearchParams<{ projectId?: string }>();
+  const { tasks, addTask, customFieldDefinitions } = useTaskStore();
+  const fieldDefinitions = React.useMemo(
+    () => getActiveFieldDefinitions(customFieldDefinitions),
+    [customFieldDefinitions]
+  );
+  const schema = React.useMemo(
+    () => taskSchema.superRefine(validateCustomFields(fieldDefinitions)),
+    [fieldDefinitions]
+  );
+  const availableTags = React.useMemo(
+    () => collectTags(getActiveTasks(tasks)).map((tag) => tag.name),
+    [tasks]
+  );
   const [showDatePicker, setShowDatePicker] = React.useState(false);
   const [showTimePicker, setShowTimePicker] = React.useState(false);
   const [attachments, setAttachments] = React.useState<Attachment[]>([]);
@@ -63,12 +119,18 @@ export default function NewTaskScreen() {
     setValue,
     watch,
   } = useForm<TaskFormData>({
-    resolver: zodResolver(taskSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       title: "",
       description: "",
       datetime: new Date(),
       location: "",
+      projectId,
+      priority: "none",
+      estimateMinutes: null,
+      tags: [],
+      recurrence: null,
+      customFields: toFormValues(fieldDefinitions),
     },
     mode: "onChange",
   });
@@ -81,6 +143,17 @@ export default function NewTaskScreen() {
       description: data.description || "",
       datetime: data.datetime.toISOString(),
       location: data.location,
+      projectId: data.projectId,
+      priority: data.priority,
+      estimateMinutes: data.estimateMinutes ?? undefined,
+      tags: data.tags.length > 0 ? data.tags : undefined,
+      recurrence: data.recurrence
+        ? anchorRecurrence(data.recurrence, data.datetime)
+        : undefined,
+      customFields: fromFormValues(
+        fieldDefinitions,
+        data.customFields
+      ),
       coordinates: locationCoordinates,
       attachments: attachments.length > 0 ? attachments : undefined,
     });
@@ -256,6 +329,48 @@ export default function NewTaskScreen() {
             </Text>
           )}
 
+          <Controller
+            control={control}
+            name="projectId"
+            render={({ field: { onChange, value } }) => (
+              <ProjectPicker value={value} onChange={onChange} />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="priority"
+            render={({ field: { onChange, value } }) => (
+              <PriorityPicker value={value} onChange={onChange} />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="estimateMinutes"
+            render={({ field: { onChange, value } }) => (
+              <EstimatePicker value={value} onChange={onChange} />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field: { onChange, value } }) => (
+              <TagInput
+                value={value}
+                onChange={onChange}
+                availableTags={availableTags}
+                error={!!errors.tags}
+              />
+            )}
+          />
+          {errors.tags && (
+            <Text variant="bodySmall" style={styles.errorText}>
+              {errors.tags.message}
+            </Text>
+          )}
+
           <View style={styles.datetimeContainer}>
             <Text
               variant="bodyMedium"
@@ -319,6 +434,18 @@ export default function NewTaskScreen() {
             </Text>
           )}
 
+          <Controller
+            control={control}
+            name="recurrence"
+            render={({ field: { onChange, value } }) => (
+              <RecurrenceEditor
+                value={value}
+                onChange={onChange}
+                date={selectedDateTime}
+              />
+            )}
+          />
+
           <View style={styles.locationSection}>
             <Controller
               control={control}
@@ -364,6 +491,19 @@ export default function NewTaskScreen() {
             initialCoordinates={locationCoordinates}
           />
 
+          <Controller
+            control={control}
+            name="customFields"
+            render={({ field: { onChange, value } }) => (
+              <CustomFieldInputs
+                definitions={fieldDefinitions}
+                value={value}
+                onChange={onChange}
+                errors={errors.customFields}
+              />
+            )}
+          />
+
           <View style={styles.attachmentsSection}>
             <Text
               variant="titleMedium"
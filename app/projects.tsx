@@ -0,0 +1,331 @@
+import React from "react";
+import { View, StyleSheet, FlatList, Pressable } from "react-native";
+import {
+  Surface,
+  Text,
+  Button,
+  IconButton,
+  TextInput,
+  Dialog,
+  Portal,
+  FAB,
+  useTheme,
+} from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import { getActiveTasks } from "../lib/trash";
+import {
+  MAX_PROJECT_NAME_LENGTH,
+  PROJECT_COLORS,
+  PROJECT_ICONS,
+  ProjectSummary,
+  getActiveProjects,
+  summarizeProjects,
+} from "../lib/projects";
+import { Project } from "../lib/types";
+import ProjectChip from "../components/ProjectChip";
+
+type ProjectForm = {
+  id: string | null; // null for a new project
+  name: string;
+  color: string;
+  icon: string;
+};
+
+const DEFAULT_COLOR = PROJECT_COLORS[0] ?? "#6366f1";
+const DEFAULT_ICON = PROJECT_ICONS[0] ?? "folder";
+
+export default function ProjectsScreen() {
+  const theme = useTheme();
+  const { tasks, projects, addProject, updateProject, deleteProject } =
+    useTaskStore();
+  const activeTasks = getActiveTasks(tasks);
+  const summaries = summarizeProjects(activeTasks, projects);
+  const [form, setForm] = React.useState<ProjectForm | null>(null);
+  const [deleting, setDeleting] = React.useState<Project | null>(null);
+
+  const deletingTaskCount = deleting
+    ? activeTasks.filter((t) => t.projectId === deleting.id).length
+    : 0;
+  const moveTargets = getActiveProjects(projects).filter(
+    (p) => p.id !== deleting?.id
+  );
+
+  const openNew = () =>
+    setForm({ id: null, name: "", color: DEFAULT_COLOR, icon: DEFAULT_ICON });
+
+  const openEdit = (project: Project) =>
+    setForm({
+      id: project.id,
+      name: project.name,
+      color: project.color,
+      icon: project.icon,
+    });
+
+  const handleSave = () => {
+    if (!form || !form.name.trim()) return;
+    const { id, ...values } = form;
+    if (id) {
+      updateProject(id, values);
+    } else {
+      addProject(values);
+    }
+    setForm(null);
+  };
+
+  const handleDelete = (
+    tasksAction: "move" | "delete",
+    targetProjectId?: string
+  ) => {
+    if (!deleting) return;
+    deleteProject(deleting.id, tasksAction, targetProjectId);
+    setDeleting(null);
+  };
+
+  const renderProject = ({ item }: { item: ProjectSummary }) => (
+    <Surface
+      style={[styles.item, { backgroundColor: theme.colors.surface }]}
+      elevation={1}
+    >
+      <View style={styles.itemContent}>
+        <View style={styles.itemInfo}>
+          <ProjectChip project={item.project} />
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {item.openCount} open task{item.openCount !== 1 ? "s" : ""}
+          </Text>
+        </View>
+        <View style={styles.itemActions}>
+          <IconButton
+            icon="pencil"
+            size={20}
+            onPress={() => openEdit(item.project)}
+            iconColor={theme.colors.onSurfaceVariant}
+          />
+          <IconButton
+            icon="delete"
+            size={20}
+            onPress={() => setDeleting(item.project)}
+            iconColor={theme.colors.error}
+          />
+        </View>
+      </View>
+    </Surface>
+  );
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      {summaries.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            No projects yet. Tasks without a project stay in the Inbox.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={summaries}
+          keyExtractor={(item) => item.project.id}
+          renderItem={renderProject}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      <FAB
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        icon="plus"
+        onPress={openNew}
+        label="New Project"
+      />
+
+      <Portal>
+        <Dialog visible={!!form} onDismiss={() => setForm(null)}>
+          <Dialog.Title>
+            {form?.id ? "Edit Project" : "New Project"}
+          </Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Name"
+              value={form?.name ?? ""}
+              onChangeText={(name) => form && setForm({ ...form, name })}
+              maxLength={MAX_PROJECT_NAME_LENGTH}
+              mode="outlined"
+              outlineColor={theme.colors.outline}
+              activeOutlineColor={theme.colors.primary}
+            />
+            <Text
+              variant="bodyMedium"
+              style={[styles.label, { color: theme.colors.onSurface }]}
+            >
+              Color
+            </Text>
+            <View style={styles.palette}>
+              {PROJECT_COLORS.map((color) => (
+                <Pressable
+                  key={color}
+                  onPress={() => form && setForm({ ...form, color })}
+                  style={[
+                    styles.swatch,
+                    {
+                      backgroundColor: color,
+                      borderColor:
+                        form?.color === color
+                          ? theme.colors.onSurface
+                          : "transparent",
+                    },
+                  ]}
+                />
+              ))}
+            </View>
+            <Text
+              variant="bodyMedium"
+              style={[styles.label, { color: theme.colors.onSurface }]}
+            >
+              Icon
+            </Text>
+            <View style={styles.icons}>
+              {PROJECT_ICONS.map((icon) => (
+                <IconButton
+                  key={icon}
+                  icon={icon}
+                  size={22}
+                  mode={form?.icon === icon ? "contained" : undefined}
+                  iconColor={form?.color}
+                  onPress={() => form && setForm({ ...form, icon })}
+                />
+              ))}
+            </View>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setForm(null)}>Cancel</Button>
+            <Button onPress={handleSave} disabled={!form?.name.trim()}>
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!deleting} onDismiss={() => setDeleting(null)}>
+          <Dialog.Title>Delete "{deleting?.name}"</Dialog.Title>
+          <Dialog.Content>
+            {deletingTaskCount === 0 ? (
+              <Text variant="bodyMedium">The project has no tasks.</Text>
+            ) : (
+              <>
+                <Text variant="bodyMedium">
+                  Move its {deletingTaskCount} task
+                  {deletingTaskCount !== 1 ? "s" : ""} to:
+                </Text>
+                <View style={styles.moveTargets}>
+                  <ProjectChip onPress={() => handleDelete("move")} />
+                  {moveTargets.map((project) => (
+                    <ProjectChip
+                      key={project.id}
+                      project={project}
+                      onPress={() => handleDelete("move", project.id)}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDeleting(null)}>Cancel</Button>
+            {deletingTaskCount === 0 ? (
+              <Button
+                onPress={() => handleDelete("move")}
+                textColor={theme.colors.error}
+              >
+                Delete
+              </Button>
+            ) : (
+              <Button
+                onPress={() => handleDelete("delete")}
+                textColor={theme.colors.error}
+              >
+                Delete with Tasks
+              </Button>
+            )}
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  item: {
+    marginBottom: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  itemContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingLeft: 16,
+    paddingVertical: 8,
+  },
+  itemInfo: {
+    flex: 1,
+    alignItems: "flex-start",
+    gap: 4,
+  },
+  itemActions: {
+    flexDirection: "row",
+  },
+  label: {
+    marginTop: 16,
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  palette: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    // backgroundColor and borderColor will be set dynamically
+  },
+  icons: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  moveTargets: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  fab: {
+    position: "absolute",
+    margin: 20,
+    right: 0,
+    bottom: 0,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
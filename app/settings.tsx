@@ -0,0 +1,773 @@
+import React from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Button,
+  TextInput,
+  Surface,
+  Text,
+  ActivityIndicator,
+  Chip,
+  Switch,
+  useTheme,
+} from "react-native-paper";
+import { useRouter } from "expo-router";
+import { useSettingsStore } from "../lib/settingsStore";
+import { useAuthStore } from "../lib/authStore";
+import { useTaskStore } from "../lib/store";
+import {
+  TRASH_RETENTION_OPTIONS,
+  describeRetention,
+  getActiveTasks,
+  getTrashedTasks,
+} from "../lib/trash";
+import { AUTO_ARCHIVE_OPTIONS, describeAutoArchive } from "../lib/archive";
+import { useLiveSyncStore } from "../lib/liveSync";
+import { LiveSyncStatus } from "../lib/types";
+import { OVERRUN_MARGINS } from "../lib/estimates";
+import { shareCsv, shareJson, tasksToCsv } from "../lib/export";
+import {
+  QuarantinedRecord,
+  clearQuarantine,
+  getQuarantinedRecords,
+} from "../lib/migrations";
+import { getDateKey } from "../lib/timeTracking";
+import {
+  ConnectionTestResult,
+  getDefaultApiUrl,
+  normalizeApiUrl,
+  testApiConnection,
+} from "../lib/sync";
+
+const liveSyncLabels: Record<LiveSyncStatus, string> = {
+  stopped: "Off",
+  connecting: "Connecting...",
+  connected: "Connected, changes arrive instantly",
+  polling: "Server unreachable, checking every 30 seconds",
+};
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const {
+    apiUrl,
+    setApiUrl,
+    autoStartTimer,
+    setAutoStartTimer,
+    overrunMargin,
+    setOverrunMargin,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    autoArchiveDays,
+    setAutoArchiveDays,
+  } = useSettingsStore();
+  const { user, status: authStatus, signOut } = useAuthStore();
+  const {
+    syncTasks,
+    tasks,
+    projects,
+    customFieldDefinitions,
+    purgeTrash,
+    archiveFinishedTasks,
+  } = useTaskStore();
+  const trashCount = getTrashedTasks(tasks).length;
+  const liveSyncStatus = useLiveSyncStore((state) => state.status);
+  const defaultUrl = React.useMemo(() => getDefaultApiUrl(), []);
+  const [urlInput, setUrlInput] = React.useState(apiUrl ?? "");
+  const [testing, setTesting] = React.useState(false);
+  const [exporting, setExporting] = React.useState(false);
+  const [testResult, setTestResult] =
+    React.useState<ConnectionTestResult | null>(null);
+  const [quarantined, setQuarantined] = React.useState<QuarantinedRecord[]>(
+    []
+  );
+
+  // Records set aside when the stored tasks were loaded, see lib/migrations.ts
+  React.useEffect(() => {
+    getQuarantinedRecords().then(setQuarantined);
+  }, []);
+
+  const normalizedUrl = urlInput.trim() ? normalizeApiUrl(urlInput) : null;
+  const isInvalid = urlInput.trim().length > 0 && !normalizedUrl;
+  const effectiveUrl = normalizedUrl ?? defaultUrl;
+  const isDirty = (normalizedUrl ?? null) !== apiUrl;
+
+  const handleRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    // A shorter period applies right away
+    purgeTrash();
+  };
+
+  const handleAutoArchiveChange = (days: number) => {
+    setAutoArchiveDays(days);
+    archiveFinishedTasks();
+  };
+
+  const handleExportTasks = async () => {
+    setExporting(true);
+    try {
+      await shareCsv(
+        `tasks-${getDateKey(new Date())}.csv`,
+        tasksToCsv(getActiveTasks(tasks), projects, customFieldDefinitions),
+        "Export Tasks"
+      );
+    } catch (error) {
+      console.error("Error exporting tasks:", error);
+      Alert.alert(
+        "Error",
+        `Could not export the tasks: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportQuarantine = async () => {
+    try {
+      await shareJson(
+        `damaged-data-${getDateKey(new Date())}.json`,
+        quarantined,
+        "Export Damaged Data"
+      );
+    } catch (error) {
+      console.error("Error exporting quarantined records:", error);
+      Alert.alert(
+        "Error",
+        `Could not export the data: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
+  const handleClearQuarantine = () => {
+    Alert.alert(
+      "Delete Damaged Data",
+      "The records can't be recovered afterwards. Export them first if you may need them.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await clearQuarantine();
+            setQuarantined([]);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setTestResult(null);
+    const result = await testApiConnection(effectiveUrl);
+    setTestResult(result);
+    setTesting(false);
+  };
+
+  const handleSave = () => {
+    setApiUrl(normalizedUrl);
+    if (normalizedUrl) {
+      setUrlInput(normalizedUrl);
+    }
+    setTestResult(null);
+    syncTasks().catch((error) => {
+      console.error("Sync after changing server URL failed:", error);
+    });
+  };
+
+  const handleReset = () => {
+    setUrlInput("");
+    setApiUrl(null);
+    setTestResult(null);
+    syncTasks().catch((error) => {
+      console.error("Sync after changing server URL failed:", error);
+    });
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="titleMedium"
+            style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+          >
+            Sync Server
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Address of the task server, e.g. http://192.168.1.6:3000. Leave
+            empty to use the default: {defaultUrl}
+          </Text>
+
+          <TextInput
+            label="Server URL"
+            value={urlInput}
+            onChangeText={(text) => {
+              setUrlInput(text);
+              setTestResult(null);
+            }}
+            placeholder={defaultUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            error={isInvalid}
+            style={styles.input}
+            mode="outlined"
+            outlineColor={theme.colors.outline}
+            activeOutlineColor={theme.colors.primary}
+          />
+          {isInvalid && (
+            <Text variant="bodySmall" style={styles.errorText}>
+              Enter a valid http:// or https:// address
+            </Text>
+          )}
+
+          <View style={styles.buttonRow}>
+            <Button
+              mode="outlined"
+              onPress={handleTest}
+              disabled={isInvalid || testing}
+              style={[styles.button, { borderColor: theme.colors.primary }]}
+              textColor={theme.colors.primary}
+              icon="lan-connect"
+            >
+              Test Connection
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSave}
+              disabled={isInvalid || !isDirty}
+              style={styles.button}
+              buttonColor={theme.colors.primary}
+            >
+              Save
+            </Button>
+          </View>
+
+          {testing && (
+            <View style={styles.resultRow}>
+              <ActivityIndicator size="small" color={theme.colors.primary} />
+              <Text
+                variant="bodyMedium"
+                style={[
+                  styles.resultText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                Connecting to {effectiveUrl}...
+              </Text>
+            </View>
+          )}
+
+          {testResult && (
+            <Surface
+              style={[
+                styles.resultBox,
+                {
+                  backgroundColor: testResult.ok
+                    ? theme.colors.primaryContainer
+                    : theme.colors.errorContainer,
+                },
+              ]}
+              elevation={0}
+            >
+              <Text
+                variant="bodyMedium"
+                style={{
+                  color: testResult.ok
+                    ? theme.colors.onPrimaryContainer
+                    : theme.colors.onErrorContainer,
+                  fontWeight: "600",
+                }}
+              >
+                {testResult.ok
+                  ? `Connected in ${testResult.latencyMs} ms`
+                  : "Connection failed"}
+              </Text>
+              {testResult.error && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: theme.colors.onErrorContainer }}
+                >
+                  {testResult.error}
+                </Text>
+              )}
+              {testResult.status !== undefined && (
+                <Text
+                  variant="bodySmall"
+                  style={{
+                    color: testResult.ok
+                      ? theme.colors.onPrimaryContainer
+                      : theme.colors.onErrorContainer,
+                  }}
+                >
+                  HTTP {testResult.status}
+                </Text>
+              )}
+            </Surface>
+          )}
+
+          {apiUrl && (
+            <Button
+              mode="text"
+              onPress={handleReset}
+              textColor={theme.colors.onSurfaceVariant}
+              icon="restore"
+              style={styles.resetButton}
+            >
+              Use Default Address
+            </Button>
+          )}
+        </View>
+      </Surface>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="titleMedium"
+            style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+          >
+            Account
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {authStatus === "signedIn" && user
+              ? `Signed in as ${user.username}`
+              : authStatus === "expired"
+              ? "Session expired, sync is paused"
+              : "Not signed in, changes stay on this device"}
+          </Text>
+          {authStatus === "signedIn" && (
+            <Text
+              variant="bodySmall"
+              style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+            >
+              Live updates: {liveSyncLabels[liveSyncStatus]}
+            </Text>
+          )}
+          {authStatus === "signedIn" ? (
+            <Button
+              mode="outlined"
+              onPress={() => signOut()}
+              style={[styles.accountButton, { borderColor: theme.colors.error }]}
+              textColor={theme.colors.error}
+              icon="logout"
+            >
+              Sign Out
+            </Button>
+          ) : (
+            <Button
+              mode="contained"
+              onPress={() => router.push("/login")}
+              style={styles.accountButton}
+              buttonColor={theme.colors.primary}
+              icon="login"
+            >
+              Sign In
+            </Button>
+          )}
+        </View>
+      </Surface>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="titleMedium"
+            style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+          >
+            Time Tracking
+          </Text>
+          <View style={styles.switchRow}>
+            <Text
+              variant="bodyMedium"
+              style={[styles.switchLabel, { color: theme.colors.onSurface }]}
+            >
+              Start the timer when a task moves to In Progress
+            </Text>
+            <Switch
+              value={autoStartTimer}
+              onValueChange={setAutoStartTimer}
+              color={theme.colors.primary}
+            />
+          </View>
+          <Text
+            variant="bodySmall"
+            style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Only one timer runs at a time. Completing or cancelling a task
+            stops its timer.
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={{ color: theme.colors.onSurface }}
+          >
+            Flag completed tasks that go over the estimate by more than
+          </Text>
+          <View style={styles.marginOptions}>
+            {OVERRUN_MARGINS.map((margin) => {
+              const selected = margin === overrunMargin;
+              return (
+                <Chip
+                  key={margin}
+                  selected={selected}
+                  showSelectedCheck={false}
+                  onPress={() => setOverrunMargin(margin)}
+                  style={{
+                    backgroundColor: selected
+                      ? theme.colors.primaryContainer
+                      : theme.colors.surfaceVariant,
+                  }}
+                  textStyle={{
+                    color: selected
+                      ? theme.colors.onPrimaryContainer
+                      : theme.colors.onSurfaceVariant,
+                  }}
+                >
+                  {margin}%
+                </Chip>
+              );
+            })}
+          </View>
+          <Button
+            mode="outlined"
+            onPress={() => router.push("/time-report")}
+            style={[styles.accountButton, { borderColor: theme.colors.primary }]}
+            textColor={theme.colors.primary}
+            icon="chart-bar"
+          >
+            Time Report
+          </Button>
+        </View>
+      </Surface>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="titleMedium"
+            style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+          >
+            Custom Fields
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Your own fields on every task: text, numbers, dates, yes/no or a
+            choice from a list. The export has a column for each field.
+          </Text>
+          <View style={styles.buttonRow}>
+            <Button
+              mode="outlined"
+              onPress={() => router.push("/custom-fields")}
+              style={[styles.button, { borderColor: theme.colors.primary }]}
+              textColor={theme.colors.primary}
+              icon="form-select"
+            >
+              Manage Fields
+            </Button>
+            <Button
+              mode="outlined"
+              onPress={handleExportTasks}
+              loading={exporting}
+              disabled={exporting || tasks.length === 0}
+              style={[styles.button, { borderColor: theme.colors.primary }]}
+              textColor={theme.colors.primary}
+              icon="export-variant"
+            >
+              Export CSV
+            </Button>
+          </View>
+        </View>
+      </Surface>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="titleMedium"
+            style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+          >
+            Archive
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Archived tasks leave the main list, the map and reminders but keep
+            syncing and are included in the export.
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={{ color: theme.colors.onSurface }}
+          >
+            Archive completed and cancelled tasks automatically after
+          </Text>
+          <View style={styles.marginOptions}>
+            {AUTO_ARCHIVE_OPTIONS.map((days) => {
+              const selected = days === autoArchiveDays;
+              return (
+                <Chip
+                  key={days}
+                  selected={selected}
+                  showSelectedCheck={false}
+                  onPress={() => handleAutoArchiveChange(days)}
+                  style={{
+                    backgroundColor: selected
+                      ? theme.colors.primaryContainer
+                      : theme.colors.surfaceVariant,
+                  }}
+                  textStyle={{
+                    color: selected
+                      ? theme.colors.onPrimaryContainer
+                      : theme.colors.onSurfaceVariant,
+                  }}
+                >
+                  {describeAutoArchive(days)}
+                </Chip>
+              );
+            })}
+          </View>
+          <Button
+            mode="outlined"
+            onPress={() => router.push("/archive")}
+            style={[styles.accountButton, { borderColor: theme.colors.primary }]}
+            textColor={theme.colors.primary}
+            icon="archive-outline"
+          >
+            Open Archive
+          </Button>
+        </View>
+      </Surface>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="titleMedium"
+            style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+          >
+            Trash
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Deleted tasks stay in the Trash with their attachments, location
+            and comments until you restore them or delete them forever.
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={{ color: theme.colors.onSurface }}
+          >
+            Delete tasks from the Trash automatically after
+          </Text>
+          <View style={styles.marginOptions}>
+            {TRASH_RETENTION_OPTIONS.map((days) => {
+              const selected = days === trashRetentionDays;
+              return (
+                <Chip
+                  key={days}
+                  selected={selected}
+                  showSelectedCheck={false}
+                  onPress={() => handleRetentionChange(days)}
+                  style={{
+                    backgroundColor: selected
+                      ? theme.colors.primaryContainer
+                      : theme.colors.surfaceVariant,
+                  }}
+                  textStyle={{
+                    color: selected
+                      ? theme.colors.onPrimaryContainer
+                      : theme.colors.onSurfaceVariant,
+                  }}
+                >
+                  {describeRetention(days)}
+                </Chip>
+              );
+            })}
+          </View>
+          <Button
+            mode="outlined"
+            onPress={() => router.push("/trash")}
+            style={[styles.accountButton, { borderColor: theme.colors.primary }]}
+            textColor={theme.colors.primary}
+            icon="delete-outline"
+          >
+            {trashCount > 0 ? `Open Trash (${trashCount})` : "Open Trash"}
+          </Button>
+        </View>
+      </Surface>
+
+      {quarantined.length > 0 && (
+        <Surface
+          style={[styles.card, { backgroundColor: theme.colors.surface }]}
+          elevation={1}
+        >
+          <View style={styles.content}>
+            <Text
+              variant="titleMedium"
+              style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+            >
+              Damaged Data
+            </Text>
+            <Text
+              variant="bodySmall"
+              style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+            >
+              {quarantined.length} stored record
+              {quarantined.length !== 1 ? "s" : ""} couldn't be loaded and{" "}
+              {quarantined.length !== 1 ? "were" : "was"} set aside instead of
+              being deleted. Export them to recover data by hand or to attach
+              to a bug report.
+            </Text>
+            {quarantined
+              .slice(-3)
+              .reverse()
+              .map((record, index) => (
+                <Text
+                  key={index}
+                  variant="bodySmall"
+                  numberOfLines={2}
+                  style={[
+                    styles.quarantineItem,
+                    { color: theme.colors.onSurface },
+                  ]}
+                >
+                  {record.collection}: {record.error}
+                </Text>
+              ))}
+            <View style={styles.buttonRow}>
+              <Button
+                mode="outlined"
+                onPress={handleExportQuarantine}
+                style={[styles.button, { borderColor: theme.colors.primary }]}
+                textColor={theme.colors.primary}
+                icon="export-variant"
+              >
+                Export
+              </Button>
+              <Button
+                mode="outlined"
+                onPress={handleClearQuarantine}
+                style={[styles.button, { borderColor: theme.colors.error }]}
+                textColor={theme.colors.error}
+                icon="delete-outline"
+              >
+                Delete
+              </Button>
+            </View>
+          </View>
+        </Surface>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  card: {
+    margin: 16,
+    borderRadius: 16,
+  },
+  content: {
+    padding: 24,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  hint: {
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  errorText: {
+    color: "#ef4444",
+    fontSize: 12,
+    marginBottom: 8,
+    fontWeight: "500",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 16,
+  },
+  resultText: {
+    flex: 1,
+  },
+  resultBox: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    gap: 2,
+    // backgroundColor will be set dynamically
+  },
+  accountButton: {
+    borderRadius: 12,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginVertical: 8,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  marginOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  resetButton: {
+    marginTop: 12,
+    alignSelf: "flex-start",
+  },
+  quarantineItem: {
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,323 @@
+import React from "react";
+import { View, StyleSheet, FlatList } from "react-native";
+import {
+  Surface,
+  Text,
+  Button,
+  Chip,
+  ActivityIndicator,
+  useTheme,
+} from "react-native-paper";
+import { useRouter } from "expo-router";
+import { useTaskStore } from "../lib/store";
+import { useAuthStore } from "../lib/authStore";
+import { useLiveSyncStore } from "../lib/liveSync";
+import { SyncOperation, SyncOperationType, SyncStatus } from "../lib/types";
+
+const operationLabels: Record<SyncOperationType, string> = {
+  create: "Create",
+  update: "Update",
+  delete: "Delete",
+};
+
+const statusLabels: Record<SyncStatus, string> = {
+  idle: "Idle",
+  syncing: "Syncing...",
+  success: "Synced",
+  error: "Sync failed",
+};
+
+const formatAge = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const diffMs = Date.now() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return "Just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const formatTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return date.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const PendingOperationItem = ({ operation }: { operation: SyncOperation }) => {
+  const theme = useTheme();
+  const { tasks } = useTaskStore();
+  const taskTitle =
+    operation.taskData?.title ??
+    tasks.find((t) => t.id === operation.taskId)?.title ??
+    "Deleted task";
+  const waitingForRetry =
+    operation.nextAttemptAt &&
+    new Date(operation.nextAttemptAt).getTime() > Date.now();
+
+  return (
+    <Surface
+      style={[styles.item, { backgroundColor: theme.colors.surface }]}
+      elevation={1}
+    >
+      <View style={styles.itemContent}>
+        <View style={styles.itemHeader}>
+          <Text
+            variant="titleSmall"
+            style={[styles.itemTitle, { color: theme.colors.onSurface }]}
+            numberOfLines={1}
+          >
+            {taskTitle}
+          </Text>
+          <Chip
+            mode="flat"
+            style={{ backgroundColor: theme.colors.surfaceVariant }}
+            textStyle={{
+              color: theme.colors.onSurfaceVariant,
+              fontSize: 11,
+              fontWeight: "600",
+            }}
+          >
+            {operationLabels[operation.type]}
+          </Chip>
+        </View>
+        <Text
+          variant="bodySmall"
+          style={{ color: theme.colors.onSurfaceVariant }}
+        >
+          Queued {formatAge(operation.timestamp)} • {operation.retries}{" "}
+          {operation.retries === 1 ? "retry" : "retries"}
+          {waitingForRetry
+            ? ` • next attempt at ${formatTime(operation.nextAttemptAt!)}`
+            : ""}
+        </Text>
+        {operation.lastError && (
+          <Text
+            variant="bodySmall"
+            style={[styles.errorText, { color: theme.colors.error }]}
+          >
+            {operation.lastError}
+          </Text>
+        )}
+      </View>
+    </Surface>
+  );
+};
+
+export default function SyncScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { pendingSync, syncStatus, lastSyncedAt, deadLetters, syncTasks } =
+    useTaskStore();
+  const { status: authStatus } = useAuthStore();
+  const liveSyncStatus = useLiveSyncStore((state) => state.status);
+  const isSignedIn = authStatus === "signedIn";
+
+  const handleSyncNow = () => {
+    syncTasks().catch((error) => {
+      console.error("Manual sync failed:", error);
+    });
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <Surface
+        style={[
+          styles.header,
+          {
+            backgroundColor: theme.colors.surface,
+            borderBottomColor: theme.colors.outline,
+          },
+        ]}
+        elevation={2}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.statusRow}>
+            {syncStatus === "syncing" && (
+              <ActivityIndicator size="small" color={theme.colors.primary} />
+            )}
+            <Text
+              variant="titleMedium"
+              style={[
+                styles.statusText,
+                {
+                  color:
+                    syncStatus === "error"
+                      ? theme.colors.error
+                      : theme.colors.onSurface,
+                },
+              ]}
+            >
+              {isSignedIn ? statusLabels[syncStatus] : "Sync paused"}
+            </Text>
+          </View>
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {lastSyncedAt
+              ? `Last synced ${formatAge(lastSyncedAt).toLowerCase()}`
+              : "Never synced"}
+            {isSignedIn && liveSyncStatus === "connected"
+              ? " • live updates on"
+              : ""}
+          </Text>
+          {!isSignedIn && (
+            <Text
+              variant="bodySmall"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              Sign in to send queued changes to the server
+            </Text>
+          )}
+          <View style={styles.headerActions}>
+            {deadLetters.length > 0 && (
+              <Button
+                mode="text"
+                compact
+                onPress={() => router.push("/failed-sync")}
+                textColor={theme.colors.error}
+              >
+                {deadLetters.length} failed
+              </Button>
+            )}
+            {isSignedIn ? (
+              <Button
+                mode="contained"
+                compact
+                onPress={handleSyncNow}
+                disabled={syncStatus === "syncing"}
+                buttonColor={theme.colors.primary}
+                icon="sync"
+                style={styles.syncButton}
+              >
+                Sync Now
+              </Button>
+            ) : (
+              <Button
+                mode="contained"
+                compact
+                onPress={() => router.push("/login")}
+                buttonColor={theme.colors.primary}
+                icon="login"
+                style={styles.syncButton}
+              >
+                Sign In
+              </Button>
+            )}
+          </View>
+        </View>
+      </Surface>
+
+      <Text
+        variant="titleSmall"
+        style={[styles.sectionTitle, { color: theme.colors.onSurfaceVariant }]}
+      >
+        Pending Changes ({pendingSync.length})
+      </Text>
+
+      {pendingSync.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            All changes are on the server
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={pendingSync}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => <PendingOperationItem operation={item} />}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 4,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  statusText: {
+    fontWeight: "700",
+  },
+  headerActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+  },
+  syncButton: {
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    fontWeight: "600",
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  item: {
+    marginBottom: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  itemContent: {
+    padding: 16,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  itemTitle: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  errorText: {
+    marginTop: 4,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
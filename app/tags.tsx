@@ -0,0 +1,313 @@
+import React from "react";
+import { View, StyleSheet, FlatList, Alert, Pressable } from "react-native";
+import {
+  Surface,
+  Text,
+  Button,
+  IconButton,
+  TextInput,
+  Dialog,
+  Portal,
+  useTheme,
+} from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import { getActiveTasks } from "../lib/trash";
+import {
+  TAG_COLORS,
+  TagSummary,
+  collectTags,
+  getTagColor,
+  getTagKey,
+  isSameTag,
+  normalizeTag,
+} from "../lib/tags";
+import TagChip from "../components/TagChip";
+
+type TagAction = { type: "rename" | "color" | "merge"; tag: string };
+
+export default function TagsScreen() {
+  const theme = useTheme();
+  const { tasks, tagColors, renameTag, mergeTags, deleteTag, setTagColor } =
+    useTaskStore();
+  const tags = collectTags(getActiveTasks(tasks));
+  const [action, setAction] = React.useState<TagAction | null>(null);
+  const [newName, setNewName] = React.useState("");
+
+  const closeDialog = () => {
+    setAction(null);
+    setNewName("");
+  };
+
+  const openRename = (tag: string) => {
+    setNewName(tag);
+    setAction({ type: "rename", tag });
+  };
+
+  const normalizedName = normalizeTag(newName);
+  // Renaming to a name that already exists merges the two tags
+  const existingTarget =
+    action?.type === "rename" && normalizedName
+      ? tags.find(
+          (t) =>
+            isSameTag(t.name, normalizedName) && !isSameTag(t.name, action.tag)
+        )
+      : undefined;
+
+  const handleRename = () => {
+    if (!action || !normalizedName) return;
+    if (existingTarget) {
+      mergeTags([action.tag], existingTarget.name);
+    } else {
+      renameTag(action.tag, normalizedName);
+    }
+    closeDialog();
+  };
+
+  const handleMerge = (target: string) => {
+    if (!action) return;
+    mergeTags([action.tag], target);
+    closeDialog();
+  };
+
+  const handleDelete = (tag: TagSummary) => {
+    Alert.alert(
+      "Delete Tag",
+      `Remove "#${tag.name}" from ${tag.count} task${
+        tag.count !== 1 ? "s" : ""
+      }? The tasks themselves are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => deleteTag(tag.name),
+        },
+      ]
+    );
+  };
+
+  const renderTag = ({ item }: { item: TagSummary }) => (
+    <Surface
+      style={[styles.item, { backgroundColor: theme.colors.surface }]}
+      elevation={1}
+    >
+      <View style={styles.itemContent}>
+        <View style={styles.itemInfo}>
+          <TagChip tag={item.name} />
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {item.count} task{item.count !== 1 ? "s" : ""}
+          </Text>
+        </View>
+        <View style={styles.itemActions}>
+          <IconButton
+            icon="pencil"
+            size={20}
+            onPress={() => openRename(item.name)}
+            iconColor={theme.colors.onSurfaceVariant}
+          />
+          <IconButton
+            icon="palette"
+            size={20}
+            onPress={() => setAction({ type: "color", tag: item.name })}
+            iconColor={theme.colors.onSurfaceVariant}
+          />
+          <IconButton
+            icon="call-merge"
+            size={20}
+            onPress={() => setAction({ type: "merge", tag: item.name })}
+            disabled={tags.length < 2}
+            iconColor={theme.colors.onSurfaceVariant}
+          />
+          <IconButton
+            icon="delete"
+            size={20}
+            onPress={() => handleDelete(item)}
+            iconColor={theme.colors.error}
+          />
+        </View>
+      </View>
+    </Surface>
+  );
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      {tags.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            No tags yet. Add tags to tasks when creating or editing them.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={tags}
+          keyExtractor={(item) => getTagKey(item.name)}
+          renderItem={renderTag}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      <Portal>
+        <Dialog visible={action?.type === "rename"} onDismiss={closeDialog}>
+          <Dialog.Title>Rename Tag</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Tag name"
+              value={newName}
+              onChangeText={setNewName}
+              autoCapitalize="none"
+              autoCorrect={false}
+              mode="outlined"
+              outlineColor={theme.colors.outline}
+              activeOutlineColor={theme.colors.primary}
+            />
+            {existingTarget && (
+              <Text
+                variant="bodySmall"
+                style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+              >
+                "#{existingTarget.name}" already exists, the tags will be
+                merged.
+              </Text>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeDialog}>Cancel</Button>
+            <Button onPress={handleRename} disabled={!normalizedName}>
+              {existingTarget ? "Merge" : "Rename"}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={action?.type === "color"} onDismiss={closeDialog}>
+          <Dialog.Title>Tag Color</Dialog.Title>
+          <Dialog.Content>
+            <View style={styles.palette}>
+              {TAG_COLORS.map((color) => {
+                const selected =
+                  !!action && getTagColor(action.tag, tagColors) === color;
+                return (
+                  <Pressable
+                    key={color}
+                    onPress={() => {
+                      if (action) setTagColor(action.tag, color);
+                      closeDialog();
+                    }}
+                    style={[
+                      styles.swatch,
+                      {
+                        backgroundColor: color,
+                        borderColor: selected
+                          ? theme.colors.onSurface
+                          : "transparent",
+                      },
+                    ]}
+                  />
+                );
+              })}
+            </View>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button
+              onPress={() => {
+                if (action) setTagColor(action.tag, null);
+                closeDialog();
+              }}
+            >
+              Reset
+            </Button>
+            <Button onPress={closeDialog}>Close</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={action?.type === "merge"} onDismiss={closeDialog}>
+          <Dialog.Title>Merge "#{action?.tag}" Into</Dialog.Title>
+          <Dialog.Content>
+            <View style={styles.mergeTargets}>
+              {tags
+                .filter((t) => !!action && !isSameTag(t.name, action.tag))
+                .map((t) => (
+                  <TagChip
+                    key={t.name}
+                    tag={t.name}
+                    count={t.count}
+                    onPress={() => handleMerge(t.name)}
+                  />
+                ))}
+            </View>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeDialog}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  item: {
+    marginBottom: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  itemContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingLeft: 16,
+    paddingVertical: 8,
+  },
+  itemInfo: {
+    flex: 1,
+    alignItems: "flex-start",
+    gap: 4,
+  },
+  itemActions: {
+    flexDirection: "row",
+  },
+  hint: {
+    marginTop: 8,
+  },
+  palette: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  swatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 3,
+    // backgroundColor and borderColor will be set dynamically
+  },
+  mergeTargets: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
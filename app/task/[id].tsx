@@ -27,8 +27,36 @@ import {
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { useTaskStore } from "../../lib/store";
 import { useThemeStore } from "../../lib/themeStore";
+import { useSettingsStore } from "../../lib/settingsStore";
 import { lightStatusColors, darkStatusColors } from "../../lib/theme";
 import { TaskStatus } from "../../lib/types";
+import { getTaskPriority } from "../../lib/priority";
+import { statusLabels } from "../../lib/status";
+import PriorityChip from "../../components/PriorityChip";
+import TagChip from "../../components/TagChip";
+import ChecklistEditor from "../../components/ChecklistEditor";
+import TimeTracker from "../../components/TimeTracker";
+import TaskActivity from "../../components/TaskActivity";
+import ProjectChip from "../../components/ProjectChip";
+import {
+  getBlockerTasks,
+  getDependentTasks,
+  getOpenBlockers,
+} from "../../lib/dependencies";
+import {
+  INBOX_ICON,
+  INBOX_NAME,
+  getActiveProjects,
+  getTaskProject,
+} from "../../lib/projects";
+import { describeRecurrence } from "../../lib/recurrence";
+import { getPurgeDate, isTrashed } from "../../lib/trash";
+import { isArchived } from "../../lib/archive";
+import {
+  formatCustomFieldValue,
+  getActiveFieldDefinitions,
+  getCustomFieldValue,
+} from "../../lib/customFields";
 import * as Sharing from "expo-sharing";
 import * as FileSystem from "expo-file-system/legacy";
 import * as IntentLauncher from "expo-intent-launcher";
@@ -43,14 +71,7 @@ const StatusChip = ({ status }: { status: TaskStatus }) => {
     backgroundColor: themeMode === "dark" ? "#374151" : "#f3f4f6",
   };
 
-  const labels: Record<TaskStatus, string> = {
-    todo: "To Do",
-    in_progress: "In Progress",
-    completed: "Completed",
-    cancelled: "Cancelled",
-  };
-
-  const label = labels[status] || status;
+  const label = statusLabels[status] || status;
 
   return (
     <Chip
@@ -74,15 +95,31 @@ export default function TaskDetailsScreen() {
   const router = useRouter();
   const theme = useTheme();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { tasks, deleteTask, setStatus } = useTaskStore();
+  const {
+    tasks,
+    conflicts,
+    projects,
+    customFieldDefinitions,
+    deleteTask,
+    restoreTask,
+    deleteTaskPermanently,
+    archiveTask,
+    unarchiveTask,
+    setStatus,
+    moveTaskToProject,
+  } = useTaskStore();
+  const { trashRetentionDays } = useSettingsStore();
   const [menuVisible, setMenuVisible] = React.useState(false);
   const [menuKey, setMenuKey] = React.useState(0);
+  const [projectMenuVisible, setProjectMenuVisible] = React.useState(false);
+  const [projectMenuKey, setProjectMenuKey] = React.useState(0);
   const [imageModalVisible, setImageModalVisible] = React.useState(false);
   const [selectedImageUri, setSelectedImageUri] = React.useState<string | null>(
     null
   );
 
   const task = tasks.find((t) => t.id === id);
+  const hasConflict = conflicts.some((c) => c.taskId === id);
 
   if (!task) {
     return (
@@ -110,26 +147,88 @@ export default function TaskDetailsScreen() {
   };
 
   const handleDelete = () => {
-    Alert.alert("Delete Task", "This action cannot be undone.", [
-      { text: "Cancel", style: "cancel" },
-      {
-        text: "Delete",
-        style: "destructive",
-        onPress: () => {
-          deleteTask(task.id);
-          router.back();
+    Alert.alert(
+      "Delete Task",
+      "The task moves to the Trash, where you can restore it.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            deleteTask(task.id);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteForever = () => {
+    Alert.alert(
+      "Delete Forever",
+      `"${task.title}" and its comments will be deleted on all your devices. This can't be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete Forever",
+          style: "destructive",
+          onPress: () => {
+            deleteTaskPermanently(task.id);
+            router.back();
+          },
         },
-      },
-    ]);
+      ]
+    );
   };
 
+  const trashed = isTrashed(task);
+  const archived = isArchived(task);
+  const purgeDate = getPurgeDate(task, trashRetentionDays);
+
+  const isFinished = task.status === "completed" || task.status === "cancelled";
+  const openBlockers = isFinished ? [] : getOpenBlockers(task, tasks);
+  const blockerTasks = getBlockerTasks(task, tasks);
+  const dependentTasks = getDependentTasks(task.id, tasks);
+  const filledFields = getActiveFieldDefinitions(customFieldDefinitions).filter(
+    (definition) => getCustomFieldValue(task, definition.id) !== undefined
+  );
+
   const handleStatusChange = (newStatus: TaskStatus) => {
-    setStatus(task.id, newStatus);
+    // The store starts or completes a blocked task only when asked to explicitly
+    if (
+      (newStatus === "in_progress" || newStatus === "completed") &&
+      openBlockers.length > 0
+    ) {
+      const verb = newStatus === "in_progress" ? "Start" : "Complete";
+      Alert.alert(
+        "Task Is Blocked",
+        `Still waiting for ${openBlockers
+          .map((b) => `"${b.title}"`)
+          .join(", ")}. ${verb} it anyway?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: `${verb} Anyway`,
+            onPress: () => setStatus(task.id, newStatus, true),
+          },
+        ]
+      );
+    } else {
+      setStatus(task.id, newStatus);
+    }
     setMenuVisible(false);
     // Force menu re-render
     setMenuKey((prev) => prev + 1);
   };
 
+  const handleMoveToProject = (projectId: string | undefined) => {
+    moveTaskToProject(task.id, projectId);
+    setProjectMenuVisible(false);
+    // Force menu re-render
+    setProjectMenuKey((prev) => prev + 1);
+  };
+
   const handleOpenFile = async (attachment: {
     uri: string;
     name: string;
@@ -235,6 +334,130 @@ export default function TaskDetailsScreen() {
             <StatusChip status={task.status} />
           </View>
 
+          {hasConflict && (
+            <Surface
+              style={[
+                styles.conflictBanner,
+                { backgroundColor: theme.colors.errorContainer },
+              ]}
+              elevation={0}
+            >
+              <Text
+                variant="bodyMedium"
+                style={[
+                  styles.conflictText,
+                  { color: theme.colors.onErrorContainer },
+                ]}
+              >
+                This task was also changed on another device.
+              </Text>
+              <Button
+                mode="text"
+                compact
+                onPress={() => router.push(`/conflict/${task.id}`)}
+                textColor={theme.colors.onErrorContainer}
+                icon="source-merge"
+              >
+                Resolve
+              </Button>
+            </Surface>
+          )}
+
+          {archived && !trashed && (
+            <Surface
+              style={[
+                styles.conflictBanner,
+                { backgroundColor: theme.colors.surfaceVariant },
+              ]}
+              elevation={0}
+            >
+              <Text
+                variant="bodyMedium"
+                style={[
+                  styles.conflictText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                Archived on{" "}
+                {new Date(task.archivedAt!).toLocaleDateString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                })}
+              </Text>
+              <Button
+                mode="text"
+                compact
+                onPress={() => unarchiveTask(task.id)}
+                textColor={theme.colors.primary}
+                icon="archive-arrow-up"
+              >
+                Unarchive
+              </Button>
+            </Surface>
+          )}
+
+          {trashed && (
+            <Surface
+              style={[
+                styles.conflictBanner,
+                { backgroundColor: theme.colors.surfaceVariant },
+              ]}
+              elevation={0}
+            >
+              <Text
+                variant="bodyMedium"
+                style={[
+                  styles.conflictText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                In the Trash
+                {purgeDate
+                  ? `, deleted forever on ${purgeDate.toLocaleDateString(
+                      "en-US",
+                      { month: "short", day: "numeric" }
+                    )}`
+                  : ""}
+              </Text>
+              <Button
+                mode="text"
+                compact
+                onPress={() => restoreTask(task.id)}
+                textColor={theme.colors.primary}
+                icon="delete-restore"
+              >
+                Restore
+              </Button>
+            </Surface>
+          )}
+
+          {openBlockers.length > 0 && (
+            <Surface
+              style={[
+                styles.blockedBanner,
+                { backgroundColor: theme.colors.surfaceVariant },
+              ]}
+              elevation={0}
+            >
+              <IconButton
+                icon="lock"
+                size={18}
+                iconColor={theme.colors.onSurfaceVariant}
+                style={styles.blockedIcon}
+              />
+              <Text
+                variant="bodyMedium"
+                style={[
+                  styles.conflictText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                Blocked: waiting for {openBlockers.length} task
+                {openBlockers.length !== 1 ? "s" : ""} to finish.
+              </Text>
+            </Surface>
+          )}
+
           {task.description && (
             <View style={styles.section}>
               <Text
@@ -274,6 +497,190 @@ export default function TaskDetailsScreen() {
 
           <Divider style={{ backgroundColor: theme.colors.outline }} />
 
+          {task.recurrence && (
+            <>
+              <View style={styles.section}>
+                <Text
+                  variant="titleMedium"
+                  style={[
+                    styles.sectionTitle,
+                    { color: theme.colors.onSurface },
+                  ]}
+                >
+                  Repeat
+                </Text>
+                <Text
+                  variant="bodyLarge"
+                  style={[styles.info, { color: theme.colors.onSurface }]}
+                >
+                  {describeRecurrence(task.recurrence, new Date(task.datetime))}
+                </Text>
+                <Text
+                  variant="bodySmall"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  Occurrence {task.occurrence ?? 1}
+                  {task.recurrence.count !== undefined
+                    ? ` of ${task.recurrence.count}`
+                    : ""}
+                </Text>
+              </View>
+
+              <Divider style={{ backgroundColor: theme.colors.outline }} />
+            </>
+          )}
+
+          <View style={styles.section}>
+            <Text
+              variant="titleMedium"
+              style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+            >
+              Priority
+            </Text>
+            <View style={styles.priorityRow}>
+              <PriorityChip priority={getTaskPriority(task)} />
+            </View>
+          </View>
+
+          <Divider style={{ backgroundColor: theme.colors.outline }} />
+
+          <View style={styles.section}>
+            <Text
+              variant="titleMedium"
+              style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+            >
+              Project
+            </Text>
+            <View style={styles.priorityRow}>
+              <Menu
+                key={projectMenuKey}
+                visible={projectMenuVisible}
+                onDismiss={() => setProjectMenuVisible(false)}
+                anchor={
+                  <ProjectChip
+                    project={getTaskProject(task, projects)}
+                    onPress={() => setProjectMenuVisible(true)}
+                  />
+                }
+              >
+                <Menu.Item
+                  leadingIcon={INBOX_ICON}
+                  onPress={() => handleMoveToProject(undefined)}
+                  title={INBOX_NAME}
+                />
+                {getActiveProjects(projects).map((project) => (
+                  <Menu.Item
+                    key={project.id}
+                    leadingIcon={project.icon}
+                    onPress={() => handleMoveToProject(project.id)}
+                    title={project.name}
+                  />
+                ))}
+              </Menu>
+            </View>
+          </View>
+
+          <Divider style={{ backgroundColor: theme.colors.outline }} />
+
+          {(blockerTasks.length > 0 || dependentTasks.length > 0) && (
+            <>
+              <View style={styles.section}>
+                <Text
+                  variant="titleMedium"
+                  style={[
+                    styles.sectionTitle,
+                    { color: theme.colors.onSurface },
+                  ]}
+                >
+                  Dependencies
+                </Text>
+                {blockerTasks.map((blocker) => (
+                  <List.Item
+                    key={blocker.id}
+                    title={blocker.title}
+                    description="Blocked by"
+                    onPress={() => router.push(`/task/${blocker.id}`)}
+                    left={(props) => (
+                      <List.Icon
+                        {...props}
+                        icon={
+                          openBlockers.some((b) => b.id === blocker.id)
+                            ? "lock"
+                            : "lock-open-check"
+                        }
+                        color={theme.colors.primary}
+                      />
+                    )}
+                  />
+                ))}
+                {dependentTasks.map((dependent) => (
+                  <List.Item
+                    key={dependent.id}
+                    title={dependent.title}
+                    description="Waiting for this task"
+                    onPress={() => router.push(`/task/${dependent.id}`)}
+                    left={(props) => (
+                      <List.Icon
+                        {...props}
+                        icon="arrow-right-bottom"
+                        color={theme.colors.onSurfaceVariant}
+                      />
+                    )}
+                  />
+                ))}
+              </View>
+
+              <Divider style={{ backgroundColor: theme.colors.outline }} />
+            </>
+          )}
+
+          {task.tags && task.tags.length > 0 && (
+            <>
+              <View style={styles.section}>
+                <Text
+                  variant="titleMedium"
+                  style={[
+                    styles.sectionTitle,
+                    { color: theme.colors.onSurface },
+                  ]}
+                >
+                  Tags
+                </Text>
+                <View style={styles.tagsRow}>
+                  {task.tags.map((tag) => (
+                    <TagChip key={tag} tag={tag} />
+                  ))}
+                </View>
+              </View>
+
+              <Divider style={{ backgroundColor: theme.colors.outline }} />
+            </>
+          )}
+
+          <View style={styles.section}>
+            <Text
+              variant="titleMedium"
+              style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+            >
+              Checklist
+            </Text>
+            <ChecklistEditor task={task} />
+          </View>
+
+          <Divider style={{ backgroundColor: theme.colors.outline }} />
+
+          <View style={styles.section}>
+            <Text
+              variant="titleMedium"
+              style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+            >
+              Time Tracking
+            </Text>
+            <TimeTracker task={task} />
+          </View>
+
+          <Divider style={{ backgroundColor: theme.colors.outline }} />
+
           <View style={styles.section}>
             <Text
               variant="titleMedium"
@@ -291,6 +698,49 @@ export default function TaskDetailsScreen() {
 
           <Divider style={{ backgroundColor: theme.colors.outline }} />
 
+          {filledFields.length > 0 && (
+            <>
+              <View style={styles.section}>
+                <Text
+                  variant="titleMedium"
+                  style={[
+                    styles.sectionTitle,
+                    { color: theme.colors.onSurface },
+                  ]}
+                >
+                  Custom Fields
+                </Text>
+                {filledFields.map((definition) => (
+                  <View key={definition.id} style={styles.customFieldRow}>
+                    <Text
+                      variant="bodyMedium"
+                      style={[
+                        styles.customFieldName,
+                        { color: theme.colors.onSurfaceVariant },
+                      ]}
+                    >
+                      {definition.name}
+                    </Text>
+                    <Text
+                      variant="bodyLarge"
+                      style={[
+                        styles.customFieldValue,
+                        { color: theme.colors.onSurface },
+                      ]}
+                    >
+                      {formatCustomFieldValue(
+                        getCustomFieldValue(task, definition.id),
+                        definition
+                      )}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              <Divider style={{ backgroundColor: theme.colors.outline }} />
+            </>
+          )}
+
           <View style={styles.section}>
             <Text
               variant="titleMedium"
@@ -355,71 +805,132 @@ export default function TaskDetailsScreen() {
             </>
           )}
 
-          <View style={styles.actions}>
-            <Menu
-              key={menuKey}
-              visible={menuVisible}
-              onDismiss={() => setMenuVisible(false)}
-              anchor={
-                <Button
-                  mode="outlined"
-                  onPress={() => setMenuVisible(true)}
-                  style={[
-                    styles.actionButton,
-                    { borderColor: theme.colors.primary },
-                  ]}
-                  icon="update"
-                  textColor={theme.colors.primary}
-                >
-                  Change Status
-                </Button>
-              }
-            >
-              <Menu.Item
-                onPress={() => handleStatusChange("todo")}
-                title="Set To Do"
-              />
-              <Menu.Item
-                onPress={() => handleStatusChange("in_progress")}
-                title="Set In Progress"
-              />
-              <Menu.Item
-                onPress={() => handleStatusChange("completed")}
-                title="Mark Completed"
-              />
-              <Menu.Item
-                onPress={() => handleStatusChange("cancelled")}
-                title="Mark Cancelled"
-              />
-            </Menu>
+          {trashed ? (
+            <View style={styles.actions}>
+              <Button
+                mode="outlined"
+                onPress={() => restoreTask(task.id)}
+                style={[
+                  styles.actionButton,
+                  { borderColor: theme.colors.primary },
+                ]}
+                icon="delete-restore"
+                textColor={theme.colors.primary}
+              >
+                Restore Task
+              </Button>
 
-            <Button
-              mode="outlined"
-              onPress={() => router.push(`/edit/${task.id}`)}
-              style={[
-                styles.actionButton,
-                { borderColor: theme.colors.primary },
-              ]}
-              icon="pencil"
-              textColor={theme.colors.primary}
-            >
-              Edit Task
-            </Button>
+              <Button
+                mode="outlined"
+                onPress={handleDeleteForever}
+                style={[
+                  styles.actionButton,
+                  styles.deleteButton,
+                  { borderColor: theme.colors.error },
+                ]}
+                icon="delete-forever"
+                textColor={theme.colors.error}
+              >
+                Delete Forever
+              </Button>
+            </View>
+          ) : (
+            <View style={styles.actions}>
+              <Menu
+                key={menuKey}
+                visible={menuVisible}
+                onDismiss={() => setMenuVisible(false)}
+                anchor={
+                  <Button
+                    mode="outlined"
+                    onPress={() => setMenuVisible(true)}
+                    style={[
+                      styles.actionButton,
+                      { borderColor: theme.colors.primary },
+                    ]}
+                    icon="update"
+                    textColor={theme.colors.primary}
+                  >
+                    Change Status
+                  </Button>
+                }
+              >
+                <Menu.Item
+                  onPress={() => handleStatusChange("todo")}
+                  title="Set To Do"
+                />
+                <Menu.Item
+                  onPress={() => handleStatusChange("in_progress")}
+                  title="Set In Progress"
+                />
+                <Menu.Item
+                  onPress={() => handleStatusChange("completed")}
+                  title="Mark Completed"
+                />
+                <Menu.Item
+                  onPress={() => handleStatusChange("cancelled")}
+                  title="Mark Cancelled"
+                />
+              </Menu>
 
-            <Button
-              mode="outlined"
-              onPress={handleDelete}
-              style={[
-                styles.actionButton,
-                styles.deleteButton,
-                { borderColor: theme.colors.error },
-              ]}
-              icon="delete"
-              textColor={theme.colors.error}
-            >
-              Delete Task
-            </Button>
-          </View>
+              <Button
+                mode="outlined"
+                onPress={() => router.push(`/edit/${task.id}`)}
+                style={[
+                  styles.actionButton,
+                  { borderColor: theme.colors.primary },
+                ]}
+                icon="pencil"
+                textColor={theme.colors.primary}
+              >
+                Edit Task
+              </Button>
+
+              <Button
+                mode="outlined"
+                onPress={() =>
+                  archived ? unarchiveTask(task.id) : archiveTask(task.id)
+                }
+                style={[
+                  styles.actionButton,
+                  { borderColor: theme.colors.primary },
+                ]}
+                icon={archived ? "archive-arrow-up" : "archive-arrow-down"}
+                textColor={theme.colors.primary}
+              >
+                {archived ? "Unarchive Task" : "Archive Task"}
+              </Button>
+
+              <Button
+                mode="outlined"
+                onPress={handleDelete}
+                style={[
+                  styles.actionButton,
+                  styles.deleteButton,
+                  { borderColor: theme.colors.error },
+                ]}
+                icon="delete"
+                textColor={theme.colors.error}
+              >
+                Delete Task
+              </Button>
+            </View>
+          )}
+        </View>
+      </Surface>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.content}>
+          <Text
+            variant="titleMedium"
+            style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+          >
+            Activity
+          </Text>
+          <TaskActivity taskId={task.id} />
         </View>
       </Surface>
 
@@ -484,6 +995,32 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 20,
   },
+  conflictBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderRadius: 12,
+    paddingLeft: 12,
+    paddingVertical: 4,
+    marginBottom: 20,
+    // backgroundColor will be set dynamically
+  },
+  conflictText: {
+    flex: 1,
+    fontWeight: "500",
+  },
+  blockedBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingRight: 12,
+    marginBottom: 20,
+    // backgroundColor will be set dynamically
+  },
+  blockedIcon: {
+    margin: 0,
+  },
   sectionTitle: {
     fontWeight: "600",
     marginBottom: 8,
@@ -495,6 +1032,29 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     lineHeight: 24,
   },
+  priorityRow: {
+    flexDirection: "row",
+  },
+  customFieldRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 12,
+    paddingVertical: 4,
+  },
+  customFieldName: {
+    width: 120,
+    // color will be set dynamically
+  },
+  customFieldValue: {
+    flex: 1,
+    fontWeight: "500",
+    // color will be set dynamically
+  },
+  tagsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
   divider: {
     marginVertical: 16,
   },
@@ -0,0 +1,290 @@
+import React from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Surface,
+  Text,
+  Button,
+  Chip,
+  Divider,
+  useTheme,
+} from "react-native-paper";
+import { useRouter } from "expo-router";
+import { useTaskStore } from "../lib/store";
+import { getActiveTasks } from "../lib/trash";
+import { shareCsv } from "../lib/export";
+import {
+  buildTimeReport,
+  formatDuration,
+  getDateKey,
+  timeReportToCsv,
+} from "../lib/timeTracking";
+
+type ReportRange = "week" | "month" | "last30" | "all";
+
+const rangeOptions: { key: ReportRange; label: string }[] = [
+  { key: "week", label: "This Week" },
+  { key: "month", label: "This Month" },
+  { key: "last30", label: "Last 30 Days" },
+  { key: "all", label: "All Time" },
+];
+
+// Start of the range in local time, weeks start on Monday
+const getRangeStart = (range: ReportRange, now: Date) => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (range) {
+    case "week":
+      today.setDate(today.getDate() - ((today.getDay() + 6) % 7));
+      return today;
+    case "month":
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    case "last30":
+      today.setDate(today.getDate() - 29);
+      return today;
+    case "all":
+      return new Date(0);
+  }
+};
+
+const formatDay = (dateKey: string) => {
+  const [year = 0, month = 1, day = 1] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export default function TimeReportScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { tasks, projects } = useTaskStore();
+  const [range, setRange] = React.useState<ReportRange>("week");
+  const [exporting, setExporting] = React.useState(false);
+
+  const now = new Date();
+  const report = buildTimeReport(
+    getActiveTasks(tasks),
+    projects,
+    getRangeStart(range, now),
+    now,
+    now
+  );
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await shareCsv(
+        `time-report-${range}-${getDateKey(now)}.csv`,
+        timeReportToCsv(report),
+        "Export Time Report"
+      );
+    } catch (error) {
+      console.error("Error exporting time report:", error);
+      Alert.alert(
+        "Error",
+        `Could not export the report: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      <View style={styles.ranges}>
+        {rangeOptions.map((option) => {
+          const selected = option.key === range;
+          return (
+            <Chip
+              key={option.key}
+              selected={selected}
+              showSelectedCheck={false}
+              onPress={() => setRange(option.key)}
+              style={{
+                backgroundColor: selected
+                  ? theme.colors.primaryContainer
+                  : theme.colors.surfaceVariant,
+              }}
+              textStyle={{
+                color: selected
+                  ? theme.colors.onPrimaryContainer
+                  : theme.colors.onSurfaceVariant,
+              }}
+            >
+              {option.label}
+            </Chip>
+          );
+        })}
+      </View>
+
+      <Surface
+        style={[styles.card, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.summary}>
+          <View>
+            <Text
+              variant="headlineSmall"
+              style={[styles.total, { color: theme.colors.onSurface }]}
+            >
+              {formatDuration(report.total)}
+            </Text>
+            <Text
+              variant="bodySmall"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              Tracked on {report.days.length} day
+              {report.days.length !== 1 ? "s" : ""}
+            </Text>
+          </View>
+          <Button
+            mode="outlined"
+            icon="export-variant"
+            onPress={handleExport}
+            loading={exporting}
+            disabled={exporting || report.days.length === 0}
+            style={{ borderColor: theme.colors.primary }}
+            textColor={theme.colors.primary}
+          >
+            Export CSV
+          </Button>
+        </View>
+        <Divider style={{ backgroundColor: theme.colors.outline }} />
+        <Button
+          mode="text"
+          icon="scale-balance"
+          onPress={() => router.push("/estimates")}
+          style={styles.estimatesButton}
+          textColor={theme.colors.primary}
+        >
+          Estimates vs Actual
+        </Button>
+      </Surface>
+
+      {report.days.length === 0 ? (
+        <Text
+          variant="bodyLarge"
+          style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          No time tracked in this period. Start a timer on a task to see it
+          here.
+        </Text>
+      ) : (
+        report.days.map((day) => (
+          <Surface
+            key={day.date}
+            style={[styles.card, { backgroundColor: theme.colors.surface }]}
+            elevation={1}
+          >
+            <View style={styles.dayHeader}>
+              <Text
+                variant="titleMedium"
+                style={[styles.dayTitle, { color: theme.colors.onSurface }]}
+              >
+                {formatDay(day.date)}
+              </Text>
+              <Text
+                variant="titleMedium"
+                style={[styles.dayTitle, { color: theme.colors.onSurface }]}
+              >
+                {formatDuration(day.total)}
+              </Text>
+            </View>
+            <Divider style={{ backgroundColor: theme.colors.outline }} />
+            {day.projects.map((project) => (
+              <View key={project.projectId ?? "inbox"} style={styles.row}>
+                <View
+                  style={[styles.dot, { backgroundColor: project.color }]}
+                />
+                <Text
+                  variant="bodyMedium"
+                  style={[styles.rowName, { color: theme.colors.onSurface }]}
+                  numberOfLines={1}
+                >
+                  {project.name}
+                </Text>
+                <Text
+                  variant="bodyMedium"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  {formatDuration(project.duration)}
+                </Text>
+              </View>
+            ))}
+          </Surface>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  ranges: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  summary: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+  },
+  estimatesButton: {
+    alignSelf: "flex-start",
+    margin: 8,
+  },
+  total: {
+    fontWeight: "700",
+    // color will be set dynamically
+  },
+  dayHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    padding: 16,
+  },
+  dayTitle: {
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    // backgroundColor will be set dynamically
+  },
+  rowName: {
+    flex: 1,
+    // color will be set dynamically
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,271 @@
+import React from "react";
+import { View, StyleSheet, FlatList, Alert, Pressable } from "react-native";
+import {
+  Surface,
+  Text,
+  Button,
+  Icon,
+  IconButton,
+  useTheme,
+} from "react-native-paper";
+import { useRouter } from "expo-router";
+import { useTaskStore } from "../lib/store";
+import { useSettingsStore } from "../lib/settingsStore";
+import { getProjectName } from "../lib/projects";
+import {
+  describeRetention,
+  getPurgeDate,
+  getTrashedTasks,
+} from "../lib/trash";
+import { Task } from "../lib/types";
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+export default function TrashScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const {
+    tasks,
+    projects,
+    restoreTask,
+    deleteTaskPermanently,
+    emptyTrash,
+    purgeTrash,
+  } = useTaskStore();
+  const { trashRetentionDays } = useSettingsStore();
+  const trashed = getTrashedTasks(tasks);
+
+  // Nothing past the retention period is shown, even if the app wasn't restarted for days
+  React.useEffect(() => {
+    purgeTrash();
+  }, [purgeTrash]);
+
+  const handleDeleteForever = (task: Task) => {
+    Alert.alert(
+      "Delete Forever",
+      `"${task.title}" and its comments will be deleted on all your devices. This can't be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete Forever",
+          style: "destructive",
+          onPress: () => deleteTaskPermanently(task.id),
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      "Empty Trash",
+      `Delete all ${trashed.length} task${
+        trashed.length !== 1 ? "s" : ""
+      } in the Trash forever? This can't be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: () => emptyTrash(),
+        },
+      ]
+    );
+  };
+
+  const renderTask = ({ item }: { item: Task }) => {
+    const purgeDate = getPurgeDate(item, trashRetentionDays);
+    const attachmentCount = item.attachments?.length ?? 0;
+    return (
+      <Surface
+        style={[styles.item, { backgroundColor: theme.colors.surface }]}
+        elevation={1}
+      >
+        <View style={styles.itemContent}>
+          <Pressable
+            style={styles.itemInfo}
+            onPress={() => router.push(`/task/${item.id}`)}
+          >
+            <Text
+              variant="titleMedium"
+              style={{ color: theme.colors.onSurface }}
+              numberOfLines={1}
+            >
+              {item.title}
+            </Text>
+            <Text
+              variant="bodySmall"
+              style={{ color: theme.colors.onSurfaceVariant }}
+              numberOfLines={1}
+            >
+              {getProjectName(item, projects)}
+              {item.location ? ` · ${item.location}` : ""}
+            </Text>
+            <View style={styles.meta}>
+              <Text
+                variant="bodySmall"
+                style={{ color: theme.colors.onSurfaceVariant }}
+              >
+                Deleted {formatDate(new Date(item.deletedAt!))}
+                {purgeDate ? `, gone on ${formatDate(purgeDate)}` : ""}
+              </Text>
+              {attachmentCount > 0 && (
+                <View style={styles.attachments}>
+                  <Icon
+                    source="paperclip"
+                    size={14}
+                    color={theme.colors.onSurfaceVariant}
+                  />
+                  <Text
+                    variant="bodySmall"
+                    style={{ color: theme.colors.onSurfaceVariant }}
+                  >
+                    {attachmentCount}
+                  </Text>
+                </View>
+              )}
+            </View>
+          </Pressable>
+          <View style={styles.itemActions}>
+            <IconButton
+              icon="delete-restore"
+              size={20}
+              onPress={() => restoreTask(item.id)}
+              iconColor={theme.colors.primary}
+              accessibilityLabel="Restore"
+            />
+            <IconButton
+              icon="delete-forever"
+              size={20}
+              onPress={() => handleDeleteForever(item)}
+              iconColor={theme.colors.error}
+              accessibilityLabel="Delete forever"
+            />
+          </View>
+        </View>
+      </Surface>
+    );
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <Surface
+        style={[
+          styles.header,
+          {
+            backgroundColor: theme.colors.surface,
+            borderBottomColor: theme.colors.outline,
+          },
+        ]}
+        elevation={2}
+      >
+        <View style={styles.headerContent}>
+          <Text
+            variant="bodyMedium"
+            style={[styles.headerText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {trashRetentionDays > 0
+              ? `Tasks are deleted forever after ${describeRetention(
+                  trashRetentionDays
+                )} in the Trash`
+              : "Tasks stay in the Trash until you delete them"}
+          </Text>
+          <Button
+            mode="text"
+            onPress={handleEmptyTrash}
+            disabled={trashed.length === 0}
+            textColor={theme.colors.error}
+            icon="delete-sweep"
+            compact
+          >
+            Empty
+          </Button>
+        </View>
+      </Surface>
+
+      {trashed.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text
+            variant="bodyLarge"
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            The Trash is empty. Deleted tasks show up here and can be restored
+            with their attachments and location.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={trashed}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTask}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  item: {
+    marginBottom: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  itemContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingLeft: 16,
+    paddingVertical: 8,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  meta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  attachments: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  itemActions: {
+    flexDirection: "row",
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,135 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Chip, List, Text, TextInput, useTheme } from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import { isTrashed } from "../lib/trash";
+import { wouldCreateCycle } from "../lib/dependencies";
+
+type BlockerPickerProps = {
+  taskId: string;
+  value: string[];
+  onChange: (blockedBy: string[]) => void;
+};
+
+const MAX_SUGGESTIONS = 6;
+
+export default function BlockerPicker({
+  taskId,
+  value,
+  onChange,
+}: BlockerPickerProps) {
+  const theme = useTheme();
+  const { tasks } = useTaskStore();
+  const [query, setQuery] = React.useState("");
+
+  // Cycles are checked against the blockers picked in the form, not the saved ones
+  const draftTasks = tasks.map((t) =>
+    t.id === taskId ? { ...t, blockedBy: value } : t
+  );
+  const needle = query.trim().toLowerCase();
+  const candidates = needle
+    ? tasks
+        .filter(
+          (t) =>
+            t.id !== taskId &&
+            !isTrashed(t) &&
+            !value.includes(t.id) &&
+            t.title.toLowerCase().includes(needle)
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const add = (blockerId: string) => {
+    onChange([...value, blockerId]);
+    setQuery("");
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="bodyMedium"
+        style={[styles.label, { color: theme.colors.onSurface }]}
+      >
+        Blocked By
+      </Text>
+      {value.length > 0 && (
+        <View style={styles.selected}>
+          {value.map((blockerId) => {
+            const blocker = tasks.find((t) => t.id === blockerId);
+            return (
+              <Chip
+                key={blockerId}
+                icon={blocker?.status === "completed" ? "check" : "lock"}
+                onClose={() => onChange(value.filter((id) => id !== blockerId))}
+                style={{ backgroundColor: theme.colors.surfaceVariant }}
+                textStyle={{ color: theme.colors.onSurfaceVariant }}
+              >
+                {blocker?.title ?? "Deleted task"}
+              </Chip>
+            );
+          })}
+        </View>
+      )}
+      <TextInput
+        placeholder="Search tasks that must finish first"
+        value={query}
+        onChangeText={setQuery}
+        mode="outlined"
+        dense
+        left={<TextInput.Icon icon="magnify" />}
+        outlineColor={theme.colors.outline}
+        activeOutlineColor={theme.colors.primary}
+      />
+      {candidates.map((candidate) => {
+        const cycle = wouldCreateCycle(taskId, candidate.id, draftTasks);
+        return (
+          <List.Item
+            key={candidate.id}
+            title={candidate.title}
+            description={
+              cycle ? "Would create a cycle: it waits for this task" : undefined
+            }
+            disabled={cycle}
+            onPress={() => add(candidate.id)}
+            titleStyle={{
+              color: cycle
+                ? theme.colors.onSurfaceDisabled
+                : theme.colors.onSurface,
+            }}
+            descriptionStyle={{ color: theme.colors.error }}
+            left={(props) => (
+              <List.Icon {...props} icon={cycle ? "link-off" : "link-plus"} />
+            )}
+          />
+        );
+      })}
+      {needle && candidates.length === 0 && (
+        <Text
+          variant="bodySmall"
+          style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+        >
+          No matching tasks
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  selected: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  hint: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,227 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import {
+  Checkbox,
+  IconButton,
+  ProgressBar,
+  Switch,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import {
+  MAX_CHECKLIST_ITEM_LENGTH,
+  getChecklistProgress,
+} from "../lib/checklist";
+import { Task } from "../lib/types";
+
+type ChecklistEditorProps = {
+  task: Task;
+};
+
+export default function ChecklistEditor({ task }: ChecklistEditorProps) {
+  const theme = useTheme();
+  const {
+    addChecklistItem,
+    renameChecklistItem,
+    toggleChecklistItem,
+    removeChecklistItem,
+    moveChecklistItem,
+    setChecklistAutoComplete,
+  } = useTaskStore();
+  const [newItem, setNewItem] = React.useState("");
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = React.useState("");
+  const items = task.checklist ?? [];
+  const progress = getChecklistProgress(task);
+
+  const handleAdd = () => {
+    if (!newItem.trim()) return;
+    addChecklistItem(task.id, newItem);
+    setNewItem("");
+  };
+
+  const startEditing = (itemId: string, title: string) => {
+    setEditingId(itemId);
+    setEditingTitle(title);
+  };
+
+  const finishEditing = () => {
+    if (editingId) {
+      renameChecklistItem(task.id, editingId, editingTitle);
+    }
+    setEditingId(null);
+    setEditingTitle("");
+  };
+
+  return (
+    <View>
+      {progress.total > 0 && (
+        <View style={styles.progress}>
+          <ProgressBar
+            progress={progress.done / progress.total}
+            color={theme.colors.primary}
+            style={styles.progressBar}
+          />
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {progress.done}/{progress.total}
+          </Text>
+        </View>
+      )}
+
+      {items.map((item, index) => (
+        <View key={item.id} style={styles.item}>
+          <Checkbox.Android
+            status={item.done ? "checked" : "unchecked"}
+            onPress={() => toggleChecklistItem(task.id, item.id)}
+            color={theme.colors.primary}
+          />
+          {editingId === item.id ? (
+            <TextInput
+              value={editingTitle}
+              onChangeText={setEditingTitle}
+              onSubmitEditing={finishEditing}
+              onBlur={finishEditing}
+              maxLength={MAX_CHECKLIST_ITEM_LENGTH}
+              autoFocus
+              dense
+              mode="outlined"
+              style={styles.itemInput}
+              outlineColor={theme.colors.outline}
+              activeOutlineColor={theme.colors.primary}
+            />
+          ) : (
+            <Pressable
+              style={styles.itemTitle}
+              onPress={() => startEditing(item.id, item.title)}
+            >
+              <Text
+                variant="bodyLarge"
+                style={[
+                  {
+                    color: item.done
+                      ? theme.colors.onSurfaceVariant
+                      : theme.colors.onSurface,
+                  },
+                  item.done && styles.itemDone,
+                ]}
+              >
+                {item.title}
+              </Text>
+            </Pressable>
+          )}
+          <IconButton
+            icon="chevron-up"
+            size={18}
+            onPress={() => moveChecklistItem(task.id, item.id, "up")}
+            disabled={index === 0}
+            iconColor={theme.colors.onSurfaceVariant}
+            style={styles.itemAction}
+          />
+          <IconButton
+            icon="chevron-down"
+            size={18}
+            onPress={() => moveChecklistItem(task.id, item.id, "down")}
+            disabled={index === items.length - 1}
+            iconColor={theme.colors.onSurfaceVariant}
+            style={styles.itemAction}
+          />
+          <IconButton
+            icon="close"
+            size={18}
+            onPress={() => removeChecklistItem(task.id, item.id)}
+            iconColor={theme.colors.error}
+            style={styles.itemAction}
+          />
+        </View>
+      ))}
+
+      <TextInput
+        placeholder="Add an item"
+        value={newItem}
+        onChangeText={setNewItem}
+        onSubmitEditing={handleAdd}
+        maxLength={MAX_CHECKLIST_ITEM_LENGTH}
+        blurOnSubmit={false}
+        dense
+        mode="outlined"
+        style={styles.addInput}
+        outlineColor={theme.colors.outline}
+        activeOutlineColor={theme.colors.primary}
+        right={
+          <TextInput.Icon
+            icon="plus"
+            onPress={handleAdd}
+            disabled={!newItem.trim()}
+          />
+        }
+      />
+
+      {items.length > 0 && (
+        <View style={styles.autoComplete}>
+          <Text
+            variant="bodyMedium"
+            style={[styles.autoCompleteLabel, { color: theme.colors.onSurface }]}
+          >
+            Complete task when all items are done
+          </Text>
+          <Switch
+            value={!!task.autoCompleteChecklist}
+            onValueChange={(enabled) =>
+              setChecklistAutoComplete(task.id, enabled)
+            }
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  progress: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  progressBar: {
+    width: 120,
+    height: 4,
+    borderRadius: 2,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  itemTitle: {
+    flex: 1,
+    paddingVertical: 8,
+  },
+  itemDone: {
+    textDecorationLine: "line-through",
+  },
+  itemInput: {
+    flex: 1,
+  },
+  itemAction: {
+    margin: 0,
+  },
+  addInput: {
+    marginTop: 8,
+  },
+  autoComplete: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  autoCompleteLabel: {
+    flex: 1,
+    marginRight: 12,
+    // color will be set dynamically
+  },
+});
@@ -0,0 +1,266 @@
+import React from "react";
+import { View, StyleSheet, Platform } from "react-native";
+import {
+  Button,
+  Chip,
+  IconButton,
+  Switch,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import {
+  CustomFieldFormValue,
+  CustomFieldFormValues,
+  MAX_CUSTOM_FIELD_TEXT_LENGTH,
+  formatCustomFieldValue,
+} from "../lib/customFields";
+import { CustomFieldDefinition } from "../lib/types";
+
+type CustomFieldInputsProps = {
+  definitions: CustomFieldDefinition[]; // Active fields only
+  value: CustomFieldFormValues;
+  onChange: (values: CustomFieldFormValues) => void;
+  errors?: Partial<Record<string, { message?: string }>>;
+};
+
+export default function CustomFieldInputs({
+  definitions,
+  value,
+  onChange,
+  errors,
+}: CustomFieldInputsProps) {
+  const theme = useTheme();
+  const [datePickerFieldId, setDatePickerFieldId] = React.useState<
+    string | null
+  >(null);
+
+  if (definitions.length === 0) {
+    return null;
+  }
+
+  const setFieldValue = (fieldId: string, fieldValue: CustomFieldFormValue) =>
+    onChange({ ...value, [fieldId]: fieldValue });
+
+  const onDateChange = (event: any, selectedDate?: Date) => {
+    const fieldId = datePickerFieldId;
+    setDatePickerFieldId(null);
+    if (fieldId && selectedDate) {
+      // Only the day matters, stored as local midnight
+      const day = new Date(
+        selectedDate.getFullYear(),
+        selectedDate.getMonth(),
+        selectedDate.getDate()
+      );
+      setFieldValue(fieldId, day.toISOString());
+    }
+  };
+
+  const renderInput = (definition: CustomFieldDefinition) => {
+    const fieldValue = value[definition.id] ?? null;
+    const hasError = !!errors?.[definition.id];
+    const label = definition.required ? `${definition.name} *` : definition.name;
+
+    switch (definition.type) {
+      case "text":
+      case "number":
+        return (
+          <TextInput
+            label={label}
+            value={typeof fieldValue === "string" ? fieldValue : ""}
+            onChangeText={(text) => setFieldValue(definition.id, text)}
+            keyboardType={
+              definition.type === "number" ? "decimal-pad" : "default"
+            }
+            maxLength={
+              definition.type === "text"
+                ? MAX_CUSTOM_FIELD_TEXT_LENGTH
+                : undefined
+            }
+            error={hasError}
+            style={styles.input}
+            mode="outlined"
+            outlineColor={theme.colors.outline}
+            activeOutlineColor={theme.colors.primary}
+          />
+        );
+      case "boolean":
+        return (
+          <View style={styles.switchRow}>
+            <Text
+              variant="bodyMedium"
+              style={[styles.switchLabel, { color: theme.colors.onSurface }]}
+            >
+              {definition.name}
+            </Text>
+            <Switch
+              value={fieldValue === true}
+              onValueChange={(enabled) => setFieldValue(definition.id, enabled)}
+            />
+          </View>
+        );
+      case "date":
+        return (
+          <View style={styles.field}>
+            <Text
+              variant="bodyMedium"
+              style={[styles.label, { color: theme.colors.onSurface }]}
+            >
+              {label}
+            </Text>
+            <View style={styles.dateRow}>
+              <Button
+                mode="outlined"
+                icon="calendar"
+                onPress={() => setDatePickerFieldId(definition.id)}
+                style={{
+                  borderColor: hasError
+                    ? theme.colors.error
+                    : theme.colors.primary,
+                }}
+                textColor={theme.colors.primary}
+              >
+                {typeof fieldValue === "string"
+                  ? formatCustomFieldValue(fieldValue, definition)
+                  : "Pick a date"}
+              </Button>
+              {typeof fieldValue === "string" && (
+                <IconButton
+                  icon="close"
+                  size={18}
+                  onPress={() => setFieldValue(definition.id, null)}
+                  iconColor={theme.colors.onSurfaceVariant}
+                />
+              )}
+            </View>
+          </View>
+        );
+      case "select":
+        return (
+          <View style={styles.field}>
+            <Text
+              variant="bodyMedium"
+              style={[styles.label, { color: theme.colors.onSurface }]}
+            >
+              {label}
+            </Text>
+            <View style={styles.options}>
+              {(definition.options ?? []).map((option) => {
+                const selected = fieldValue === option;
+                return (
+                  <Chip
+                    key={option}
+                    selected={selected}
+                    showSelectedCheck={false}
+                    // Tapping the selected choice clears it
+                    onPress={() =>
+                      setFieldValue(definition.id, selected ? null : option)
+                    }
+                    style={{
+                      backgroundColor: selected
+                        ? theme.colors.primaryContainer
+                        : theme.colors.surfaceVariant,
+                    }}
+                    textStyle={{
+                      color: selected
+                        ? theme.colors.onPrimaryContainer
+                        : theme.colors.onSurfaceVariant,
+                    }}
+                  >
+                    {option}
+                  </Chip>
+                );
+              })}
+            </View>
+          </View>
+        );
+    }
+  };
+
+  const pickerFieldValue = datePickerFieldId
+    ? value[datePickerFieldId]
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="titleMedium"
+        style={[styles.sectionTitle, { color: theme.colors.onSurface }]}
+      >
+        Custom Fields
+      </Text>
+      {definitions.map((definition) => (
+        <View key={definition.id}>
+          {renderInput(definition)}
+          {errors?.[definition.id] && (
+            <Text variant="bodySmall" style={styles.errorText}>
+              {errors[definition.id]?.message}
+            </Text>
+          )}
+        </View>
+      ))}
+      {datePickerFieldId && (
+        <DateTimePicker
+          value={
+            typeof pickerFieldValue === "string"
+              ? new Date(pickerFieldValue)
+              : new Date()
+          }
+          mode="date"
+          display={Platform.OS === "ios" ? "spinner" : "default"}
+          onChange={onDateChange}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    marginBottom: 12,
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  field: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  input: {
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  switchLabel: {
+    flex: 1,
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  dateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  errorText: {
+    color: "#ef4444",
+    fontSize: 12,
+    marginBottom: 16,
+    marginTop: -8,
+    fontWeight: "500",
+  },
+});
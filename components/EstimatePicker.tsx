@@ -0,0 +1,135 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Chip, Text, TextInput, useTheme } from "react-native-paper";
+import {
+  ESTIMATE_PRESETS,
+  MAX_ESTIMATE_MINUTES,
+  formatEstimate,
+} from "../lib/estimates";
+
+type EstimatePickerProps = {
+  value: number | null; // minutes
+  onChange: (minutes: number | null) => void;
+};
+
+const presetLabel = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${minutes / 60}h`;
+
+export default function EstimatePicker({ value, onChange }: EstimatePickerProps) {
+  const theme = useTheme();
+  const isCustom = value !== null && !ESTIMATE_PRESETS.includes(value);
+  const [customInput, setCustomInput] = React.useState(
+    isCustom ? String(value) : ""
+  );
+
+  const onCustomChange = (text: string) => {
+    const digits = text.replace(/[^0-9]/g, "");
+    setCustomInput(digits);
+    const minutes = parseInt(digits, 10);
+    onChange(
+      Number.isNaN(minutes) || minutes === 0
+        ? null
+        : Math.min(minutes, MAX_ESTIMATE_MINUTES)
+    );
+  };
+
+  const chipStyle = (selected: boolean) => ({
+    backgroundColor: selected
+      ? theme.colors.primaryContainer
+      : theme.colors.surfaceVariant,
+  });
+  const chipTextStyle = (selected: boolean) => ({
+    color: selected
+      ? theme.colors.onPrimaryContainer
+      : theme.colors.onSurfaceVariant,
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="bodyMedium"
+        style={[styles.label, { color: theme.colors.onSurface }]}
+      >
+        Estimate
+      </Text>
+      <View style={styles.options}>
+        <Chip
+          icon="timer-off-outline"
+          selected={value === null}
+          showSelectedCheck={false}
+          onPress={() => {
+            setCustomInput("");
+            onChange(null);
+          }}
+          style={chipStyle(value === null)}
+          textStyle={chipTextStyle(value === null)}
+        >
+          None
+        </Chip>
+        {ESTIMATE_PRESETS.map((minutes) => {
+          const selected = value === minutes;
+          return (
+            <Chip
+              key={minutes}
+              selected={selected}
+              showSelectedCheck={false}
+              onPress={() => {
+                setCustomInput("");
+                onChange(minutes);
+              }}
+              style={chipStyle(selected)}
+              textStyle={chipTextStyle(selected)}
+            >
+              {presetLabel(minutes)}
+            </Chip>
+          );
+        })}
+      </View>
+      <View style={styles.customRow}>
+        <TextInput
+          label="Custom, minutes"
+          value={customInput}
+          onChangeText={onCustomChange}
+          keyboardType="number-pad"
+          dense
+          mode="outlined"
+          style={styles.customInput}
+          outlineColor={theme.colors.outline}
+          activeOutlineColor={theme.colors.primary}
+        />
+        {isCustom && (
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {formatEstimate(value)}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  customRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  customInput: {
+    width: 160,
+  },
+});
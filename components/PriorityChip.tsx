@@ -0,0 +1,38 @@
+import React from "react";
+import { Chip } from "react-native-paper";
+import { useThemeStore } from "../lib/themeStore";
+import { lightPriorityColors, darkPriorityColors } from "../lib/theme";
+import { priorityLabels } from "../lib/priority";
+import { TaskPriority } from "../lib/types";
+
+type PriorityChipProps = {
+  priority: TaskPriority;
+  compact?: boolean;
+};
+
+export default function PriorityChip({ priority, compact }: PriorityChipProps) {
+  const { themeMode } = useThemeStore();
+  const priorityColors =
+    themeMode === "dark" ? darkPriorityColors : lightPriorityColors;
+  const config = priorityColors[priority];
+
+  return (
+    <Chip
+      icon="flag"
+      compact={compact}
+      style={{
+        backgroundColor: config.backgroundColor,
+        borderWidth: 1,
+        borderColor: config.color,
+      }}
+      textStyle={{
+        color: config.color,
+        fontWeight: "600",
+        fontSize: compact ? 11 : 12,
+      }}
+      selectedColor={config.color}
+    >
+      {priorityLabels[priority]}
+    </Chip>
+  );
+}
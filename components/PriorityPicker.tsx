@@ -0,0 +1,80 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Chip, Text, useTheme } from "react-native-paper";
+import { useThemeStore } from "../lib/themeStore";
+import { lightPriorityColors, darkPriorityColors } from "../lib/theme";
+import { TASK_PRIORITIES, priorityLabels } from "../lib/priority";
+import { TaskPriority } from "../lib/types";
+
+type PriorityPickerProps = {
+  value: TaskPriority;
+  onChange: (priority: TaskPriority) => void;
+};
+
+export default function PriorityPicker({ value, onChange }: PriorityPickerProps) {
+  const theme = useTheme();
+  const { themeMode } = useThemeStore();
+  const priorityColors =
+    themeMode === "dark" ? darkPriorityColors : lightPriorityColors;
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="bodyMedium"
+        style={[styles.label, { color: theme.colors.onSurface }]}
+      >
+        Priority
+      </Text>
+      <View style={styles.options}>
+        {TASK_PRIORITIES.map((priority) => {
+          const selected = priority === value;
+          const config = priorityColors[priority];
+          return (
+            <Chip
+              key={priority}
+              icon={priority === "none" ? "flag-outline" : "flag"}
+              selected={selected}
+              showSelectedCheck={false}
+              onPress={() => onChange(priority)}
+              style={[
+                styles.option,
+                {
+                  backgroundColor: selected
+                    ? config.backgroundColor
+                    : theme.colors.surface,
+                  borderColor: selected ? config.color : theme.colors.outline,
+                },
+              ]}
+              textStyle={{
+                color: selected ? config.color : theme.colors.onSurfaceVariant,
+                fontWeight: selected ? "700" : "500",
+              }}
+              selectedColor={config.color}
+            >
+              {priorityLabels[priority]}
+            </Chip>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    borderWidth: 1,
+    // backgroundColor and borderColor will be set dynamically
+  },
+});
@@ -0,0 +1,76 @@
+import React from "react";
+import { ScrollView, StyleSheet } from "react-native";
+import { Chip, useTheme } from "react-native-paper";
+import ProjectChip from "./ProjectChip";
+import { ProjectFilter, ProjectSummary } from "../lib/projects";
+
+type ProjectBarProps = {
+  projects: ProjectSummary[];
+  selected: ProjectFilter;
+  allCount: number; // Open tasks in all projects
+  inboxCount: number; // Open tasks without a project
+  onChange: (selected: ProjectFilter) => void;
+  onManage: () => void;
+};
+
+export default function ProjectBar({
+  projects,
+  selected,
+  allCount,
+  inboxCount,
+  onChange,
+  onManage,
+}: ProjectBarProps) {
+  const theme = useTheme();
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      <ProjectChip
+        label="All"
+        icon="format-list-bulleted"
+        count={allCount}
+        compact
+        selected={selected === "all"}
+        onPress={() => onChange("all")}
+      />
+      <ProjectChip
+        count={inboxCount}
+        compact
+        selected={selected === "inbox"}
+        onPress={() => onChange("inbox")}
+      />
+      {projects.map(({ project, openCount }) => (
+        <ProjectChip
+          key={project.id}
+          project={project}
+          count={openCount}
+          compact
+          selected={selected === project.id}
+          onPress={() => onChange(project.id)}
+        />
+      ))}
+      <Chip
+        compact
+        icon="folder-cog"
+        onPress={onManage}
+        style={{ backgroundColor: theme.colors.surfaceVariant }}
+        textStyle={{ color: theme.colors.primary, fontSize: 11 }}
+      >
+        Projects
+      </Chip>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+});
@@ -0,0 +1,51 @@
+import React from "react";
+import { Chip } from "react-native-paper";
+import { Project } from "../lib/types";
+import { INBOX_COLOR, INBOX_ICON, INBOX_NAME } from "../lib/projects";
+
+type ProjectChipProps = {
+  project?: Project; // Inbox when missing
+  label?: string; // Overrides the project name, e.g. "All"
+  icon?: string;
+  selected?: boolean;
+  compact?: boolean;
+  count?: number;
+  onPress?: () => void;
+};
+
+export default function ProjectChip({
+  project,
+  label,
+  icon,
+  selected,
+  compact,
+  count,
+  onPress,
+}: ProjectChipProps) {
+  const color = project?.color ?? INBOX_COLOR;
+
+  return (
+    <Chip
+      compact={compact}
+      icon={icon ?? project?.icon ?? INBOX_ICON}
+      selected={selected}
+      showSelectedCheck={false}
+      onPress={onPress}
+      style={{
+        // 8-digit hex: the project color with ~15% opacity as background
+        backgroundColor: selected ? color : `${color}26`,
+        borderWidth: 1,
+        borderColor: color,
+      }}
+      textStyle={{
+        color: selected ? "#ffffff" : color,
+        fontWeight: "600",
+        fontSize: compact ? 11 : 12,
+      }}
+      selectedColor={selected ? "#ffffff" : color}
+    >
+      {label ?? project?.name ?? INBOX_NAME}
+      {count !== undefined ? ` ${count}` : ""}
+    </Chip>
+  );
+}
@@ -0,0 +1,61 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Text, useTheme } from "react-native-paper";
+import ProjectChip from "./ProjectChip";
+import { useTaskStore } from "../lib/store";
+import { getActiveProjects } from "../lib/projects";
+
+type ProjectPickerProps = {
+  value: string | undefined; // Inbox when undefined
+  onChange: (projectId: string | undefined) => void;
+};
+
+export default function ProjectPicker({ value, onChange }: ProjectPickerProps) {
+  const theme = useTheme();
+  const { projects } = useTaskStore();
+  const activeProjects = getActiveProjects(projects);
+  // A project deleted on another device falls back to the Inbox
+  const selectedId = activeProjects.some((p) => p.id === value)
+    ? value
+    : undefined;
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="bodyMedium"
+        style={[styles.label, { color: theme.colors.onSurface }]}
+      >
+        Project
+      </Text>
+      <View style={styles.options}>
+        <ProjectChip
+          selected={selectedId === undefined}
+          onPress={() => onChange(undefined)}
+        />
+        {activeProjects.map((project) => (
+          <ProjectChip
+            key={project.id}
+            project={project}
+            selected={selectedId === project.id}
+            onPress={() => onChange(project.id)}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+});
@@ -0,0 +1,344 @@
+import React from "react";
+import { View, StyleSheet, Platform } from "react-native";
+import { Button, Chip, Text, TextInput, useTheme } from "react-native-paper";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { RecurrenceFrequency, RecurrenceRule } from "../lib/types";
+import {
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  WEEKDAY_LABELS,
+  anchorRecurrence,
+  createRecurrenceRule,
+  describeRecurrence,
+  describeWeekdayOfMonth,
+} from "../lib/recurrence";
+
+type RecurrenceEditorProps = {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  date: Date; // Due date of the task, the rule repeats from it
+};
+
+type EndType = "never" | "date" | "count";
+
+const frequencyOptions: { key: RecurrenceFrequency | "never"; label: string }[] =
+  [
+    { key: "never", label: "Never" },
+    { key: "daily", label: "Daily" },
+    { key: "weekly", label: "Weekly" },
+    { key: "monthly", label: "Monthly" },
+    { key: "yearly", label: "Yearly" },
+  ];
+
+const unitLabels: Record<RecurrenceFrequency, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+const parseNumber = (text: string, max: number) => {
+  const number = parseInt(text.replace(/[^0-9]/g, ""), 10);
+  return Number.isNaN(number) ? 1 : Math.min(Math.max(number, 1), max);
+};
+
+export default function RecurrenceEditor({
+  value,
+  onChange,
+  date,
+}: RecurrenceEditorProps) {
+  const theme = useTheme();
+  const [showEndDatePicker, setShowEndDatePicker] = React.useState(false);
+  const endType: EndType =
+    value?.count !== undefined ? "count" : value?.endDate ? "date" : "never";
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const selectFrequency = (frequency: RecurrenceFrequency | "never") => {
+    if (frequency === "never") {
+      onChange(null);
+    } else if (frequency !== value?.frequency) {
+      onChange({
+        ...createRecurrenceRule(frequency, date),
+        endDate: value?.endDate,
+        count: value?.count,
+      });
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.weekdays ?? [date.getDay()];
+    if (weekdays.includes(day)) {
+      // At least one day has to stay selected
+      if (weekdays.length > 1) {
+        update({ weekdays: weekdays.filter((d) => d !== day) });
+      }
+    } else {
+      update({ weekdays: [...weekdays, day].sort((a, b) => a - b) });
+    }
+  };
+
+  const selectEndType = (type: EndType) => {
+    if (type === "never") {
+      update({ endDate: undefined, count: undefined });
+    } else if (type === "date") {
+      const endDate = new Date(date);
+      endDate.setMonth(endDate.getMonth() + 1);
+      update({
+        endDate: value?.endDate ?? endDate.toISOString(),
+        count: undefined,
+      });
+    } else {
+      update({ endDate: undefined, count: value?.count ?? 10 });
+    }
+  };
+
+  const onEndDateChange = (event: any, selectedDate?: Date) => {
+    setShowEndDatePicker(false);
+    if (selectedDate) {
+      update({ endDate: selectedDate.toISOString() });
+    }
+  };
+
+  const chipStyle = (selected: boolean) => [
+    styles.option,
+    {
+      backgroundColor: selected
+        ? theme.colors.primaryContainer
+        : theme.colors.surfaceVariant,
+    },
+  ];
+  const chipTextStyle = (selected: boolean) => ({
+    color: selected
+      ? theme.colors.onPrimaryContainer
+      : theme.colors.onSurfaceVariant,
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="bodyMedium"
+        style={[styles.label, { color: theme.colors.onSurface }]}
+      >
+        Repeat
+      </Text>
+      <View style={styles.options}>
+        {frequencyOptions.map((option) => {
+          const selected = (value?.frequency ?? "never") === option.key;
+          return (
+            <Chip
+              key={option.key}
+              selected={selected}
+              showSelectedCheck={false}
+              onPress={() => selectFrequency(option.key)}
+              style={chipStyle(selected)}
+              textStyle={chipTextStyle(selected)}
+            >
+              {option.label}
+            </Chip>
+          );
+        })}
+      </View>
+
+      {value && (
+        <>
+          <View style={styles.row}>
+            <Text
+              variant="bodyMedium"
+              style={{ color: theme.colors.onSurface }}
+            >
+              Every
+            </Text>
+            <TextInput
+              value={String(value.interval)}
+              onChangeText={(text) =>
+                update({ interval: parseNumber(text, MAX_RECURRENCE_INTERVAL) })
+              }
+              keyboardType="number-pad"
+              dense
+              mode="outlined"
+              style={styles.numberInput}
+              outlineColor={theme.colors.outline}
+              activeOutlineColor={theme.colors.primary}
+            />
+            <Text
+              variant="bodyMedium"
+              style={{ color: theme.colors.onSurface }}
+            >
+              {unitLabels[value.frequency]}
+              {value.interval !== 1 ? "s" : ""}
+            </Text>
+          </View>
+
+          {value.frequency === "weekly" && (
+            <View style={styles.options}>
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = (value.weekdays ?? [date.getDay()]).includes(
+                  day
+                );
+                return (
+                  <Chip
+                    key={label}
+                    selected={selected}
+                    showSelectedCheck={false}
+                    onPress={() => toggleWeekday(day)}
+                    style={chipStyle(selected)}
+                    textStyle={chipTextStyle(selected)}
+                    compact
+                  >
+                    {label}
+                  </Chip>
+                );
+              })}
+            </View>
+          )}
+
+          {value.frequency === "monthly" && (
+            <View style={styles.options}>
+              {(["day", "weekday"] as const).map((monthlyBy) => {
+                const selected = (value.monthlyBy ?? "day") === monthlyBy;
+                return (
+                  <Chip
+                    key={monthlyBy}
+                    selected={selected}
+                    showSelectedCheck={false}
+                    onPress={() => update({ monthlyBy })}
+                    style={chipStyle(selected)}
+                    textStyle={chipTextStyle(selected)}
+                  >
+                    {monthlyBy === "day"
+                      ? `On day ${date.getDate()}`
+                      : `On the ${describeWeekdayOfMonth(date)}`}
+                  </Chip>
+                );
+              })}
+            </View>
+          )}
+
+          <Text
+            variant="bodyMedium"
+            style={[styles.label, { color: theme.colors.onSurface }]}
+          >
+            Ends
+          </Text>
+          <View style={styles.options}>
+            {(
+              [
+                { key: "never", label: "Never" },
+                { key: "date", label: "On date" },
+                { key: "count", label: "After" },
+              ] as const
+            ).map((option) => {
+              const selected = endType === option.key;
+              return (
+                <Chip
+                  key={option.key}
+                  selected={selected}
+                  showSelectedCheck={false}
+                  onPress={() => selectEndType(option.key)}
+                  style={chipStyle(selected)}
+                  textStyle={chipTextStyle(selected)}
+                >
+                  {option.label}
+                </Chip>
+              );
+            })}
+          </View>
+
+          {endType === "date" && value.endDate && (
+            <Button
+              mode="outlined"
+              onPress={() => setShowEndDatePicker(true)}
+              style={[
+                styles.endDateButton,
+                { borderColor: theme.colors.primary },
+              ]}
+              icon="calendar-end"
+              textColor={theme.colors.primary}
+            >
+              {new Date(value.endDate).toLocaleDateString()}
+            </Button>
+          )}
+          {showEndDatePicker && value.endDate && (
+            <DateTimePicker
+              value={new Date(value.endDate)}
+              mode="date"
+              display={Platform.OS === "ios" ? "spinner" : "default"}
+              onChange={onEndDateChange}
+              minimumDate={date}
+            />
+          )}
+
+          {endType === "count" && (
+            <View style={styles.row}>
+              <TextInput
+                value={String(value.count ?? 1)}
+                onChangeText={(text) =>
+                  update({ count: parseNumber(text, MAX_RECURRENCE_COUNT) })
+                }
+                keyboardType="number-pad"
+                dense
+                mode="outlined"
+                style={styles.numberInput}
+                outlineColor={theme.colors.outline}
+                activeOutlineColor={theme.colors.primary}
+              />
+              <Text
+                variant="bodyMedium"
+                style={{ color: theme.colors.onSurface }}
+              >
+                occurrence{value.count !== 1 ? "s" : ""}
+              </Text>
+            </View>
+          )}
+
+          <Text
+            variant="bodySmall"
+            style={[styles.summary, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {describeRecurrence(anchorRecurrence(value, date), date)}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    // backgroundColor will be set dynamically
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  numberInput: {
+    width: 72,
+    textAlign: "center",
+  },
+  endDateButton: {
+    alignSelf: "flex-start",
+    marginBottom: 12,
+  },
+  summary: {
+    fontStyle: "italic",
+  },
+});
@@ -0,0 +1,50 @@
+import React from "react";
+import { Chip } from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import { getTagColor } from "../lib/tags";
+
+type TagChipProps = {
+  tag: string;
+  selected?: boolean;
+  compact?: boolean;
+  count?: number;
+  onPress?: () => void;
+  onClose?: () => void;
+};
+
+export default function TagChip({
+  tag,
+  selected,
+  compact,
+  count,
+  onPress,
+  onClose,
+}: TagChipProps) {
+  const { tagColors } = useTaskStore();
+  const color = getTagColor(tag, tagColors);
+
+  return (
+    <Chip
+      compact={compact}
+      selected={selected}
+      showSelectedCheck={false}
+      onPress={onPress}
+      onClose={onClose}
+      style={{
+        // 8-digit hex: the tag color with ~15% opacity as background
+        backgroundColor: selected ? color : `${color}26`,
+        borderWidth: 1,
+        borderColor: color,
+      }}
+      textStyle={{
+        color: selected ? "#ffffff" : color,
+        fontWeight: "600",
+        fontSize: compact ? 11 : 12,
+      }}
+      selectedColor={selected ? "#ffffff" : color}
+    >
+      #{tag}
+      {count !== undefined ? ` ${count}` : ""}
+    </Chip>
+  );
+}
@@ -0,0 +1,77 @@
+import React from "react";
+import { ScrollView, StyleSheet } from "react-native";
+import { Chip, useTheme } from "react-native-paper";
+import TagChip from "./TagChip";
+import { TagSummary, isSameTag } from "../lib/tags";
+
+type TagFilterBarProps = {
+  tags: TagSummary[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  onManage: () => void;
+};
+
+export default function TagFilterBar({
+  tags,
+  selected,
+  onChange,
+  onManage,
+}: TagFilterBarProps) {
+  const theme = useTheme();
+
+  const toggle = (tag: string) => {
+    onChange(
+      selected.some((t) => isSameTag(t, tag))
+        ? selected.filter((t) => !isSameTag(t, tag))
+        : [...selected, tag]
+    );
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {selected.length > 0 && (
+        <Chip
+          compact
+          icon="close"
+          onPress={() => onChange([])}
+          style={{ backgroundColor: theme.colors.surfaceVariant }}
+          textStyle={{ color: theme.colors.onSurfaceVariant, fontSize: 11 }}
+        >
+          Clear
+        </Chip>
+      )}
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.name}
+          tag={tag.name}
+          count={tag.count}
+          compact
+          selected={selected.some((t) => isSameTag(t, tag.name))}
+          onPress={() => toggle(tag.name)}
+        />
+      ))}
+      <Chip
+        compact
+        icon="tag-multiple"
+        onPress={onManage}
+        style={{ backgroundColor: theme.colors.surfaceVariant }}
+        textStyle={{ color: theme.colors.primary, fontSize: 11 }}
+      >
+        Manage
+      </Chip>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+});
@@ -0,0 +1,133 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { TextInput, Text, Chip, useTheme } from "react-native-paper";
+import TagChip from "./TagChip";
+import {
+  MAX_TAGS_PER_TASK,
+  addTag,
+  normalizeTag,
+  suggestTags,
+} from "../lib/tags";
+
+type TagInputProps = {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  availableTags: string[]; // Existing tags offered for autocomplete
+  error?: boolean;
+};
+
+export default function TagInput({
+  value,
+  onChange,
+  availableTags,
+  error,
+}: TagInputProps) {
+  const theme = useTheme();
+  const [query, setQuery] = React.useState("");
+  const limitReached = value.length >= MAX_TAGS_PER_TASK;
+  const suggestions = query.trim()
+    ? suggestTags(availableTags, query, value)
+    : [];
+  const canCreate =
+    normalizeTag(query).length > 0 &&
+    !suggestions.some(
+      (tag) => tag.toLowerCase() === normalizeTag(query).toLowerCase()
+    );
+
+  const commit = (tag: string) => {
+    onChange(addTag(value, tag));
+    setQuery("");
+  };
+
+  const handleChangeText = (text: string) => {
+    // A comma finishes the tag, like pressing Enter
+    if (text.includes(",")) {
+      let tags = value;
+      text
+        .split(",")
+        .slice(0, -1)
+        .forEach((part) => {
+          tags = addTag(tags, part);
+        });
+      onChange(tags.slice(0, MAX_TAGS_PER_TASK));
+      setQuery(text.split(",").pop() ?? "");
+      return;
+    }
+    setQuery(text);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="bodyMedium"
+        style={[styles.label, { color: theme.colors.onSurface }]}
+      >
+        Tags
+      </Text>
+      {value.length > 0 && (
+        <View style={styles.tagsList}>
+          {value.map((tag) => (
+            <TagChip
+              key={tag}
+              tag={tag}
+              onClose={() => onChange(value.filter((t) => t !== tag))}
+            />
+          ))}
+        </View>
+      )}
+      <TextInput
+        label={limitReached ? "Tag limit reached" : "Add tag"}
+        value={query}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => commit(query)}
+        blurOnSubmit={false}
+        disabled={limitReached}
+        error={error}
+        autoCapitalize="none"
+        autoCorrect={false}
+        placeholder="e.g. errands, client-A"
+        style={styles.input}
+        mode="outlined"
+        outlineColor={theme.colors.outline}
+        activeOutlineColor={theme.colors.primary}
+      />
+      {(suggestions.length > 0 || canCreate) && (
+        <View style={styles.tagsList}>
+          {suggestions.map((tag) => (
+            <TagChip key={tag} tag={tag} compact onPress={() => commit(tag)} />
+          ))}
+          {canCreate && (
+            <Chip
+              compact
+              icon="plus"
+              onPress={() => commit(query)}
+              style={{ backgroundColor: theme.colors.surfaceVariant }}
+              textStyle={{ color: theme.colors.onSurfaceVariant, fontSize: 11 }}
+            >
+              Create "{normalizeTag(query)}"
+            </Chip>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  input: {
+    marginBottom: 8,
+  },
+  tagsList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+});
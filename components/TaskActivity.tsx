@@ -0,0 +1,309 @@
+import React from "react";
+import { View, StyleSheet, Alert } from "react-native";
+import {
+  Button,
+  Icon,
+  IconButton,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import {
+  MAX_COMMENT_LENGTH,
+  TimelineItem,
+  buildTaskTimeline,
+  canEditComment,
+  isCommentEdited,
+} from "../lib/comments";
+import { ActionLog, TaskComment } from "../lib/types";
+
+type TaskActivityProps = {
+  taskId: string;
+};
+
+// Long threads start with the latest entries, earlier ones are shown on request
+const PAGE_SIZE = 20;
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const logLabels: Record<ActionLog["actionType"], string> = {
+  created: "Created",
+  updated: "Updated",
+  deleted: "Deleted",
+  restored: "Restored",
+  archived: "Archived",
+  unarchived: "Unarchived",
+  status_changed: "Status changed",
+  project_created: "Project created",
+  project_updated: "Project updated",
+  project_deleted: "Project deleted",
+};
+
+export default function TaskActivity({ taskId }: TaskActivityProps) {
+  const theme = useTheme();
+  const {
+    comments,
+    actionLogs,
+    accountId,
+    addComment,
+    updateComment,
+    deleteComment,
+  } = useTaskStore();
+  const [draft, setDraft] = React.useState("");
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editingText, setEditingText] = React.useState("");
+  const [visibleCount, setVisibleCount] = React.useState(PAGE_SIZE);
+
+  const timeline = buildTaskTimeline(comments, actionLogs, taskId);
+  const hiddenCount = Math.max(0, timeline.length - visibleCount);
+  const visibleItems = timeline.slice(hiddenCount);
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    addComment(taskId, draft);
+    setDraft("");
+  };
+
+  const startEditing = (comment: TaskComment) => {
+    setEditingId(comment.id);
+    setEditingText(comment.text);
+  };
+
+  const finishEditing = () => {
+    if (editingId) {
+      updateComment(editingId, editingText);
+    }
+    setEditingId(null);
+    setEditingText("");
+  };
+
+  const handleDelete = (comment: TaskComment) => {
+    Alert.alert("Delete Comment", "Are you sure you want to delete it?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => deleteComment(comment.id),
+      },
+    ]);
+  };
+
+  const renderComment = (comment: TaskComment) => {
+    const editable = canEditComment(comment, accountId);
+    const editing = editingId === comment.id;
+    return (
+      <View
+        key={comment.id}
+        style={[
+          styles.comment,
+          { backgroundColor: theme.colors.surfaceVariant },
+        ]}
+      >
+        <View style={styles.commentHeader}>
+          <Text
+            variant="labelLarge"
+            style={[styles.author, { color: theme.colors.onSurface }]}
+          >
+            {comment.authorName ?? "You"}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {formatTimestamp(comment.createdAt)}
+            {isCommentEdited(comment) ? " · edited" : ""}
+          </Text>
+          {editable && !editing && (
+            <View style={styles.commentActions}>
+              <IconButton
+                icon="pencil"
+                size={16}
+                onPress={() => startEditing(comment)}
+                iconColor={theme.colors.onSurfaceVariant}
+                style={styles.commentAction}
+              />
+              <IconButton
+                icon="delete"
+                size={16}
+                onPress={() => handleDelete(comment)}
+                iconColor={theme.colors.onSurfaceVariant}
+                style={styles.commentAction}
+              />
+            </View>
+          )}
+        </View>
+        {editing ? (
+          <>
+            <TextInput
+              value={editingText}
+              onChangeText={setEditingText}
+              maxLength={MAX_COMMENT_LENGTH}
+              multiline
+              autoFocus
+              mode="outlined"
+              dense
+              outlineColor={theme.colors.outline}
+              activeOutlineColor={theme.colors.primary}
+            />
+            <View style={styles.editActions}>
+              <Button compact onPress={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button
+                compact
+                onPress={finishEditing}
+                disabled={!editingText.trim()}
+              >
+                Save
+              </Button>
+            </View>
+          </>
+        ) : (
+          <Text
+            variant="bodyMedium"
+            style={{ color: theme.colors.onSurface }}
+          >
+            {comment.text}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderLog = (log: ActionLog) => (
+    <View key={log.id} style={styles.log}>
+      <Icon
+        source={log.origin === "remote" ? "cloud-download-outline" : "history"}
+        size={16}
+        color={theme.colors.onSurfaceVariant}
+      />
+      <Text
+        variant="bodySmall"
+        style={[styles.logText, { color: theme.colors.onSurfaceVariant }]}
+      >
+        {logLabels[log.actionType]}
+        {log.details ? `: ${log.details}` : ""} ·{" "}
+        {formatTimestamp(log.timestamp)}
+      </Text>
+    </View>
+  );
+
+  const renderItem = (item: TimelineItem) =>
+    item.kind === "comment" ? renderComment(item.comment) : renderLog(item.log);
+
+  return (
+    <View>
+      {hiddenCount > 0 && (
+        <Button
+          mode="text"
+          compact
+          icon="chevron-up"
+          onPress={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+          style={styles.showEarlier}
+          textColor={theme.colors.primary}
+        >
+          Show earlier ({hiddenCount})
+        </Button>
+      )}
+      {visibleItems.length === 0 ? (
+        <Text
+          variant="bodyMedium"
+          style={[styles.empty, { color: theme.colors.onSurfaceVariant }]}
+        >
+          No activity yet
+        </Text>
+      ) : (
+        visibleItems.map(renderItem)
+      )}
+
+      <View style={styles.composer}>
+        <TextInput
+          placeholder="Write a comment"
+          value={draft}
+          onChangeText={setDraft}
+          maxLength={MAX_COMMENT_LENGTH}
+          multiline
+          mode="outlined"
+          dense
+          style={styles.composerInput}
+          outlineColor={theme.colors.outline}
+          activeOutlineColor={theme.colors.primary}
+        />
+        <IconButton
+          icon="send"
+          mode="contained"
+          onPress={handleAdd}
+          disabled={!draft.trim()}
+          iconColor={theme.colors.onPrimary}
+          containerColor={theme.colors.primary}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  showEarlier: {
+    alignSelf: "center",
+    marginBottom: 8,
+  },
+  empty: {
+    marginBottom: 12,
+  },
+  comment: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    // backgroundColor will be set dynamically
+  },
+  commentHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 4,
+  },
+  author: {
+    fontWeight: "700",
+    // color will be set dynamically
+  },
+  commentActions: {
+    flexDirection: "row",
+    marginLeft: "auto",
+  },
+  commentAction: {
+    margin: 0,
+  },
+  editActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 4,
+  },
+  log: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    paddingVertical: 4,
+    paddingHorizontal: 4,
+    marginBottom: 4,
+  },
+  logText: {
+    flex: 1,
+    // color will be set dynamically
+  },
+  composer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 8,
+  },
+  composerInput: {
+    flex: 1,
+  },
+});
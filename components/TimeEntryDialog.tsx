@@ -0,0 +1,205 @@
+import React from "react";
+import { View, StyleSheet, Platform } from "react-native";
+import {
+  Button,
+  Dialog,
+  Portal,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { TimeEntry } from "../lib/types";
+import {
+  MAX_TIME_ENTRY_NOTE_LENGTH,
+  formatDuration,
+  getEntryDuration,
+  validateTimeEntry,
+} from "../lib/timeTracking";
+
+type TimeEntryDialogProps = {
+  visible: boolean;
+  entry: TimeEntry | null; // null adds a new entry
+  onDismiss: () => void;
+  onSave: (entry: Omit<TimeEntry, "id">) => void;
+};
+
+type PickerTarget = {
+  field: "start" | "end";
+  mode: "date" | "time";
+};
+
+// A new entry defaults to the last hour
+const getDefaultRange = () => {
+  const end = new Date();
+  end.setSeconds(0, 0);
+  return { start: new Date(end.getTime() - 60 * 60 * 1000), end };
+};
+
+export default function TimeEntryDialog({
+  visible,
+  entry,
+  onDismiss,
+  onSave,
+}: TimeEntryDialogProps) {
+  const theme = useTheme();
+  const [start, setStart] = React.useState(new Date());
+  const [end, setEnd] = React.useState<Date | null>(new Date());
+  const [note, setNote] = React.useState("");
+  const [picker, setPicker] = React.useState<PickerTarget | null>(null);
+
+  // Reset the form every time the dialog opens
+  React.useEffect(() => {
+    if (!visible) return;
+    if (entry) {
+      setStart(new Date(entry.startedAt));
+      setEnd(entry.endedAt ? new Date(entry.endedAt) : null);
+      setNote(entry.note ?? "");
+    } else {
+      const range = getDefaultRange();
+      setStart(range.start);
+      setEnd(range.end);
+      setNote("");
+    }
+    setPicker(null);
+  }, [visible, entry]);
+
+  const values = {
+    startedAt: start.toISOString(),
+    endedAt: end?.toISOString(),
+  };
+  const error = validateTimeEntry(values);
+
+  const onPickerChange = (event: any, selected?: Date) => {
+    const target = picker;
+    setPicker(null);
+    if (!target || !selected) return;
+    const base = target.field === "start" ? start : end ?? new Date();
+    const updated = new Date(base);
+    if (target.mode === "date") {
+      updated.setFullYear(
+        selected.getFullYear(),
+        selected.getMonth(),
+        selected.getDate()
+      );
+    } else {
+      updated.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    }
+    if (target.field === "start") {
+      setStart(updated);
+    } else {
+      setEnd(updated);
+    }
+  };
+
+  const renderRow = (label: string, field: "start" | "end", value: Date) => (
+    <View style={styles.row}>
+      <Text
+        variant="bodyMedium"
+        style={[styles.rowLabel, { color: theme.colors.onSurface }]}
+      >
+        {label}
+      </Text>
+      <Button
+        mode="outlined"
+        compact
+        icon="calendar"
+        onPress={() => setPicker({ field, mode: "date" })}
+      >
+        {value.toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+      </Button>
+      <Button
+        mode="outlined"
+        compact
+        icon="clock-outline"
+        onPress={() => setPicker({ field, mode: "time" })}
+      >
+        {value.toLocaleTimeString("en-US", {
+          hour: "2-digit",
+          minute: "2-digit",
+        })}
+      </Button>
+    </View>
+  );
+
+  const pickerValue = picker?.field === "end" ? end ?? new Date() : start;
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{entry ? "Edit Time" : "Add Time"}</Dialog.Title>
+        <Dialog.Content>
+          {renderRow("Start", "start", start)}
+          {end ? (
+            renderRow("End", "end", end)
+          ) : (
+            <Text
+              variant="bodySmall"
+              style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}
+            >
+              The timer is running, stop it to set the end time
+            </Text>
+          )}
+          <TextInput
+            label="Note (optional)"
+            value={note}
+            onChangeText={setNote}
+            maxLength={MAX_TIME_ENTRY_NOTE_LENGTH}
+            mode="outlined"
+            dense
+            outlineColor={theme.colors.outline}
+            activeOutlineColor={theme.colors.primary}
+          />
+          <Text
+            variant="bodySmall"
+            style={[
+              styles.hint,
+              {
+                color: error ? theme.colors.error : theme.colors.onSurfaceVariant,
+              },
+            ]}
+          >
+            {error ?? `Duration: ${formatDuration(getEntryDuration(values))}`}
+          </Text>
+          {picker && (
+            <DateTimePicker
+              value={pickerValue}
+              mode={picker.mode}
+              display={Platform.OS === "ios" ? "spinner" : "default"}
+              onChange={onPickerChange}
+              maximumDate={picker.mode === "date" ? new Date() : undefined}
+              is24Hour={false}
+            />
+          )}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button
+            onPress={() => onSave({ ...values, note })}
+            disabled={!!error}
+          >
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  rowLabel: {
+    width: 44,
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  hint: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,257 @@
+import React from "react";
+import { View, StyleSheet, Alert } from "react-native";
+import {
+  Button,
+  IconButton,
+  ProgressBar,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import {
+  formatDuration,
+  formatElapsed,
+  getEntryDuration,
+  getRunningEntry,
+  getTrackedTime,
+} from "../lib/timeTracking";
+import { formatEstimate, isOverEstimate } from "../lib/estimates";
+import { useSettingsStore } from "../lib/settingsStore";
+import { Task, TimeEntry } from "../lib/types";
+import TimeEntryDialog from "./TimeEntryDialog";
+
+type TimeTrackerProps = {
+  task: Task;
+};
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" });
+
+const formatEntryRange = (entry: TimeEntry) => {
+  const start = new Date(entry.startedAt);
+  const day = start.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const end = entry.endedAt ? formatTime(new Date(entry.endedAt)) : "now";
+  return `${day}, ${formatTime(start)} – ${end}`;
+};
+
+export default function TimeTracker({ task }: TimeTrackerProps) {
+  const theme = useTheme();
+  const {
+    startTimer,
+    stopTimer,
+    addTimeEntry,
+    updateTimeEntry,
+    removeTimeEntry,
+  } = useTaskStore();
+  const { overrunMargin } = useSettingsStore();
+  const [now, setNow] = React.useState(Date.now());
+  const [dialogVisible, setDialogVisible] = React.useState(false);
+  const [editingEntry, setEditingEntry] = React.useState<TimeEntry | null>(
+    null
+  );
+  const running = getRunningEntry(task);
+  const tracked = getTrackedTime(task, now);
+  const estimated = (task.estimateMinutes ?? 0) * 60 * 1000;
+  const overEstimate = isOverEstimate(estimated, tracked, overrunMargin);
+  // Newest first
+  const entries = [...(task.timeEntries ?? [])].reverse();
+
+  // Tick every second while the timer runs
+  React.useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const openDialog = (entry: TimeEntry | null) => {
+    setEditingEntry(entry);
+    setDialogVisible(true);
+  };
+
+  const handleSave = (values: Omit<TimeEntry, "id">) => {
+    if (editingEntry) {
+      updateTimeEntry(task.id, editingEntry.id, values);
+    } else {
+      addTimeEntry(task.id, values);
+    }
+    setDialogVisible(false);
+  };
+
+  const handleRemove = (entry: TimeEntry) => {
+    Alert.alert(
+      "Remove Time",
+      `Remove ${formatDuration(getEntryDuration(entry, now))} from this task?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => removeTimeEntry(task.id, entry.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <View>
+          <Text
+            variant="headlineSmall"
+            style={[
+              styles.total,
+              { color: running ? theme.colors.primary : theme.colors.onSurface },
+            ]}
+          >
+            {running
+              ? formatElapsed(getEntryDuration(running, now))
+              : formatDuration(tracked)}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {running ? `Total ${formatDuration(tracked)}` : "Total tracked"}
+            {task.estimateMinutes
+              ? ` · estimate ${formatEstimate(task.estimateMinutes)}`
+              : ""}
+          </Text>
+        </View>
+        {running ? (
+          <Button
+            mode="contained"
+            icon="stop"
+            onPress={() => stopTimer(task.id)}
+            buttonColor={theme.colors.error}
+            textColor={theme.colors.onError}
+          >
+            Stop
+          </Button>
+        ) : (
+          <Button
+            mode="contained"
+            icon="play"
+            onPress={() => startTimer(task.id)}
+            buttonColor={theme.colors.primary}
+            textColor={theme.colors.onPrimary}
+          >
+            Start
+          </Button>
+        )}
+      </View>
+
+      {estimated > 0 && (
+        <View style={styles.estimate}>
+          <ProgressBar
+            progress={Math.min(tracked / estimated, 1)}
+            color={overEstimate ? theme.colors.error : theme.colors.primary}
+            style={styles.estimateBar}
+          />
+          {overEstimate && (
+            <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+              Over the estimate by {formatDuration(tracked - estimated)}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {entries.map((entry) => (
+        <View key={entry.id} style={styles.entry}>
+          <View style={styles.entryInfo}>
+            <Text
+              variant="bodyMedium"
+              style={{ color: theme.colors.onSurface }}
+            >
+              {formatEntryRange(entry)}
+            </Text>
+            {entry.note && (
+              <Text
+                variant="bodySmall"
+                style={{ color: theme.colors.onSurfaceVariant }}
+              >
+                {entry.note}
+              </Text>
+            )}
+          </View>
+          <Text
+            variant="bodyMedium"
+            style={[styles.entryDuration, { color: theme.colors.onSurface }]}
+          >
+            {formatDuration(getEntryDuration(entry, now))}
+          </Text>
+          <IconButton
+            icon="pencil"
+            size={18}
+            onPress={() => openDialog(entry)}
+            iconColor={theme.colors.onSurfaceVariant}
+          />
+          <IconButton
+            icon="close"
+            size={18}
+            onPress={() => handleRemove(entry)}
+            iconColor={theme.colors.onSurfaceVariant}
+          />
+        </View>
+      ))}
+
+      <Button
+        mode="text"
+        icon="clock-plus-outline"
+        onPress={() => openDialog(null)}
+        style={styles.addButton}
+        textColor={theme.colors.primary}
+      >
+        Add Time Manually
+      </Button>
+
+      <TimeEntryDialog
+        visible={dialogVisible}
+        entry={editingEntry}
+        onDismiss={() => setDialogVisible(false)}
+        onSave={handleSave}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  total: {
+    fontWeight: "700",
+    fontVariant: ["tabular-nums"],
+    // color will be set dynamically
+  },
+  estimate: {
+    gap: 4,
+    marginBottom: 8,
+  },
+  estimateBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryDuration: {
+    fontWeight: "600",
+    // color will be set dynamically
+  },
+  addButton: {
+    alignSelf: "flex-start",
+    marginTop: 4,
+  },
+});
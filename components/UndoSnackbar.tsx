@@ -0,0 +1,74 @@
+import React from "react";
+import { Snackbar } from "react-native-paper";
+import { useTaskStore } from "../lib/store";
+import { UndoEntry } from "../lib/types";
+
+type UndoNotice = {
+  key: string;
+  message: string;
+  action: "undo" | "redo";
+};
+
+const last = (entries: UndoEntry[]) => entries[entries.length - 1];
+
+// Offers Undo right after a destructive action (and Redo right after an undo), on any screen
+export default function UndoSnackbar() {
+  const { undo, redo } = useTaskStore();
+  const [notice, setNotice] = React.useState<UndoNotice | null>(null);
+
+  React.useEffect(
+    () =>
+      useTaskStore.subscribe((state, prevState) => {
+        if (
+          state.undoStack === prevState.undoStack &&
+          state.redoStack === prevState.redoStack
+        ) {
+          return;
+        }
+        const undone = last(state.redoStack);
+        if (
+          undone &&
+          state.redoStack.length > prevState.redoStack.length
+        ) {
+          setNotice({
+            key: `redo:${undone.id}`,
+            message: `Undone: ${undone.label}`,
+            action: "redo",
+          });
+          return;
+        }
+        const latest = last(state.undoStack);
+        if (!latest || latest.id === last(prevState.undoStack)?.id) {
+          return;
+        }
+        const redone = latest.id === last(prevState.redoStack)?.id;
+        if (latest.destructive || redone) {
+          setNotice({
+            key: `undo:${latest.id}`,
+            message: latest.label,
+            action: "undo",
+          });
+        }
+      }),
+    []
+  );
+
+  return (
+    <Snackbar
+      key={notice?.key}
+      visible={!!notice}
+      onDismiss={() => setNotice(null)}
+      duration={5000}
+      action={
+        notice
+          ? {
+              label: notice.action === "undo" ? "Undo" : "Redo",
+              onPress: notice.action === "undo" ? undo : redo,
+            }
+          : undefined
+      }
+    >
+      {notice?.message ?? ""}
+    </Snackbar>
+  );
+}
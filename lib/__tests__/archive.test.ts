@@ -0,0 +1,36 @@
+import { getTasksToArchive } from '../archive';
+import { Task } from '../types';
+import { createTask } from './fixtures';
+
+const finished = (fields: Partial<Task> = {}) =>
+    createTask({ status: 'completed', completedAt: '2024-03-01T10:00:00.000Z', ...fields });
+
+describe('getTasksToArchive', () => {
+    const later = new Date('2030-01-01T00:00:00.000Z');
+
+    it('archives nothing when auto archive is off', () => {
+        expect(getTasksToArchive([finished()], 0, later)).toEqual([]);
+    });
+
+    it('archives a task exactly when the period after completion ends', () => {
+        const task = finished();
+        expect(getTasksToArchive([task], 1, new Date('2024-03-02T09:59:59.999Z'))).toEqual([]);
+        expect(getTasksToArchive([task], 1, new Date('2024-03-02T10:00:00.000Z'))).toEqual([task]);
+    });
+
+    it('skips open, archived and trashed tasks', () => {
+        const tasks = [
+            finished({ status: 'todo' }),
+            finished({ archivedAt: '2024-03-02T10:00:00.000Z' }),
+            finished({ deletedAt: '2024-03-02T10:00:00.000Z' }),
+        ];
+        expect(getTasksToArchive(tasks, 1, later)).toEqual([]);
+    });
+
+    it('falls back to the last change, then to the creation date, without completedAt', () => {
+        const updated = finished({ completedAt: undefined, updatedAt: '2024-03-05T10:00:00.000Z' });
+        const created = finished({ completedAt: undefined, createdAt: '2024-03-03T10:00:00.000Z' });
+        expect(getTasksToArchive([updated, created], 1, new Date('2024-03-04T10:00:00.000Z'))).toEqual([created]);
+        expect(getTasksToArchive([updated, created], 1, new Date('2024-03-06T10:00:00.000Z'))).toEqual([updated, created]);
+    });
+});
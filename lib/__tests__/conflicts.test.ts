@@ -0,0 +1,62 @@
+import { formatConflictValue, getConflictingFields, hasLocalChanges, mergeConflict } from '../conflicts';
+import { createTask } from './fixtures';
+
+const base = createTask();
+
+describe('getConflictingFields', () => {
+    it('lists the fields changed on either side', () => {
+        const local = { ...base, title: 'Buy oat milk', tags: ['shop'] };
+        const remote = { ...base, status: 'completed' as const };
+        expect(getConflictingFields(local, remote)).toEqual(['title', 'status', 'tags']);
+    });
+
+    it('treats missing values of older tasks as empty', () => {
+        const local = { ...base, tags: [], checklist: [], blockedBy: [], timeEntries: [], customFields: {}, priority: 'none' as const };
+        expect(getConflictingFields(local, base)).toEqual([]);
+    });
+
+    it('compares custom fields regardless of key order', () => {
+        const local = { ...base, customFields: { a: 1, b: 'x' } };
+        const remote = { ...base, customFields: { b: 'x', a: 1 } };
+        expect(getConflictingFields(local, remote)).toEqual([]);
+    });
+
+    it('only compares whether the task is archived or trashed', () => {
+        const local = { ...base, archivedAt: '2024-03-02T10:00:00.000Z', deletedAt: '2024-03-04T10:00:00.000Z' };
+        const remote = { ...base, archivedAt: '2024-03-03T10:00:00.000Z' };
+        expect(getConflictingFields(local, remote)).toEqual(['deletedAt']);
+    });
+});
+
+describe('mergeConflict', () => {
+    it('takes the picked fields from the local version and the rest from the server', () => {
+        const local = { ...base, title: 'Buy oat milk', location: 'Market', updatedAt: '2024-03-01T10:00:00.000Z' };
+        const remote = { ...base, location: 'Shop', status: 'in_progress' as const, updatedAt: '2024-03-01T11:00:00.000Z' };
+        const merged = mergeConflict(local, remote, { title: 'local', location: 'remote' });
+        expect(merged).toEqual({ ...remote, title: 'Buy oat milk' });
+    });
+
+    it('clears a field the local version removed', () => {
+        const remote = { ...base, tags: ['shop'] };
+        expect(mergeConflict(base, remote, { tags: 'local' }).tags).toBeUndefined();
+    });
+});
+
+describe('hasLocalChanges', () => {
+    it('is false when every field was taken from the server', () => {
+        const local = { ...base, title: 'Buy oat milk' };
+        const remote = { ...base, status: 'completed' as const };
+        expect(hasLocalChanges(mergeConflict(local, remote, { title: 'remote' }), remote)).toBe(false);
+        expect(hasLocalChanges(mergeConflict(local, remote, { title: 'local' }), remote)).toBe(true);
+    });
+});
+
+describe('formatConflictValue', () => {
+    it('describes values for the conflict screen', () => {
+        const task = { ...base, status: 'in_progress' as const, checklist: [{ id: 'c1', title: 'Milk', done: true }, { id: 'c2', title: 'Bread', done: false }] };
+        expect(formatConflictValue(task, 'status')).toBe('In Progress');
+        expect(formatConflictValue(task, 'checklist')).toBe('1/2: ✓ Milk, Bread');
+        expect(formatConflictValue(task, 'tags')).toBe('—');
+        expect(formatConflictValue(task, 'deletedAt')).toBe('Not deleted');
+    });
+});
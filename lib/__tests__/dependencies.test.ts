@@ -0,0 +1,47 @@
+import { sanitizeBlockers, wouldCreateCycle } from '../dependencies';
+import { Task } from '../types';
+import { createTask } from './fixtures';
+
+const task = (id: string, blockedBy: string[] = [], fields: Partial<Task> = {}): Task => createTask({ id, blockedBy, ...fields });
+
+// c waits for b, b waits for a
+const tasks = [task('a'), task('b', ['a']), task('c', ['b'])];
+
+describe('wouldCreateCycle', () => {
+    it('finds a direct cycle', () => {
+        expect(wouldCreateCycle('a', 'b', tasks)).toBe(true);
+    });
+
+    it('finds a cycle through other tasks', () => {
+        expect(wouldCreateCycle('a', 'c', tasks)).toBe(true);
+        expect(wouldCreateCycle('c', 'a', tasks)).toBe(false);
+    });
+
+    it('treats a task blocking itself as a cycle', () => {
+        expect(wouldCreateCycle('a', 'a', tasks)).toBe(true);
+    });
+});
+
+describe('sanitizeBlockers', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('drops the task itself and the blockers closing a cycle', () => {
+        expect(sanitizeBlockers('a', ['a', 'b', 'c'], tasks)).toEqual([]);
+        expect(sanitizeBlockers('c', ['c', 'a', 'b'], tasks)).toEqual(['a', 'b']);
+    });
+
+    it('drops trashed and unknown blockers', () => {
+        const trashed = task('d', [], { deletedAt: '2024-03-02T10:00:00.000Z' });
+        expect(sanitizeBlockers('a', ['d', 'missing'], [...tasks, trashed])).toEqual([]);
+    });
+
+    it('keeps the first of duplicate blockers', () => {
+        expect(sanitizeBlockers('c', ['b', 'a', 'b'], tasks)).toEqual(['b', 'a']);
+    });
+});
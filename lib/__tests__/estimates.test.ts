@@ -0,0 +1,60 @@
+import { buildEstimateReport, compareToEstimate, formatEstimateDeviation, isOverEstimate } from '../estimates';
+import { Task } from '../types';
+import { createTask, createTimeEntry, workProject as project } from './fixtures';
+
+const MINUTE = 60 * 1000;
+
+// Completed task with an estimate and the given tracked minutes
+const task = (estimateMinutes: number | undefined, trackedMinutes: number, fields: Partial<Task> = {}): Task => {
+    const start = Date.UTC(2024, 2, 4, 9);
+    return createTask({
+        status: 'completed',
+        estimateMinutes,
+        timeEntries: trackedMinutes > 0 ? [createTimeEntry(new Date(start), new Date(start + trackedMinutes * MINUTE))] : [],
+        ...fields,
+    });
+};
+
+describe('estimate comparison', () => {
+    it('flags a task only when it goes over the estimate by more than the margin', () => {
+        expect(isOverEstimate(60 * MINUTE, 72 * MINUTE, 20)).toBe(false);
+        expect(isOverEstimate(60 * MINUTE, 73 * MINUTE, 20)).toBe(true);
+        expect(isOverEstimate(0, 73 * MINUTE, 20)).toBe(false);
+    });
+
+    it('compares the tracked time with the estimate', () => {
+        expect(compareToEstimate(task(undefined, 30), 20)).toBeNull();
+        expect(compareToEstimate(task(30, 45), 20)).toMatchObject({ estimated: 30 * MINUTE, actual: 45 * MINUTE, overEstimate: true });
+    });
+
+    it('describes the deviation in percent', () => {
+        expect(formatEstimateDeviation(60, 90)).toBe('+50%');
+        expect(formatEstimateDeviation(60, 54)).toBe('-10%');
+        expect(formatEstimateDeviation(0, 54)).toBe('—');
+    });
+});
+
+describe('buildEstimateReport', () => {
+    const tasks = [
+        task(60, 90, { projectId: 'work', tags: ['Deep', 'review'] }),
+        task(30, 20, { tags: ['deep'] }),
+        task(60, 30),
+        task(60, 0, { projectId: 'work' }), // Nothing tracked
+        task(undefined, 30), // No estimate
+        task(60, 120, { status: 'in_progress' }), // Not finished
+    ];
+
+    it('compares completed tasks with an estimate and tracked time, by project', () => {
+        const report = buildEstimateReport(tasks, [project], {}, 'project', 20);
+        expect(report).toMatchObject({ taskCount: 3, overCount: 1, estimated: 150 * MINUTE, actual: 140 * MINUTE });
+        expect(report.groups.map(group => [group.name, group.actual])).toEqual([['Work', 90 * MINUTE], ['Inbox', 50 * MINUTE]]);
+        expect(report.groups[1]?.comparisons.map(c => c.actual)).toEqual([20 * MINUTE, 30 * MINUTE]);
+    });
+
+    it('counts a task in each of its tags', () => {
+        const report = buildEstimateReport(tasks, [project], {}, 'tag', 20);
+        expect(report.groups.map(group => [group.key, group.comparisons.length])).toEqual([['deep', 2], ['review', 1], ['', 1]]);
+        expect(report.groups.find(group => group.key === '')?.name).toBe('No tag');
+        expect(report.taskCount).toBe(3);
+    });
+});
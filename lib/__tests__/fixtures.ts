@@ -0,0 +1,35 @@
+import { Project, Task, TimeEntry } from '../types';
+
+// Test data shared by the test files; not a test file itself, see "testMatch" in package.json
+
+let nextId = 0;
+export const createId = (prefix: string) => `${prefix}-${++nextId}`;
+
+export const workProject: Project = {
+    id: 'work',
+    name: 'Work',
+    color: '#2196F3',
+    icon: 'briefcase',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+/**
+ * Open task due on 2024-03-01 with a new id, `fields` override the defaults
+ */
+export const createTask = (fields: Partial<Task> = {}): Task => ({
+    id: createId('task'),
+    title: 'Buy milk',
+    datetime: '2024-03-01T09:00:00.000Z',
+    location: 'Store',
+    status: 'todo',
+    createdAt: '2024-02-28T10:00:00.000Z',
+    ...fields,
+});
+
+// Entry tracked from `start` to `end`, a running one without `end`
+export const createTimeEntry = (start: Date, end?: Date): TimeEntry => ({
+    id: createId('entry'),
+    startedAt: start.toISOString(),
+    endedAt: end?.toISOString(),
+});
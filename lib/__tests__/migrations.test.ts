@@ -0,0 +1,165 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    PersistedState,
+    QUARANTINE_KEY,
+    TASK_STORE_VERSION,
+    createQuarantiningStorage,
+    getQuarantinedRecords,
+    quarantineRecords,
+    runMigrations,
+    taskStoreMigrations,
+    validatePersistedState,
+} from '../migrations';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const baseTask = {
+    title: 'Buy milk',
+    datetime: '2024-03-01T09:00:00.000Z',
+    location: 'Store',
+    status: 'todo',
+    createdAt: '2024-02-28T10:00:00.000Z',
+};
+
+const getRecords = (state: PersistedState, key: string) => state[key] as Record<string, unknown>[];
+const findTask = (state: PersistedState, id: string) => getRecords(state, 'tasks').find(task => task.id === id);
+
+// Migrates a snapshot the way the store does on rehydration: migrations first, then validation
+const load = (snapshot: PersistedState, version: number) => {
+    const migrated = runMigrations(snapshot, version);
+    const validated = validatePersistedState(migrated.state);
+    return { state: validated.state, quarantined: [...migrated.quarantined, ...validated.quarantined] };
+};
+
+beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+it('has a migration for every version', () => {
+    for (let version = 1; version <= TASK_STORE_VERSION; version++) {
+        expect(taskStoreMigrations[version]).toBeDefined();
+    }
+});
+
+describe('unversioned store (version 0)', () => {
+    const snapshot: PersistedState = {
+        tasks: [
+            { ...baseTask, id: 'task-1' },
+            { ...baseTask, id: 'task-2', location: undefined, status: 'completed', updatedAt: '2024-03-02T12:00:00.000Z' },
+            { ...baseTask, id: 'task-3', status: 'done' },
+            null,
+        ],
+        pendingSync: [
+            { id: 'op-1', type: 'update', taskId: 'task-1', timestamp: '2024-03-01T10:00:00.000Z' },
+        ],
+        deadLetters: [
+            {
+                operation: { id: 'op-2', type: 'delete', taskId: 'task-9', timestamp: '2024-03-01T10:00:00.000Z' },
+                error: 'Server error',
+                failedAt: '2024-03-01T11:00:00.000Z',
+            },
+        ],
+        actionLogs: [],
+        sortOrder: 'dateAdded_desc',
+        syncStatus: 'syncing',
+    };
+
+    it('drops the persisted sync status', () => {
+        expect(load(snapshot, 0).state.syncStatus).toBeUndefined();
+    });
+
+    it('fills in the defaults of legacy records', () => {
+        const { state } = load(snapshot, 0);
+        expect(findTask(state, 'task-2')?.location).toBe('');
+        expect(getRecords(state, 'pendingSync')[0]?.retries).toBe(0);
+        expect((getRecords(state, 'deadLetters')[0]?.operation as PersistedState).retries).toBe(0);
+    });
+
+    it('sets completedAt of finished tasks only', () => {
+        const { state } = load(snapshot, 0);
+        expect(findTask(state, 'task-2')?.completedAt).toBe('2024-03-02T12:00:00.000Z');
+        expect(findTask(state, 'task-1')?.completedAt).toBeUndefined();
+    });
+
+    it('quarantines the records it cannot load and keeps the others', () => {
+        const { state, quarantined } = load(snapshot, 0);
+        expect(getRecords(state, 'tasks').map(task => task.id)).toEqual(['task-1', 'task-2']);
+        expect(quarantined.map(record => record.collection)).toEqual(['tasks', 'tasks']);
+        expect(quarantined[0]?.error).toContain('status');
+    });
+});
+
+describe('version 1 store', () => {
+    it('takes completedAt from createdAt when the task was never updated', () => {
+        const { state } = load({ tasks: [{ ...baseTask, id: 'task-1', status: 'cancelled' }] }, 1);
+        expect(findTask(state, 'task-1')?.completedAt).toBe(baseTask.createdAt);
+    });
+
+    it('keeps a recorded completedAt', () => {
+        const task = { ...baseTask, id: 'task-1', status: 'completed', completedAt: '2024-03-05T08:00:00.000Z', updatedAt: '2024-03-06T08:00:00.000Z' };
+        const { state } = load({ tasks: [task] }, 1);
+        expect(findTask(state, 'task-1')?.completedAt).toBe('2024-03-05T08:00:00.000Z');
+    });
+
+    it('leaves out an invalid value so the initial one is used', () => {
+        const { state, quarantined } = load({ tasks: [], remoteTaskIds: ['task-1', 42], lastSyncedAt: null }, 1);
+        expect(state.remoteTaskIds).toBeUndefined();
+        expect(state.lastSyncedAt).toBeNull();
+        expect(quarantined).toHaveLength(1);
+    });
+});
+
+describe('current store', () => {
+    it('passes through unchanged, unknown fields included', () => {
+        const tasks = [{ ...baseTask, id: 'task-1', futureField: 'kept' }];
+        const { state, quarantined } = load({ tasks }, TASK_STORE_VERSION);
+        expect(state.tasks).toEqual(tasks);
+        expect(quarantined).toHaveLength(0);
+    });
+
+    it('quarantines a collection of the wrong type', () => {
+        const { state, quarantined } = load({ tasks: [], projects: 'not a list' }, TASK_STORE_VERSION);
+        expect(state.projects).toBeUndefined();
+        expect(quarantined[0]).toMatchObject({ collection: 'projects', error: 'Expected a list' });
+    });
+});
+
+describe('runMigrations', () => {
+    it('loads data of a newer version without migrating it', () => {
+        const snapshot = { tasks: [], syncStatus: 'idle' };
+        expect(runMigrations(snapshot, TASK_STORE_VERSION + 1).state).toBe(snapshot);
+    });
+
+    it('quarantines the whole snapshot when a migration throws', () => {
+        const snapshot = { get tasks(): unknown[] { throw new Error('boom'); } };
+        const { state, quarantined } = runMigrations(snapshot, 0);
+        expect(state).toEqual({});
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0]).toMatchObject({ collection: 'state', error: 'Migration to version 1 failed: boom' });
+    });
+});
+
+describe('quarantine storage', () => {
+    it('keeps quarantined records across calls', async () => {
+        const [first, second] = validatePersistedState({ tasks: [{ id: 'a' }, { id: 'b' }] }).quarantined;
+        await quarantineRecords([first!]);
+        await quarantineRecords([second!]);
+        expect((await getQuarantinedRecords()).map(record => (record.record as { id: string }).id)).toEqual(['a', 'b']);
+    });
+
+    it('quarantines unreadable stored state and starts empty', async () => {
+        await AsyncStorage.setItem('tm:tasks:v2', '{broken');
+        const storage = createQuarantiningStorage<PersistedState>(() => AsyncStorage);
+        expect(await storage.getItem('tm:tasks:v2')).toBeNull();
+        const stored = JSON.parse((await AsyncStorage.getItem(QUARANTINE_KEY))!);
+        expect(stored).toEqual([expect.objectContaining({ collection: 'state', record: '{broken' })]);
+    });
+});
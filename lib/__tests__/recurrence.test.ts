@@ -0,0 +1,72 @@
+import { anchorRecurrence, describeRecurrence, getNextOccurrence, getNextOccurrenceDate, getWeekOfMonth } from '../recurrence';
+import { RecurrenceRule } from '../types';
+
+// Local dates, so the expectations hold in any time zone
+const at = (year: number, month: number, day: number, hours = 9) => new Date(year, month - 1, day, hours);
+
+describe('getNextOccurrenceDate', () => {
+    it('repeats every N days at the same time', () => {
+        expect(getNextOccurrenceDate({ frequency: 'daily', interval: 3 }, at(2024, 2, 27))).toEqual(at(2024, 3, 1));
+    });
+
+    it('goes to the next picked weekday, skipping weeks by the interval', () => {
+        const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, weekdays: [1, 4] };
+        // Monday 2024-03-04 → Thursday of the same week → Monday two weeks later
+        expect(getNextOccurrenceDate(rule, at(2024, 3, 4))).toEqual(at(2024, 3, 7));
+        expect(getNextOccurrenceDate(rule, at(2024, 3, 7))).toEqual(at(2024, 3, 18));
+    });
+
+    it('keeps the day of the month after a shorter month', () => {
+        const rule = anchorRecurrence({ frequency: 'monthly', interval: 1 }, at(2024, 1, 31));
+        const february = getNextOccurrenceDate(rule, at(2024, 1, 31));
+        expect(february).toEqual(at(2024, 2, 29));
+        expect(getNextOccurrenceDate(rule, february)).toEqual(at(2024, 3, 31));
+    });
+
+    it('repeats on the same weekday of the month', () => {
+        // 2nd Tuesday of March 2024 → 2nd Tuesday of April
+        const rule = anchorRecurrence({ frequency: 'monthly', interval: 1, monthlyBy: 'weekday' }, at(2024, 3, 12));
+        expect(getNextOccurrenceDate(rule, at(2024, 3, 12))).toEqual(at(2024, 4, 9));
+    });
+
+    it('turns a fifth weekday into the last one', () => {
+        // Friday 2024-03-29 is the 5th Friday; April has four, the last is the 26th
+        expect(getWeekOfMonth(at(2024, 3, 29))).toBe(-1);
+        const rule = anchorRecurrence({ frequency: 'monthly', interval: 1, monthlyBy: 'weekday' }, at(2024, 3, 29));
+        expect(getNextOccurrenceDate(rule, at(2024, 3, 29))).toEqual(at(2024, 4, 26));
+    });
+
+    it('moves February 29 to the 28th in other years', () => {
+        const rule = anchorRecurrence({ frequency: 'yearly', interval: 1 }, at(2024, 2, 29));
+        expect(getNextOccurrenceDate(rule, at(2024, 2, 29))).toEqual(at(2025, 2, 28));
+    });
+});
+
+describe('getNextOccurrence', () => {
+    const datetime = at(2024, 3, 4).toISOString();
+
+    it('is null for a task that does not repeat', () => {
+        expect(getNextOccurrence({ datetime })).toBeNull();
+    });
+
+    it('ends the series after the last occurrence', () => {
+        const recurrence: RecurrenceRule = { frequency: 'daily', interval: 1, count: 3 };
+        expect(getNextOccurrence({ datetime, recurrence, occurrence: 2 })).toEqual(at(2024, 3, 5));
+        expect(getNextOccurrence({ datetime, recurrence, occurrence: 3 })).toBeNull();
+    });
+
+    it('includes the whole end date', () => {
+        const recurrence: RecurrenceRule = { frequency: 'daily', interval: 1, endDate: at(2024, 3, 5, 0).toISOString() };
+        expect(getNextOccurrence({ datetime, recurrence })).toEqual(at(2024, 3, 5));
+        expect(getNextOccurrence({ datetime: at(2024, 3, 5).toISOString(), recurrence })).toBeNull();
+    });
+});
+
+describe('describeRecurrence', () => {
+    it('describes the rule', () => {
+        expect(describeRecurrence({ frequency: 'weekly', interval: 2, weekdays: [1, 4], count: 10 }, at(2024, 3, 4)))
+            .toBe('Every 2 weeks on Mon, Thu, 10 times');
+        expect(describeRecurrence({ frequency: 'monthly', interval: 1, monthlyBy: 'weekday' }, at(2024, 3, 12)))
+            .toBe('Every month on the 2nd Tuesday');
+    });
+});
@@ -0,0 +1,40 @@
+import { useTaskStore } from '../store';
+import { useAuthStore } from '../authStore';
+
+// Task store for store-level tests: nothing is persisted, notifications are no-ops and the
+// server calls are jest.fn()s. Import this module before anything that imports the store
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+jest.mock('../taskDatabase', () => ({
+    createTaskStorage: () => ({ getItem: () => null, setItem: () => {}, removeItem: () => {} }),
+}));
+
+jest.mock('../notifications', () => ({
+    requestNotificationPermissions: jest.fn(async () => true),
+    scheduleTaskNotification: jest.fn(async () => null),
+    notifyTaskUnblocked: jest.fn(async () => {}),
+    cancelTaskNotification: jest.fn(async () => {}),
+    cancelAllTaskNotifications: jest.fn(async () => {}),
+    rescheduleAllTaskNotifications: jest.fn(async () => {}),
+}));
+
+// Server calls answer as an empty server that accepts everything; tests override them with mockResolvedValueOnce
+jest.mock('../sync', () => ({
+    ...jest.requireActual('../sync'),
+    syncPendingOperations: jest.fn(async (operations: { id: string }[]) =>
+        ({ completed: operations.map(op => op.id), retry: [], failed: [], conflicts: [] })),
+    fetchTasksFromServer: jest.fn(async () => []),
+    syncProjectsWithServer: jest.fn(async () => []),
+    syncCommentsWithServer: jest.fn(async () => []),
+    syncCustomFieldsWithServer: jest.fn(async () => []),
+}));
+
+/**
+ * Puts the store back to its initial state with the given values, signed in so that syncTasks runs
+ */
+export function resetTaskStore(state: Partial<ReturnType<typeof useTaskStore.getState>> = {}) {
+    useTaskStore.setState({ ...useTaskStore.getInitialState(), ...state }, true);
+    useAuthStore.setState({ token: 'token', user: { id: 'user-1', username: 'user' }, status: 'signedIn' });
+}
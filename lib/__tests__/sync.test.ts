@@ -0,0 +1,61 @@
+import { isRemoteNewer, mergeRemoteTasks } from '../sync';
+import { SyncOperation, Task } from '../types';
+import { createId, createTask } from './fixtures';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const updateOperation = (task: Task): SyncOperation => ({
+    id: createId('op'),
+    type: 'update',
+    taskId: task.id,
+    taskData: task,
+    baseRevision: task.revision,
+    timestamp: '2024-03-02T10:00:00.000Z',
+    retries: 0,
+});
+
+describe('isRemoteNewer', () => {
+    const task = createTask({ revision: 2, updatedAt: '2024-03-02T10:00:00.000Z' });
+
+    it('compares revisions first', () => {
+        expect(isRemoteNewer(task, { ...task, revision: 3, updatedAt: '2024-03-01T10:00:00.000Z' })).toBe(true);
+        expect(isRemoteNewer(task, { ...task, revision: 1, updatedAt: '2024-03-03T10:00:00.000Z' })).toBe(false);
+    });
+
+    it('decides a revision tie by the time of the last change', () => {
+        expect(isRemoteNewer(task, { ...task, updatedAt: '2024-03-02T11:00:00.000Z' })).toBe(true);
+        expect(isRemoteNewer(task, { ...task, updatedAt: '2024-03-02T09:00:00.000Z' })).toBe(false);
+        expect(isRemoteNewer(task, { ...task })).toBe(false);
+    });
+});
+
+describe('mergeRemoteTasks', () => {
+    const local = createTask({ revision: 1 });
+    const newer = { ...local, title: 'Buy oat milk', revision: 2 };
+
+    it('keeps a task with pending operations even if the server has a newer version', () => {
+        const result = mergeRemoteTasks([local], [newer], [updateOperation(local)], [local.id]);
+        expect(result.tasks).toEqual([local]);
+        expect(result.updated).toEqual([]);
+    });
+
+    it('takes a newer server version and adds tasks new on the server', () => {
+        const created = createTask({ revision: 1 });
+        const result = mergeRemoteTasks([local], [newer, created], [], [local.id]);
+        expect(result).toMatchObject({ tasks: [newer, created], updated: [newer], created: [created] });
+        expect(result.remoteTaskIds).toEqual([newer.id, created.id]);
+    });
+
+    it('deletes a known task that is gone from the server', () => {
+        const result = mergeRemoteTasks([local], [], [], [local.id]);
+        expect(result.tasks).toEqual([]);
+        expect(result.deleted).toEqual([local]);
+    });
+
+    it('keeps a local task the server never had', () => {
+        const result = mergeRemoteTasks([local], [], [], []);
+        expect(result.tasks).toEqual([local]);
+        expect(result.deleted).toEqual([]);
+    });
+});
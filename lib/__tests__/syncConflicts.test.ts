@@ -0,0 +1,64 @@
+import { resetTaskStore } from './storeSetup';
+import { useTaskStore } from '../store';
+import { fetchTasksFromServer, syncPendingOperations } from '../sync';
+import { SyncOperation, Task } from '../types';
+import { createId, createTask } from './fixtures';
+
+const updateOperation = (task: Task, baseRevision: number): SyncOperation => ({
+    id: createId('op'),
+    type: 'update',
+    taskId: task.id,
+    taskData: task,
+    baseRevision,
+    timestamp: '2024-03-02T10:00:00.000Z',
+    retries: 0,
+});
+
+// Local task edited against revision 1 while the server moved on to revision 2
+const syncAgainst = async (local: Task, remote: Task) => {
+    const operation = updateOperation(local, 1);
+    resetTaskStore({ tasks: [local], remoteTaskIds: [local.id], pendingSync: [operation] });
+    jest.mocked(syncPendingOperations).mockResolvedValueOnce({
+        completed: [],
+        retry: [],
+        failed: [],
+        conflicts: [{ operationId: operation.id, remoteTask: remote }],
+    });
+    jest.mocked(fetchTasksFromServer).mockResolvedValueOnce([remote]);
+    await useTaskStore.getState().syncTasks();
+    return useTaskStore.getState();
+};
+
+// syncTasks resets its status with a timer, fake timers keep it from holding jest open
+beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+});
+
+describe('rejected update', () => {
+    const task = createTask({ status: 'completed', revision: 2 });
+
+    it('takes the server version when no field differs', async () => {
+        const local = { ...task, archivedAt: '2024-03-02T09:00:00.000Z', updatedAt: '2024-03-02T09:00:00.000Z' };
+        const remote = { ...task, archivedAt: '2024-03-02T08:00:00.000Z', updatedAt: '2024-03-02T08:00:00.000Z' };
+        const state = await syncAgainst(local, remote);
+        expect(state.conflicts).toEqual([]);
+        expect(state.tasks).toEqual([remote]);
+        expect(state.pendingSync).toEqual([]);
+    });
+
+    it('keeps a conflict for the user when a field differs', async () => {
+        const local = { ...task, title: 'Buy oat milk', updatedAt: '2024-03-02T09:00:00.000Z' };
+        const remote = { ...task, title: 'Buy soy milk', updatedAt: '2024-03-02T08:00:00.000Z' };
+        const state = await syncAgainst(local, remote);
+        expect(state.conflicts).toEqual([expect.objectContaining({ taskId: task.id, localTask: local, remoteTask: remote })]);
+        expect(state.tasks).toEqual([local]);
+        expect(state.pendingSync).toEqual([]);
+    });
+});
@@ -0,0 +1,62 @@
+import { compactSyncQueue, enqueueSyncOperation } from '../syncQueue';
+import { SyncOperation, SyncOperationType } from '../types';
+import { createId, createTask } from './fixtures';
+
+// Operations get increasing timestamps, so a merged one shows which operation it took the data from
+let clock = Date.UTC(2024, 2, 1, 10);
+const op = (type: SyncOperationType, taskId: string, fields: Partial<SyncOperation> = {}): SyncOperation => {
+    const id = createId('op');
+    return {
+        id,
+        type,
+        taskId,
+        taskData: type === 'delete' ? undefined : createTask({ id: taskId, title: `${type} ${id}` }),
+        timestamp: new Date(clock += 1000).toISOString(),
+        retries: 0,
+        ...fields,
+    };
+};
+
+describe('enqueueSyncOperation', () => {
+    it('folds an update into a pending create', () => {
+        const create = op('create', 'a');
+        const update = op('update', 'a');
+        const queue = enqueueSyncOperation([create], update);
+        expect(queue).toEqual([{ ...create, taskData: update.taskData, timestamp: update.timestamp }]);
+    });
+
+    it('merges updates and keeps the revision of the first one', () => {
+        const first = op('update', 'a', { baseRevision: 3 });
+        const second = op('update', 'a', { baseRevision: 4 });
+        const queue = enqueueSyncOperation([first], second);
+        expect(queue).toEqual([{ ...first, taskData: second.taskData, timestamp: second.timestamp }]);
+        expect(queue[0]?.baseRevision).toBe(3);
+    });
+
+    it('drops a task that was created and deleted before it was sent', () => {
+        const other = op('update', 'b');
+        const queue = [op('create', 'a'), other, op('update', 'a')].reduce(enqueueSyncOperation, []);
+        expect(enqueueSyncOperation(queue, op('delete', 'a'))).toEqual([other]);
+    });
+
+    it('sends only the delete of a task with pending updates', () => {
+        const remove = op('delete', 'a');
+        expect(enqueueSyncOperation([op('update', 'a')], remove)).toEqual([remove]);
+    });
+
+    it('leaves operations of other tasks alone', () => {
+        const queue = [op('create', 'a'), op('update', 'b')];
+        const update = op('update', 'c');
+        expect(enqueueSyncOperation(queue, update)).toEqual([...queue, update]);
+    });
+});
+
+describe('compactSyncQueue', () => {
+    it('merges operations appended during a sync', () => {
+        const create = op('create', 'a');
+        const update = op('update', 'b', { baseRevision: 1 });
+        const queue = compactSyncQueue([create, update, op('update', 'a'), op('update', 'b', { baseRevision: 2 }), op('delete', 'a')]);
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ id: update.id, type: 'update', taskId: 'b', baseRevision: 1 });
+    });
+});
@@ -0,0 +1,259 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Positions, createTaskStorage, diffCollection, diffState } from '../taskDatabase';
+import { PersistedState } from '../migrations';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+// In-memory stand-in for expo-sqlite that understands the statements lib/taskDatabase.ts runs
+type Row = { collection: string; id: string; position: number; data: string };
+const mockTables = { tasks: new Map<string, Row>(), records: new Map<string, Row>(), meta: new Map<string, string>() };
+const mockExecuted: string[] = [];
+let mockFailOn: ((sql: string, params: unknown[]) => boolean) | null = null;
+
+const mockRun = (sql: string, params: any[]) => {
+    const { tasks, records, meta } = mockTables;
+    if (sql.startsWith('INSERT OR REPLACE INTO tasks')) {
+        tasks.set(params[0], { collection: 'tasks', id: params[0], position: params[1], data: params[5] });
+    } else if (sql.startsWith('INSERT OR REPLACE INTO records')) {
+        records.set(`${params[0]}/${params[1]}`, { collection: params[0], id: params[1], position: params[2], data: params[3] });
+    } else if (sql.startsWith('INSERT OR REPLACE INTO meta')) {
+        meta.set(params[0], params[1]);
+    } else if (sql.startsWith('UPDATE tasks')) {
+        tasks.get(params[1])!.position = params[0];
+    } else if (sql.startsWith('UPDATE records')) {
+        records.get(`${params[1]}/${params[2]}`)!.position = params[0];
+    } else if (sql === 'DELETE FROM tasks WHERE id = ?') {
+        tasks.delete(params[0]);
+    } else if (sql === 'DELETE FROM records WHERE collection = ? AND id = ?') {
+        records.delete(`${params[0]}/${params[1]}`);
+    } else if (sql === 'DELETE FROM meta WHERE key = ?') {
+        meta.delete(params[0]);
+    } else if (sql === 'DELETE FROM tasks' || sql === 'DELETE FROM records' || sql === 'DELETE FROM meta') {
+        mockTables[sql.slice('DELETE FROM '.length) as keyof typeof mockTables].clear();
+    } else {
+        throw new Error(`Unexpected statement: ${sql}`);
+    }
+};
+
+const mockDatabase = {
+    execAsync: async () => {},
+    getAllAsync: async (sql: string) => {
+        const byPosition = (a: Row, b: Row) => a.collection.localeCompare(b.collection) || a.position - b.position;
+        if (sql.startsWith('SELECT key, value FROM meta')) {
+            return [...mockTables.meta].map(([key, value]) => ({ key, value }));
+        }
+        if (sql.startsWith('SELECT id, position, data FROM tasks')) {
+            return [...mockTables.tasks.values()].sort(byPosition);
+        }
+        if (sql.startsWith('SELECT collection, id, position, data FROM records')) {
+            return [...mockTables.records.values()].sort(byPosition);
+        }
+        throw new Error(`Unexpected query: ${sql}`);
+    },
+    // Rolls the tables back when the callback throws, like a transaction
+    withExclusiveTransactionAsync: async (callback: (txn: unknown) => Promise<void>) => {
+        const snapshot = {
+            tasks: new Map([...mockTables.tasks].map(([key, row]) => [key, { ...row }])),
+            records: new Map([...mockTables.records].map(([key, row]) => [key, { ...row }])),
+            meta: new Map(mockTables.meta),
+        };
+        try {
+            await callback({
+                prepareAsync: async (sql: string) => ({
+                    executeAsync: async (params: unknown[]) => {
+                        if (mockFailOn?.(sql, params)) {
+                            throw new Error('disk I/O error');
+                        }
+                        mockRun(sql, params);
+                        mockExecuted.push(sql);
+                    },
+                    finalizeAsync: async () => {},
+                }),
+            });
+        } catch (error) {
+            Object.assign(mockTables, snapshot);
+            throw error;
+        }
+    },
+};
+
+jest.mock('expo-sqlite', () => ({
+    openDatabaseAsync: async () => mockDatabase,
+}));
+
+const NAME = 'tm:tasks:v2';
+
+const task = (id: string, title = `Task ${id}`) => ({ id, title, status: 'todo', datetime: '2024-03-01T09:00:00.000Z', createdAt: '2024-02-28T10:00:00.000Z' });
+const log = (id: string) => ({ id, type: 'created', taskId: 'a', details: id, timestamp: '2024-03-01T09:00:00.000Z' });
+
+// Positions of records as if they had been written in this order
+const written = (collection: string, records: object[], positions: Positions = new WeakMap()) => {
+    diffCollection(collection, [], records, positions);
+    return positions;
+};
+
+const storedTaskIds = () => [...mockTables.tasks.values()].sort((a, b) => a.position - b.position).map(row => row.id);
+
+beforeEach(async () => {
+    mockTables.tasks.clear();
+    mockTables.records.clear();
+    mockTables.meta.clear();
+    mockExecuted.length = 0;
+    mockFailOn = null;
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('diffCollection', () => {
+    it('inserts new records after the stored ones', () => {
+        const a = task('a');
+        const positions = written('tasks', [a]);
+        const writes = diffCollection('tasks', [a], [a, task('b')], positions);
+        expect(writes).toEqual([[expect.stringContaining('INSERT OR REPLACE INTO tasks'), expect.arrayContaining(['b', 1])]]);
+    });
+
+    it('writes nothing for unchanged records, copies included', () => {
+        const records = [task('a'), task('b')];
+        const positions = written('tasks', records);
+        expect(diffCollection('tasks', records, [...records], positions)).toEqual([]);
+        expect(diffCollection('tasks', records, records.map(record => ({ ...record })), positions)).toEqual([]);
+    });
+
+    it('rewrites an edited record in its place', () => {
+        const records = [task('a'), task('b')];
+        const positions = written('tasks', records);
+        const writes = diffCollection('tasks', records, [records[0], task('b', 'Renamed')], positions);
+        expect(writes).toHaveLength(1);
+        expect(writes[0]![1]).toEqual(expect.arrayContaining(['b', 1]));
+        expect(writes[0]![1]).toContainEqual(expect.stringContaining('Renamed'));
+    });
+
+    it('moves only the record that changed places', () => {
+        const [a, b, c] = [task('a'), task('b'), task('c')];
+        const positions = written('tasks', [a, b, c]);
+        expect(diffCollection('tasks', [a, b, c], [a, c, b], positions)).toEqual([['UPDATE tasks SET position = ? WHERE id = ?', [3, 'b']]]);
+    });
+
+    it('deletes removed records without moving the others', () => {
+        const [a, b, c] = [task('a'), task('b'), task('c')];
+        const positions = written('tasks', [a, b, c]);
+        expect(diffCollection('tasks', [a, b, c], [b, c], positions)).toEqual([['DELETE FROM tasks WHERE id = ?', ['a']]]);
+    });
+
+    it('appends a new action log entry, which the store adds to the top', () => {
+        const logs = [log('2'), log('1')];
+        const positions = written('actionLogs', logs);
+        const writes = diffCollection('actionLogs', logs, [log('3'), ...logs.slice(0, 1)], positions);
+        expect(writes).toEqual([
+            [expect.stringContaining('INSERT OR REPLACE INTO records'), ['actionLogs', '3', 2, expect.any(String)]],
+            ['DELETE FROM records WHERE collection = ? AND id = ?', ['actionLogs', '1']],
+        ]);
+    });
+});
+
+describe('diffState', () => {
+    it('writes changed values and deletes removed ones', () => {
+        const tasks = [task('a')];
+        const positions = written('tasks', tasks);
+        const writes = diffState({ tasks, sortOrder: 'title_asc', lastSyncedAt: 'x' }, { tasks, sortOrder: 'title_desc' }, positions);
+        expect(writes).toEqual([
+            ['INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', ['sortOrder', '"title_desc"']],
+            ['DELETE FROM meta WHERE key = ?', ['lastSyncedAt']],
+        ]);
+    });
+});
+
+describe('database storage', () => {
+    // Loads the stored state the way the persist middleware does on start
+    const load = async () => {
+        const storage = createTaskStorage<PersistedState>();
+        const value = await storage.getItem(NAME);
+        return { storage, value };
+    };
+
+    const save = (storage: ReturnType<typeof createTaskStorage<PersistedState>>, state: PersistedState) =>
+        storage.setItem(NAME, { state, version: 2 });
+
+    it('does not save before the stored tasks are loaded', async () => {
+        const { storage } = await load();
+        await save(storage, { tasks: [task('a')] });
+
+        const restarted = createTaskStorage<PersistedState>();
+        await save(restarted, { tasks: [] });
+        expect((await restarted.getItem(NAME))?.state.tasks).toEqual([task('a')]);
+        expect(storedTaskIds()).toEqual(['a']);
+    });
+
+    it('reads the database back after a failed save instead of clearing it', async () => {
+        const { storage } = await load();
+        const [a, b] = [task('a'), task('b')];
+        await save(storage, { tasks: [a] });
+        mockFailOn = sql => sql.startsWith('INSERT OR REPLACE INTO tasks');
+        await save(storage, { tasks: [a, b] });
+        expect(storedTaskIds()).toEqual(['a']);
+
+        mockFailOn = null;
+        mockExecuted.length = 0;
+        await save(storage, { tasks: [a, b, task('c')] });
+        expect(storedTaskIds()).toEqual(['a', 'b', 'c']);
+        expect(mockExecuted).not.toContain('DELETE FROM tasks');
+    });
+
+    it('keeps the order of the action log across restarts', async () => {
+        const { storage } = await load();
+        const logs = [log('1')];
+        await save(storage, { actionLogs: logs });
+        mockExecuted.length = 0;
+        await save(storage, { actionLogs: [log('2'), ...logs] });
+        expect(mockExecuted).toEqual(['INSERT OR REPLACE INTO records (collection, id, position, data) VALUES (?, ?, ?, ?)']);
+
+        const { value } = await load();
+        expect((value?.state.actionLogs as { id: string }[]).map(entry => entry.id)).toEqual(['2', '1']);
+    });
+
+    describe('import of the AsyncStorage blob', () => {
+        beforeEach(async () => {
+            await AsyncStorage.setItem(NAME, JSON.stringify({ state: { tasks: [task('a'), task('b')], sortOrder: 'title_asc' }, version: 1 }));
+        });
+
+        it('imports the records and the version, then removes the blob', async () => {
+            const { value } = await load();
+            expect(value).toEqual({ state: { tasks: [task('a'), task('b')], sortOrder: 'title_asc' }, version: 1 });
+            expect(storedTaskIds()).toEqual(['a', 'b']);
+            expect(mockTables.meta.get('@version')).toBe('1');
+            expect(await AsyncStorage.getItem(NAME)).toBeNull();
+        });
+
+        it('leaves nothing behind when the records cannot be written', async () => {
+            mockFailOn = (sql, params) => sql.startsWith('INSERT OR REPLACE INTO tasks') && params[0] === 'b';
+            await expect(load()).rejects.toThrow('disk I/O error');
+            expect(storedTaskIds()).toEqual([]);
+            expect(mockTables.meta.size).toBe(0);
+            expect(await AsyncStorage.getItem(NAME)).not.toBeNull();
+        });
+
+        it('does not save until an import succeeds', async () => {
+            mockFailOn = (sql, params) => sql.startsWith('INSERT OR REPLACE INTO meta') && params[0] === '@version';
+            const storage = createTaskStorage<PersistedState>();
+            await expect(storage.getItem(NAME)).rejects.toThrow('disk I/O error');
+            expect(mockTables.meta.has('@version')).toBe(false);
+
+            mockFailOn = null;
+            await save(storage, { tasks: [] });
+            expect(storedTaskIds()).toEqual(['a', 'b']);
+            expect(mockTables.meta.has('@version')).toBe(false);
+
+            expect((await storage.getItem(NAME))?.version).toBe(1);
+            expect(mockTables.meta.get('@version')).toBe('1');
+            expect(await AsyncStorage.getItem(NAME)).toBeNull();
+            await save(storage, { tasks: [task('b')], sortOrder: 'title_asc' });
+            expect(storedTaskIds()).toEqual(['b']);
+        });
+    });
+});
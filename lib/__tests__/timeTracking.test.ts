@@ -0,0 +1,55 @@
+import { buildTimeReport, formatDuration, getTrackedTime, timeReportToCsv, validateTimeEntry } from '../timeTracking';
+import { INBOX_NAME } from '../projects';
+import { Task, TimeEntry } from '../types';
+import { createTask, createTimeEntry as entry, workProject as project } from './fixtures';
+
+const HOUR = 60 * 60 * 1000;
+
+// Local dates, so the days of the report are the same in any time zone
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 2, day, hours, minutes);
+
+const task = (timeEntries: TimeEntry[], projectId?: string): Task => createTask({ projectId, timeEntries });
+
+describe('buildTimeReport', () => {
+    it('splits an entry that crosses midnight between the days', () => {
+        const tasks = [task([entry(at(4, 22), at(5, 1, 30))], 'work')];
+        const report = buildTimeReport(tasks, [project], at(1, 0), at(8, 0), at(8, 0));
+        expect(report.days.map(day => [day.date, day.total])).toEqual([
+            ['2024-03-05', 1.5 * HOUR],
+            ['2024-03-04', 2 * HOUR],
+        ]);
+        expect(report.days[0]?.projects).toEqual([{ projectId: 'work', name: 'Work', color: project.color, duration: 1.5 * HOUR }]);
+        expect(report.total).toBe(3.5 * HOUR);
+    });
+
+    it('counts only the part inside the range, running entries up to now', () => {
+        const tasks = [task([entry(at(3, 23), at(4, 2)), entry(at(5, 10))])];
+        const report = buildTimeReport(tasks, [], at(4, 0), at(6, 0), at(5, 11));
+        expect(report.days.map(day => [day.date, day.total])).toEqual([
+            ['2024-03-05', HOUR],
+            ['2024-03-04', 2 * HOUR],
+        ]);
+        expect(report.days[1]?.projects[0]?.name).toBe(INBOX_NAME);
+    });
+
+    it('lists the projects of a day longest first', () => {
+        const tasks = [task([entry(at(4, 9), at(4, 10))]), task([entry(at(4, 10), at(4, 13))], 'work')];
+        const [day] = buildTimeReport(tasks, [project], at(4, 0), at(5, 0), at(5, 0)).days;
+        expect(day?.projects.map(row => row.projectId)).toEqual(['work', null]);
+        expect(timeReportToCsv({ days: [day!], total: day!.total })).toBe('Date,Project,Minutes,Hours\n2024-03-04,Work,180,3.00\n2024-03-04,Inbox,60,1.00\n');
+    });
+});
+
+describe('time entries', () => {
+    it('adds up tracked time, a running entry up to now', () => {
+        const tracked = getTrackedTime(task([entry(at(4, 9), at(4, 9, 45)), entry(at(4, 10))]), at(4, 11, 20).getTime());
+        expect(formatDuration(tracked)).toBe('2h 05m');
+    });
+
+    it('rejects entries that end before they start or lie in the future', () => {
+        const now = at(4, 12).getTime();
+        expect(validateTimeEntry(entry(at(4, 10), at(4, 9)), now)).toBe('End time must be after the start time');
+        expect(validateTimeEntry(entry(at(4, 13)), now)).toBe("Start time can't be in the future");
+        expect(validateTimeEntry(entry(at(4, 10), at(4, 11)), now)).toBeNull();
+    });
+});
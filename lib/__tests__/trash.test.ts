@@ -0,0 +1,20 @@
+import { getExpiredTrash } from '../trash';
+import { createTask } from './fixtures';
+
+const deletedAt = '2024-03-01T10:00:00.000Z';
+const trashed = createTask({ deletedAt });
+
+describe('getExpiredTrash', () => {
+    it('keeps the Trash forever when the retention is off', () => {
+        expect(getExpiredTrash([trashed], 0, new Date('2030-01-01T00:00:00.000Z'))).toEqual([]);
+    });
+
+    it('deletes a task exactly when the retention period ends', () => {
+        expect(getExpiredTrash([trashed], 7, new Date('2024-03-08T09:59:59.999Z'))).toEqual([]);
+        expect(getExpiredTrash([trashed], 7, new Date('2024-03-08T10:00:00.000Z'))).toEqual([trashed]);
+    });
+
+    it('ignores tasks outside the Trash', () => {
+        expect(getExpiredTrash([createTask()], 7, new Date('2030-01-01T00:00:00.000Z'))).toEqual([]);
+    });
+});
@@ -0,0 +1,130 @@
+import { resetTaskStore } from './storeSetup';
+import { useTaskStore } from '../store';
+import { fetchTasksFromServer } from '../sync';
+import { Task } from '../types';
+import { createTask } from './fixtures';
+
+const store = () => useTaskStore.getState();
+
+// The server answers the pull with the tasks as they are after the push
+const sync = async () => {
+    jest.mocked(fetchTasksFromServer).mockImplementationOnce(async () => store().tasks);
+    await store().syncTasks();
+};
+
+const serverTask = (fields: Partial<Task> = {}) => {
+    const task = createTask({ revision: 1, updatedAt: '2024-02-28T10:00:00.000Z', ...fields });
+    resetTaskStore({ tasks: [task], remoteTaskIds: [task.id] });
+    return task;
+};
+
+const addTask = () => {
+    resetTaskStore();
+    const { id: _id, createdAt: _createdAt, status: _status, ...data } = createTask();
+    store().addTask(data);
+    return store().tasks[0]!;
+};
+
+// syncTasks resets its status with a timer, fake timers keep it from holding jest open
+beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+});
+
+describe('undo before a sync', () => {
+    it('removes an added task with its create and brings both back on redo', () => {
+        const task = addTask();
+        const queue = store().pendingSync;
+        expect(queue).toEqual([expect.objectContaining({ type: 'create', taskId: task.id })]);
+
+        store().undo();
+        expect(store().tasks).toEqual([]);
+        expect(store().pendingSync).toEqual([]);
+
+        store().redo();
+        expect(store().tasks).toEqual([task]);
+        expect(store().pendingSync).toEqual(queue);
+    });
+
+    it('takes a task out of the Trash and drops the queued update', () => {
+        const task = serverTask();
+        store().deleteTask(task.id);
+        const [deleted] = store().tasks;
+        const queue = store().pendingSync;
+
+        store().undo();
+        expect(store().tasks).toEqual([task]);
+        expect(store().pendingSync).toEqual([]);
+
+        store().redo();
+        expect(store().tasks).toEqual([deleted]);
+        expect(store().pendingSync).toEqual(queue);
+    });
+
+    it('reopens a repeating task and removes the next occurrence', () => {
+        const task = serverTask({ recurrence: { frequency: 'daily', interval: 1 } });
+        store().setStatus(task.id, 'completed');
+        const completed = store().tasks;
+        const queue = store().pendingSync;
+        expect(completed).toHaveLength(2);
+        expect(queue.map(op => op.type)).toEqual(['update', 'create']);
+
+        store().undo();
+        expect(store().tasks).toEqual([task]);
+        expect(store().pendingSync).toEqual([]);
+
+        store().redo();
+        expect(store().tasks).toEqual(completed);
+        expect(store().pendingSync).toEqual(queue);
+    });
+});
+
+describe('undo after a sync', () => {
+    it('deletes a synced added task on the server and creates it again on redo', async () => {
+        const task = addTask();
+        await sync();
+        expect(store().remoteTaskIds).toEqual([task.id]);
+
+        store().undo();
+        expect(store().tasks).toEqual([]);
+        expect(store().pendingSync).toEqual([expect.objectContaining({ type: 'delete', taskId: task.id })]);
+        await sync();
+        expect(store().remoteTaskIds).toEqual([]);
+
+        store().redo();
+        expect(store().tasks).toEqual([task]);
+        expect(store().pendingSync).toEqual([expect.objectContaining({ type: 'create', taskId: task.id, taskData: task })]);
+    });
+
+    it('sends the restored task as an update based on the server revision', async () => {
+        const task = serverTask();
+        store().deleteTask(task.id);
+        await sync();
+
+        store().undo();
+        const [restored] = store().tasks;
+        expect(restored).toMatchObject({ id: task.id, revision: 3 });
+        expect(restored?.deletedAt).toBeUndefined();
+        expect(store().pendingSync).toEqual([expect.objectContaining({ type: 'update', baseRevision: 2, taskData: restored })]);
+
+        store().redo();
+        expect(store().tasks[0]?.deletedAt).toBeDefined();
+        expect(store().pendingSync).toEqual([expect.objectContaining({ type: 'update', baseRevision: 2 })]);
+    });
+
+    it('reopens a synced repeating task and deletes the next occurrence on the server', async () => {
+        const task = serverTask({ recurrence: { frequency: 'daily', interval: 1 } });
+        store().setStatus(task.id, 'completed');
+        const next = store().tasks[1]!;
+        await sync();
+
+        store().undo();
+        expect(store().tasks).toEqual([expect.objectContaining({ id: task.id, status: 'todo', revision: 3 })]);
+        expect(store().pendingSync.map(op => [op.type, op.taskId])).toEqual([['update', task.id], ['delete', next.id]]);
+    });
+});
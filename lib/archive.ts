@@ -0,0 +1,51 @@
+import { Task } from './types';
+import { isTrashed } from './trash';
+
+// Days after completion before a finished task is archived automatically, 0 = off
+export const AUTO_ARCHIVE_OPTIONS = [0, 1, 7, 30] as const;
+export const DEFAULT_AUTO_ARCHIVE_DAYS = 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isArchived = (task: Pick<Task, 'archivedAt'>) => !!task.archivedAt;
+
+const isFinished = (task: Pick<Task, 'status'>) => task.status === 'completed' || task.status === 'cancelled';
+
+/**
+ * Tasks of the main list: neither archived nor in the Trash
+ */
+export const getListedTasks = (tasks: Task[]) => tasks.filter(task => !isArchived(task) && !isTrashed(task));
+
+/**
+ * Archived tasks outside the Trash, the most recently archived first
+ */
+export function getArchivedTasks(tasks: Task[]): Task[] {
+    return tasks
+        .filter(task => isArchived(task) && !isTrashed(task))
+        .sort((a, b) => (b.archivedAt ?? '').localeCompare(a.archivedAt ?? ''));
+}
+
+/**
+ * When a finished task was completed or cancelled. Tasks finished before completedAt
+ * was recorded fall back to their last modification
+ */
+export const getFinishedAt = (task: Pick<Task, 'completedAt' | 'updatedAt' | 'createdAt'>) =>
+    new Date(task.completedAt ?? task.updatedAt ?? task.createdAt);
+
+/**
+ * Finished tasks that were completed or cancelled at least `days` ago and aren't archived yet
+ */
+export function getTasksToArchive(tasks: Task[], days: number, now = new Date()): Task[] {
+    if (days <= 0) {
+        return [];
+    }
+    return getListedTasks(tasks).filter(task =>
+        isFinished(task) && getFinishedAt(task).getTime() + days * DAY_MS <= now.getTime());
+}
+
+export function describeAutoArchive(days: number): string {
+    if (days <= 0) {
+        return 'Off';
+    }
+    return days === 1 ? '1 day' : `${days} days`;
+}
@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type AuthUser = {
+  id: string;
+  username: string;
+};
+
+// loading - session is being restored from secure storage on app start
+// expired - the server rejected the token (401), sync is paused until the user signs in again
+export type AuthStatus = 'loading' | 'signedOut' | 'signedIn' | 'expired';
+
+type AuthState = {
+  token: string | null;
+  user: AuthUser | null;
+  status: AuthStatus;
+  restoreSession: () => Promise<void>;
+  setSession: (token: string, user: AuthUser) => Promise<void>;
+  expireSession: () => Promise<void>;
+  signOut: () => Promise<void>;
+};
+
+const TOKEN_KEY = 'tm.auth.token';
+const USER_KEY = 'tm.auth.user';
+
+// SecureStore (Keychain / Keystore) is not available on web, fall back to AsyncStorage there
+const secureStorage = {
+  getItem: (key: string) =>
+    Platform.OS === 'web' ? AsyncStorage.getItem(key) : SecureStore.getItemAsync(key),
+  setItem: (key: string, value: string) =>
+    Platform.OS === 'web' ? AsyncStorage.setItem(key, value) : SecureStore.setItemAsync(key, value),
+  removeItem: (key: string) =>
+    Platform.OS === 'web' ? AsyncStorage.removeItem(key) : SecureStore.deleteItemAsync(key),
+};
+
+export const useAuthStore = create<AuthState>()((set) => ({
+  token: null,
+  user: null,
+  status: 'loading',
+  restoreSession: async () => {
+    try {
+      const [token, userJson] = await Promise.all([
+        secureStorage.getItem(TOKEN_KEY),
+        secureStorage.getItem(USER_KEY),
+      ]);
+      const user: AuthUser | null = userJson ? JSON.parse(userJson) : null;
+      set({ token, user, status: token ? 'signedIn' : user ? 'expired' : 'signedOut' });
+    } catch (error) {
+      console.error('Failed to restore auth session:', error);
+      set({ token: null, user: null, status: 'signedOut' });
+    }
+  },
+  setSession: async (token, user) => {
+    set({ token, user, status: 'signedIn' });
+    await Promise.all([
+      secureStorage.setItem(TOKEN_KEY, token),
+      secureStorage.setItem(USER_KEY, JSON.stringify(user)),
+    ]);
+  },
+  // Keeps the user so the login screen can offer to sign in to the same account
+  expireSession: async () => {
+    set({ token: null, status: 'expired' });
+    await secureStorage.removeItem(TOKEN_KEY);
+  },
+  signOut: async () => {
+    set({ token: null, user: null, status: 'signedOut' });
+    await Promise.all([
+      secureStorage.removeItem(TOKEN_KEY),
+      secureStorage.removeItem(USER_KEY),
+    ]);
+  },
+}));
@@ -0,0 +1,35 @@
+import { ChecklistItem, Task } from './types';
+
+export const MAX_CHECKLIST_ITEM_LENGTH = 120;
+
+export type ChecklistProgress = {
+    done: number;
+    total: number;
+};
+
+export function getChecklistProgress(task: Pick<Task, 'checklist'>): ChecklistProgress {
+    const items = task.checklist ?? [];
+    return {
+        done: items.filter(item => item.done).length,
+        total: items.length,
+    };
+}
+
+export const isChecklistComplete = (task: Pick<Task, 'checklist'>) => {
+    const { done, total } = getChecklistProgress(task);
+    return total > 0 && done === total;
+};
+
+/**
+ * Moves an item one position up or down, returns the list unchanged at the edges
+ */
+export function moveChecklistItem(items: ChecklistItem[], itemId: string, direction: 'up' | 'down'): ChecklistItem[] {
+    const index = items.findIndex(item => item.id === itemId);
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (index === -1 || target < 0 || target >= items.length) {
+        return items;
+    }
+    const result = [...items];
+    [result[index], result[target]] = [result[target]!, result[index]!];
+    return result;
+}
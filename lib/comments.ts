@@ -0,0 +1,37 @@
+import { ActionLog, TaskComment } from './types';
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+// Entry of the activity thread on the task details screen
+export type TimelineItem =
+    | { kind: 'comment'; comment: TaskComment; timestamp: string }
+    | { kind: 'log'; log: ActionLog; timestamp: string };
+
+/**
+ * Comments of a task that are not deleted, oldest first
+ */
+export function getTaskComments(comments: TaskComment[], taskId: string): TaskComment[] {
+    return comments
+        .filter(comment => comment.taskId === taskId && !comment.deleted)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export const isCommentEdited = (comment: TaskComment) => comment.updatedAt !== comment.createdAt;
+
+/**
+ * Only the author edits and deletes a comment. Comments written before the first
+ * sign in belong to whoever uses the device
+ */
+export const canEditComment = (comment: TaskComment, userId: string | null) =>
+    !comment.authorId || comment.authorId === userId;
+
+/**
+ * Comments and action log entries of a task in one chronological thread, oldest first
+ */
+export function buildTaskTimeline(comments: TaskComment[], logs: ActionLog[], taskId: string): TimelineItem[] {
+    const items: TimelineItem[] = [
+        ...getTaskComments(comments, taskId).map(comment => ({ kind: 'comment' as const, comment, timestamp: comment.createdAt })),
+        ...logs.filter(log => log.taskId === taskId).map(log => ({ kind: 'log' as const, log, timestamp: log.timestamp })),
+    ];
+    return items.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
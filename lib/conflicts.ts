@@ -0,0 +1,161 @@
+import { CustomFieldDefinition, Project, Task } from './types';
+import { getTaskPriority, priorityLabels } from './priority';
+import { statusLabels } from './status';
+import { describeRecurrence } from './recurrence';
+import { getProjectName } from './projects';
+import { formatDuration, getTrackedTime } from './timeTracking';
+import { formatEstimate } from './estimates';
+import { describeCustomFields } from './customFields';
+
+export type ConflictField = 'title' | 'description' | 'datetime' | 'location' | 'coordinates' | 'status' | 'projectId' | 'priority' | 'tags' | 'checklist' | 'blockedBy' | 'recurrence' | 'estimateMinutes' | 'timeEntries' | 'customFields' | 'attachments' | 'archivedAt' | 'deletedAt';
+
+export type ConflictSide = 'local' | 'remote';
+
+export const CONFLICT_FIELDS: { key: ConflictField; label: string }[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'datetime', label: 'Due Date & Time' },
+    { key: 'location', label: 'Location' },
+    { key: 'coordinates', label: 'Coordinates' },
+    { key: 'status', label: 'Status' },
+    { key: 'projectId', label: 'Project' },
+    { key: 'priority', label: 'Priority' },
+    { key: 'tags', label: 'Tags' },
+    { key: 'checklist', label: 'Checklist' },
+    { key: 'blockedBy', label: 'Blocked By' },
+    { key: 'recurrence', label: 'Repeat' },
+    { key: 'estimateMinutes', label: 'Estimate' },
+    { key: 'timeEntries', label: 'Time Tracked' },
+    { key: 'customFields', label: 'Custom Fields' },
+    { key: 'attachments', label: 'Attachments' },
+    { key: 'archivedAt', label: 'Archive' },
+    { key: 'deletedAt', label: 'Trash' },
+];
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Missing priority, tags, checklist, blockers, time entries and custom fields (tasks from older versions) mean the same as their empty values
+const getComparableValue = (task: Task, field: ConflictField): unknown => {
+    switch (field) {
+        case 'priority':
+            return getTaskPriority(task);
+        case 'tags':
+            return task.tags ?? [];
+        case 'checklist':
+            return task.checklist ?? [];
+        case 'blockedBy':
+            return task.blockedBy ?? [];
+        case 'timeEntries':
+            return task.timeEntries ?? [];
+        case 'customFields':
+            // Compared by content, the order of the keys doesn't matter
+            return Object.entries(task.customFields ?? {}).sort(([a], [b]) => a.localeCompare(b));
+        case 'archivedAt':
+        case 'deletedAt':
+            // Archived or trashed on both devices counts as the same, whenever it happened
+            return !!task[field];
+        default:
+            return task[field];
+    }
+};
+
+/**
+ * Returns the fields whose values differ between the local and the server version
+ */
+export function getConflictingFields(local: Task, remote: Task): ConflictField[] {
+    return CONFLICT_FIELDS
+        .map(field => field.key)
+        .filter(key => !isSameValue(getComparableValue(local, key), getComparableValue(remote, key)));
+}
+
+/**
+ * Human readable value of a task field for the conflict screen
+ */
+export function formatConflictValue(
+    task: Task,
+    field: ConflictField,
+    projects: Project[] = [],
+    fieldDefinitions: CustomFieldDefinition[] = [],
+): string {
+    switch (field) {
+        case 'datetime':
+            return new Date(task.datetime).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+            });
+        case 'status':
+            return statusLabels[task.status] || task.status;
+        case 'projectId':
+            return getProjectName(task, projects);
+        case 'priority':
+            return priorityLabels[getTaskPriority(task)];
+        case 'tags':
+            return task.tags && task.tags.length > 0 ? task.tags.join(', ') : '—';
+        case 'checklist': {
+            const items = task.checklist ?? [];
+            if (items.length === 0) {
+                return '—';
+            }
+            const done = items.filter(item => item.done).length;
+            return `${done}/${items.length}: ${items.map(item => (item.done ? '✓ ' : '') + item.title).join(', ')}`;
+        }
+        case 'blockedBy': {
+            const count = task.blockedBy?.length ?? 0;
+            return count > 0 ? `${count} task${count !== 1 ? 's' : ''}` : '—';
+        }
+        case 'recurrence':
+            return task.recurrence ? describeRecurrence(task.recurrence, new Date(task.datetime)) : '—';
+        case 'estimateMinutes':
+            return task.estimateMinutes ? formatEstimate(task.estimateMinutes) : '—';
+        case 'timeEntries': {
+            const count = task.timeEntries?.length ?? 0;
+            return count > 0
+                ? `${formatDuration(getTrackedTime(task))} in ${count} entr${count !== 1 ? 'ies' : 'y'}`
+                : '—';
+        }
+        case 'customFields':
+            return describeCustomFields(task, fieldDefinitions) || '—';
+        case 'coordinates':
+            return task.coordinates
+                ? `${task.coordinates.latitude.toFixed(6)}, ${task.coordinates.longitude.toFixed(6)}`
+                : '—';
+        case 'attachments':
+            return task.attachments && task.attachments.length > 0
+                ? task.attachments.map(attachment => attachment.name).join(', ')
+                : '—';
+        case 'archivedAt':
+            return task.archivedAt
+                ? `Archived ${new Date(task.archivedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                : 'Not archived';
+        case 'deletedAt':
+            return task.deletedAt
+                ? `In Trash since ${new Date(task.deletedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                : 'Not deleted';
+        default:
+            return task[field] || '—';
+    }
+}
+
+/**
+ * Builds the resolved task: server version as the base, with the fields
+ * the user picked from the local version copied over
+ */
+export function mergeConflict(local: Task, remote: Task, choices: Partial<Record<ConflictField, ConflictSide>>): Task {
+    const merged: Task = { ...remote };
+    for (const { key } of CONFLICT_FIELDS) {
+        if (choices[key] === 'local') {
+            (merged as Record<ConflictField, unknown>)[key] = local[key];
+        }
+    }
+    return merged;
+}
+
+/**
+ * true if the resolved task differs from the server version and has to be pushed
+ */
+export function hasLocalChanges(resolved: Task, remote: Task): boolean {
+    return getConflictingFields(resolved, remote).length > 0;
+}
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, Task } from './types';
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'boolean', 'select'] as const;
+
+export const MAX_CUSTOM_FIELD_NAME_LENGTH = 40;
+export const MAX_CUSTOM_FIELD_OPTIONS = 20;
+export const MAX_CUSTOM_FIELD_TEXT_LENGTH = 200;
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+    text: 'Text',
+    number: 'Number',
+    date: 'Date',
+    boolean: 'Yes / No',
+    select: 'Choice',
+};
+
+export const customFieldTypeIcons: Record<CustomFieldType, string> = {
+    text: 'form-textbox',
+    number: 'numeric',
+    date: 'calendar',
+    boolean: 'toggle-switch-outline',
+    select: 'format-list-bulleted',
+};
+
+// Values as the task form holds them: numbers are typed as text, unset dates and choices are null
+export type CustomFieldFormValue = string | boolean | null;
+export type CustomFieldFormValues = Record<string, CustomFieldFormValue>;
+
+// Home screen filter by a custom field; value null matches any task that has the field set
+export type CustomFieldFilter = {
+    fieldId: string;
+    value: string | boolean | null;
+};
+
+/**
+ * Field definitions that are not deleted, in the order they were created
+ */
+export function getActiveFieldDefinitions(definitions: CustomFieldDefinition[]): CustomFieldDefinition[] {
+    return definitions
+        .filter(definition => !definition.deleted)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export const getCustomFieldValue = (task: Pick<Task, 'customFields'>, fieldId: string): CustomFieldValue | undefined =>
+    task.customFields?.[fieldId];
+
+export function formatCustomFieldValue(value: CustomFieldValue | undefined, definition: CustomFieldDefinition): string {
+    if (value === undefined) {
+        return '—';
+    }
+    switch (definition.type) {
+        case 'boolean':
+            return value ? 'Yes' : 'No';
+        case 'date':
+            return new Date(String(value)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * Cleans up a definition entered by the user: trimmed name, unique non-empty options
+ */
+export function normalizeFieldDefinition<T extends Pick<CustomFieldDefinition, 'name' | 'type' | 'options'>>(definition: T): T {
+    const options = definition.type === 'select'
+        ? [...new Set((definition.options ?? []).map(option => option.trim()).filter(Boolean))].slice(0, MAX_CUSTOM_FIELD_OPTIONS)
+        : undefined;
+    return { ...definition, name: definition.name.trim().slice(0, MAX_CUSTOM_FIELD_NAME_LENGTH), options };
+}
+
+/**
+ * Form values of the given fields for a task (or a new task when values are missing)
+ */
+export function toFormValues(definitions: CustomFieldDefinition[], values?: Record<string, CustomFieldValue>): CustomFieldFormValues {
+    const formValues: CustomFieldFormValues = {};
+    for (const definition of definitions) {
+        const value = values?.[definition.id];
+        switch (definition.type) {
+            case 'boolean':
+                formValues[definition.id] = value === true;
+                break;
+            case 'text':
+            case 'number':
+                formValues[definition.id] = value === undefined ? '' : String(value);
+                break;
+            case 'select':
+                // A choice that was removed from the options has to be picked again
+                formValues[definition.id] = typeof value === 'string' && definition.options?.includes(value) ? value : null;
+                break;
+            default:
+                formValues[definition.id] = value === undefined ? null : String(value);
+        }
+    }
+    return formValues;
+}
+
+/**
+ * Task values from the form. Values of fields this device doesn't know (deleted, or
+ * created on another device and not synced yet) are kept from `previous`
+ */
+export function fromFormValues(
+    definitions: CustomFieldDefinition[],
+    formValues: CustomFieldFormValues,
+    previous?: Record<string, CustomFieldValue>,
+): Record<string, CustomFieldValue> | undefined {
+    const values: Record<string, CustomFieldValue> = {};
+    for (const [fieldId, value] of Object.entries(previous ?? {})) {
+        if (!definitions.some(definition => definition.id === fieldId)) {
+            values[fieldId] = value;
+        }
+    }
+    for (const definition of definitions) {
+        const value = formValues[definition.id];
+        if (value === null || value === undefined || value === '') {
+            continue;
+        }
+        if (definition.type === 'number') {
+            values[definition.id] = Number(value);
+        } else if (definition.type === 'text' && typeof value === 'string') {
+            values[definition.id] = value.trim();
+        } else {
+            values[definition.id] = value;
+        }
+    }
+    return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * zod schema of the form value of a field
+ */
+export function getCustomFieldSchema(definition: CustomFieldDefinition): z.ZodType<CustomFieldFormValue> {
+    const required = `${definition.name} is required`;
+    switch (definition.type) {
+        case 'text': {
+            const schema = z.string().max(MAX_CUSTOM_FIELD_TEXT_LENGTH, `${definition.name} must be ${MAX_CUSTOM_FIELD_TEXT_LENGTH} characters or less`);
+            return definition.required ? schema.refine(value => value.trim().length > 0, required) : schema;
+        }
+        case 'number': {
+            const schema = z.string().refine(value => value.trim() === '' || Number.isFinite(Number(value)), `${definition.name} must be a number`);
+            return definition.required ? schema.refine(value => value.trim().length > 0, required) : schema;
+        }
+        case 'boolean':
+            return z.boolean();
+        case 'date':
+            return definition.required ? z.string({ invalid_type_error: required }) : z.string().nullable();
+        case 'select': {
+            const schema = z.string({ invalid_type_error: required })
+                .refine(value => (definition.options ?? []).includes(value), `Pick one of the ${definition.name} options`);
+            return definition.required ? schema : schema.nullable();
+        }
+    }
+}
+
+/**
+ * Validation of the custom fields in the task form, generated from the field definitions.
+ * Meant for `taskSchema.superRefine`, errors land on `customFields.<field id>`
+ */
+export function validateCustomFields(definitions: CustomFieldDefinition[]) {
+    return (data: { customFields: CustomFieldFormValues }, ctx: z.RefinementCtx) => {
+        for (const definition of definitions) {
+            const result = getCustomFieldSchema(definition).safeParse(data.customFields[definition.id] ?? null);
+            if (!result.success) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ['customFields', definition.id],
+                    message: result.error.issues[0]?.message ?? 'Invalid value',
+                });
+            }
+        }
+    };
+}
+
+/**
+ * Order of two tasks by a field: numbers and dates ascending, text alphabetically,
+ * "Yes" before "No". Tasks without the value go last
+ */
+export function compareByCustomField(a: Task, b: Task, definition: CustomFieldDefinition): number {
+    const valueA = getCustomFieldValue(a, definition.id);
+    const valueB = getCustomFieldValue(b, definition.id);
+    if (valueA === undefined || valueB === undefined) {
+        return valueA === valueB ? 0 : valueA === undefined ? 1 : -1;
+    }
+    switch (definition.type) {
+        case 'number':
+            return Number(valueA) - Number(valueB);
+        case 'boolean':
+            return Number(valueB) - Number(valueA);
+        default:
+            return String(valueA).localeCompare(String(valueB));
+    }
+}
+
+export function matchesCustomFieldFilter(task: Task, filter: CustomFieldFilter): boolean {
+    const value = getCustomFieldValue(task, filter.fieldId);
+    if (filter.value === null) {
+        return value !== undefined;
+    }
+    // A boolean field that was never set counts as "No"
+    if (typeof filter.value === 'boolean') {
+        return (value === true) === filter.value;
+    }
+    return value === filter.value;
+}
+
+/**
+ * Filters offered for a field: "Yes"/"No", each option of a choice, or "has a value"
+ */
+export function getFieldFilterOptions(definition: CustomFieldDefinition): CustomFieldFilter[] {
+    switch (definition.type) {
+        case 'boolean':
+            return [true, false].map(value => ({ fieldId: definition.id, value }));
+        case 'select':
+            return (definition.options ?? []).map(value => ({ fieldId: definition.id, value }));
+        default:
+            return [{ fieldId: definition.id, value: null }];
+    }
+}
+
+export function describeCustomFieldFilter(filter: CustomFieldFilter, definition: CustomFieldDefinition): string {
+    if (filter.value === null) {
+        return `${definition.name}: any`;
+    }
+    if (typeof filter.value === 'boolean') {
+        return `${definition.name}: ${filter.value ? 'Yes' : 'No'}`;
+    }
+    return `${definition.name}: ${filter.value}`;
+}
+
+/**
+ * "Customer ID: 42, Paid: Yes" for the history and the conflict screen
+ */
+export function describeCustomFields(task: Pick<Task, 'customFields'>, definitions: CustomFieldDefinition[]): string {
+    return getActiveFieldDefinitions(definitions)
+        .filter(definition => getCustomFieldValue(task, definition.id) !== undefined)
+        .map(definition => `${definition.name}: ${formatCustomFieldValue(getCustomFieldValue(task, definition.id), definition)}`)
+        .join(', ');
+}
@@ -0,0 +1,74 @@
+import { Task, TaskStatus } from './types';
+import { isTrashed } from './trash';
+
+// A finished blocker (completed or cancelled) no longer blocks anything
+const isFinished = (task: Task) => task.status === 'completed' || task.status === 'cancelled';
+
+/**
+ * Tasks from blockedBy that still exist and are not in the Trash, in the order they were added
+ */
+export function getBlockerTasks(task: Pick<Task, 'blockedBy'>, tasks: Task[]): Task[] {
+    return (task.blockedBy ?? [])
+        .map(id => tasks.find(t => t.id === id))
+        .filter((t): t is Task => t !== undefined && !isTrashed(t));
+}
+
+/**
+ * Blockers that are not finished yet. Deleted and trashed blockers are ignored
+ */
+export const getOpenBlockers = (task: Pick<Task, 'blockedBy'>, tasks: Task[]) =>
+    getBlockerTasks(task, tasks).filter(blocker => !isFinished(blocker));
+
+export const isTaskBlocked = (task: Pick<Task, 'blockedBy'>, tasks: Task[]) => getOpenBlockers(task, tasks).length > 0;
+
+/**
+ * true if moving the task to `status` starts or completes it while some of its blockers are still open.
+ * setStatus only does that when asked to explicitly (after the user confirmed it)
+ */
+export const isBlockedStatusChange = (task: Pick<Task, 'blockedBy' | 'status'>, status: TaskStatus, tasks: Task[]) =>
+    (status === 'in_progress' || status === 'completed') && task.status !== status && isTaskBlocked(task, tasks);
+
+/**
+ * Tasks outside the Trash that list the given task in their blockedBy
+ */
+export const getDependentTasks = (taskId: string, tasks: Task[]) =>
+    tasks.filter(task => !isTrashed(task) && task.blockedBy?.includes(taskId));
+
+/**
+ * true if making `taskId` blocked by `blockerId` closes a cycle:
+ * the blocker already waits, directly or through other tasks, for `taskId`
+ */
+export function wouldCreateCycle(taskId: string, blockerId: string, tasks: Task[]): boolean {
+    const visited = new Set<string>();
+    const pending = [blockerId];
+    while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (id === taskId) {
+            return true;
+        }
+        if (visited.has(id)) {
+            continue;
+        }
+        visited.add(id);
+        pending.push(...(tasks.find(t => t.id === id)?.blockedBy ?? []));
+    }
+    return false;
+}
+
+/**
+ * Drops the blockers a task can't have: itself, duplicates, unknown or trashed tasks and the ones closing a cycle
+ */
+export function sanitizeBlockers(taskId: string, blockerIds: string[], tasks: Task[]): string[] {
+    const result: string[] = [];
+    for (const blockerId of blockerIds) {
+        if (blockerId === taskId || result.includes(blockerId) || !tasks.some(t => t.id === blockerId && !isTrashed(t))) {
+            continue;
+        }
+        if (wouldCreateCycle(taskId, blockerId, tasks)) {
+            console.warn(`[Dependencies] Task ${taskId} can't be blocked by ${blockerId}: cycle`);
+            continue;
+        }
+        result.push(blockerId);
+    }
+    return result;
+}
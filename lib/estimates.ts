@@ -0,0 +1,130 @@
+import { Project, Task } from './types';
+import { INBOX_COLOR, INBOX_NAME, getTaskProject } from './projects';
+import { getTagColor, getTagKey } from './tags';
+import { formatDuration, getTrackedTime } from './timeTracking';
+
+export const MAX_ESTIMATE_MINUTES = 100 * 60;
+
+// Quick picks in the task form, minutes
+export const ESTIMATE_PRESETS = [15, 30, 60, 120, 240, 480];
+
+// How far over the estimate a task may go before it's flagged, percent
+export const OVERRUN_MARGINS = [0, 10, 20, 50, 100];
+export const DEFAULT_OVERRUN_MARGIN = 20;
+
+const MINUTE = 60 * 1000;
+
+export type EstimateGroupBy = 'project' | 'tag';
+
+export type EstimateComparison = {
+    task: Task;
+    estimated: number; // ms
+    actual: number; // ms, tracked time
+    overEstimate: boolean; // Actual time is over the estimate by more than the margin
+};
+
+export type EstimateGroup = {
+    key: string;
+    name: string;
+    color: string;
+    comparisons: EstimateComparison[]; // Largest overrun first
+    estimated: number; // ms
+    actual: number; // ms
+    overCount: number;
+};
+
+export type EstimateReport = {
+    groups: EstimateGroup[]; // Largest total first
+    estimated: number; // ms
+    actual: number; // ms
+    taskCount: number;
+    overCount: number;
+};
+
+export const formatEstimate = (minutes: number) => formatDuration(minutes * MINUTE);
+
+export const isOverEstimate = (estimated: number, actual: number, marginPercent: number) =>
+    estimated > 0 && actual > estimated * (1 + marginPercent / 100);
+
+/**
+ * "+45%" / "-10%": how far the actual time is from the estimate
+ */
+export function formatEstimateDeviation(estimated: number, actual: number): string {
+    if (estimated <= 0) {
+        return '—';
+    }
+    const percent = Math.round(((actual - estimated) / estimated) * 100);
+    return `${percent > 0 ? '+' : ''}${percent}%`;
+}
+
+/**
+ * Estimate and tracked time of a task. null if the task has no estimate
+ */
+export function compareToEstimate(task: Task, marginPercent: number, now = Date.now()): EstimateComparison | null {
+    if (!task.estimateMinutes) {
+        return null;
+    }
+    const estimated = task.estimateMinutes * MINUTE;
+    const actual = getTrackedTime(task, now);
+    return { task, estimated, actual, overEstimate: isOverEstimate(estimated, actual, marginPercent) };
+}
+
+/**
+ * Estimated vs tracked time of completed tasks grouped by project or tag. Only tasks
+ * with both an estimate and tracked time are compared. A task with several tags
+ * counts in each of them, tasks without tags are grouped under "No tag"
+ */
+export function buildEstimateReport(
+    tasks: Task[],
+    projects: Project[],
+    tagColors: Record<string, string>,
+    groupBy: EstimateGroupBy,
+    marginPercent: number,
+): EstimateReport {
+    const groups = new Map<string, EstimateGroup>();
+    const comparisons: EstimateComparison[] = [];
+
+    const addTo = (key: string, name: string, color: string, comparison: EstimateComparison) => {
+        const group = groups.get(key) ?? { key, name, color, comparisons: [], estimated: 0, actual: 0, overCount: 0 };
+        group.comparisons.push(comparison);
+        group.estimated += comparison.estimated;
+        group.actual += comparison.actual;
+        group.overCount += comparison.overEstimate ? 1 : 0;
+        groups.set(key, group);
+    };
+
+    for (const task of tasks) {
+        if (task.status !== 'completed') {
+            continue;
+        }
+        const comparison = compareToEstimate(task, marginPercent);
+        if (!comparison || comparison.actual === 0) {
+            continue;
+        }
+        comparisons.push(comparison);
+
+        if (groupBy === 'project') {
+            const project = getTaskProject(task, projects);
+            addTo(project?.id ?? '', project?.name ?? INBOX_NAME, project?.color ?? INBOX_COLOR, comparison);
+        } else if (task.tags && task.tags.length > 0) {
+            for (const tag of task.tags) {
+                addTo(getTagKey(tag), tag, getTagColor(tag, tagColors), comparison);
+            }
+        } else {
+            addTo('', 'No tag', INBOX_COLOR, comparison);
+        }
+    }
+
+    const overrun = (c: EstimateComparison) => c.actual / c.estimated;
+    const sortedGroups = [...groups.values()]
+        .map(group => ({ ...group, comparisons: group.comparisons.sort((a, b) => overrun(b) - overrun(a)) }))
+        .sort((a, b) => b.actual - a.actual);
+
+    return {
+        groups: sortedGroups,
+        estimated: comparisons.reduce((sum, c) => sum + c.estimated, 0),
+        actual: comparisons.reduce((sum, c) => sum + c.actual, 0),
+        taskCount: comparisons.length,
+        overCount: comparisons.filter(c => c.overEstimate).length,
+    };
+}
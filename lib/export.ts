@@ -0,0 +1,63 @@
+import * as Sharing from 'expo-sharing';
+import * as FileSystem from 'expo-file-system/legacy';
+import { CustomFieldDefinition, Project, Task } from './types';
+import { getProjectName } from './projects';
+import { getTaskPriority, priorityLabels } from './priority';
+import { getActiveFieldDefinitions } from './customFields';
+import { escapeCsv, getTrackedTime } from './timeTracking';
+
+/**
+ * CSV with one row per task and one column per custom field, for spreadsheets.
+ * Custom field values are written raw (numbers, ISO dates, true/false) so they
+ * can be read back unchanged. Archived tasks are included, with the archiving date
+ */
+export function tasksToCsv(tasks: Task[], projects: Project[], definitions: CustomFieldDefinition[], now = Date.now()): string {
+    const fields = getActiveFieldDefinitions(definitions);
+    const header = ['Title', 'Status', 'Priority', 'Project', 'Due', 'Location', 'Tags', 'Estimate (min)', 'Tracked (min)', 'Created', 'Archived'];
+    const rows = [[...header, ...fields.map(field => field.name)].map(escapeCsv).join(',')];
+    for (const task of tasks) {
+        const values = [
+            task.title,
+            task.status,
+            priorityLabels[getTaskPriority(task)],
+            getProjectName(task, projects),
+            task.datetime,
+            task.location,
+            (task.tags ?? []).join(' '),
+            task.estimateMinutes?.toString() ?? '',
+            Math.round(getTrackedTime(task, now) / 60000).toString(),
+            task.createdAt,
+            task.archivedAt ?? '',
+            ...fields.map(field => {
+                const value = task.customFields?.[field.id];
+                return value === undefined ? '' : String(value);
+            }),
+        ];
+        rows.push(values.map(escapeCsv).join(','));
+    }
+    return rows.join('\n') + '\n';
+}
+
+// Writes the text to the cache directory and opens the share sheet
+async function shareTextFile(fileName: string, contents: string, options: { mimeType: string; UTI: string; dialogTitle: string }) {
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, contents);
+
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(uri, options); // UTI is iOS specific
+}
+
+/**
+ * Writes the CSV to the cache directory and opens the share sheet. Throws when
+ * writing fails or sharing isn't available on the device
+ */
+export const shareCsv = (fileName: string, csv: string, dialogTitle: string): Promise<void> =>
+    shareTextFile(fileName, csv, { mimeType: 'text/csv', dialogTitle, UTI: 'public.comma-separated-values-text' });
+
+/**
+ * Same as shareCsv for data exported as is, e.g. the quarantined records
+ */
+export const shareJson = (fileName: string, value: unknown, dialogTitle: string): Promise<void> =>
+    shareTextFile(fileName, JSON.stringify(value, null, 2), { mimeType: 'application/json', dialogTitle, UTI: 'public.json' });
@@ -0,0 +1,177 @@
+import { create } from 'zustand';
+import { CommentsChangeEvent, CustomFieldsChangeEvent, LiveSyncStatus, ProjectsChangeEvent, TaskChangeEvent } from './types';
+import { CLIENT_ID, getApiBaseUrl, getRetryDelay } from './sync';
+import { useAuthStore } from './authStore';
+import { useSettingsStore } from './settingsStore';
+import { useTaskStore } from './store';
+
+// Пока WebSocket недоступен, забираем изменения обычной синхронизацией с этим интервалом
+const POLL_INTERVAL_MS = 30 * 1000;
+
+type LiveSyncState = {
+    status: LiveSyncStatus;
+};
+
+export const useLiveSyncStore = create<LiveSyncState>()(() => ({
+    status: 'stopped',
+}));
+
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let reconnectAttempts = 0;
+let unsubscribeSettings: (() => void) | null = null;
+
+const setStatus = (status: LiveSyncStatus) => useLiveSyncStore.setState({ status });
+
+const runSync = () => {
+    useTaskStore.getState().syncTasks().catch((error) => {
+        console.error('[LiveSync] Sync failed:', error);
+    });
+};
+
+/**
+ * Адрес канала событий: http(s)://host → ws(s)://host/events.
+ * Токен передается в query, т.к. WebSocket в браузере не умеет свои заголовки
+ */
+function getEventsUrl(token: string): string {
+    const baseUrl = getApiBaseUrl().replace(/^http/i, 'ws');
+    return `${baseUrl}/events?token=${encodeURIComponent(token)}&clientId=${encodeURIComponent(CLIENT_ID)}`;
+}
+
+function startPolling() {
+    if (pollTimer) {
+        return;
+    }
+    setStatus('polling');
+    pollTimer = setInterval(runSync, POLL_INTERVAL_MS);
+}
+
+function stopPolling() {
+    if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+    }
+}
+
+function handleMessage(data: unknown) {
+    if (typeof data !== 'string') {
+        return;
+    }
+    try {
+        const event = JSON.parse(data) as TaskChangeEvent | ProjectsChangeEvent | CommentsChangeEvent | CustomFieldsChangeEvent | { type: 'hello' };
+        if (event.type === 'task.created' || event.type === 'task.updated' || event.type === 'task.deleted') {
+            console.log(`[LiveSync] ${event.type} ${event.taskId}`);
+            useTaskStore.getState().applyRemoteChange(event);
+        } else if (event.type === 'projects.updated') {
+            // Само событие без данных - забираем проекты обычным запросом
+            console.log('[LiveSync] projects.updated');
+            useTaskStore.getState().syncProjects().catch((error) => {
+                console.error('[LiveSync] Project sync failed:', error);
+            });
+        } else if (event.type === 'comments.updated') {
+            console.log('[LiveSync] comments.updated');
+            useTaskStore.getState().syncComments().catch((error) => {
+                console.error('[LiveSync] Comment sync failed:', error);
+            });
+        } else if (event.type === 'fields.updated') {
+            console.log('[LiveSync] fields.updated');
+            useTaskStore.getState().syncCustomFields().catch((error) => {
+                console.error('[LiveSync] Custom field sync failed:', error);
+            });
+        }
+    } catch (error) {
+        console.error('[LiveSync] Invalid event:', error);
+    }
+}
+
+function scheduleReconnect() {
+    if (reconnectTimer) {
+        return;
+    }
+    const delay = getRetryDelay(reconnectAttempts);
+    reconnectAttempts += 1;
+    console.log(`[LiveSync] Reconnecting in ${Math.round(delay / 1000)}s`);
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+    }, delay);
+}
+
+function connect() {
+    const { token } = useAuthStore.getState();
+    if (!token) {
+        return;
+    }
+
+    if (!pollTimer) {
+        setStatus('connecting');
+    }
+    const ws = new WebSocket(getEventsUrl(token));
+    socket = ws;
+
+    ws.onopen = () => {
+        console.log('[LiveSync] Connected');
+        reconnectAttempts = 0;
+        stopPolling();
+        setStatus('connected');
+        // События, пришедшие пока соединения не было, потеряны - догоняем обычной синхронизацией
+        runSync();
+    };
+    ws.onmessage = (message) => handleMessage(message.data);
+    ws.onerror = () => {
+        // Подробности придут в onclose
+    };
+    ws.onclose = (event) => {
+        if (socket !== ws) {
+            // Соединение закрыли сами (stopLiveSync или смена адреса)
+            return;
+        }
+        console.log(`[LiveSync] Disconnected (code ${event.code})`);
+        socket = null;
+        startPolling();
+        scheduleReconnect();
+    };
+}
+
+function disconnect() {
+    if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+    stopPolling();
+    if (socket) {
+        const ws = socket;
+        socket = null;
+        ws.close();
+    }
+}
+
+/**
+ * Открывает канал событий с сервером: изменения с других устройств применяются сразу.
+ * Если соединение рвется - переподключаемся с backoff, а пока опрашиваем сервер
+ */
+export function startLiveSync() {
+    if (unsubscribeSettings) {
+        return;
+    }
+    reconnectAttempts = 0;
+    connect();
+
+    // Новый адрес сервера - переподключаемся к нему
+    unsubscribeSettings = useSettingsStore.subscribe((state, prevState) => {
+        if (state.apiUrl !== prevState.apiUrl) {
+            disconnect();
+            reconnectAttempts = 0;
+            connect();
+        }
+    });
+}
+
+export function stopLiveSync() {
+    unsubscribeSettings?.();
+    unsubscribeSettings = null;
+    disconnect();
+    reconnectAttempts = 0;
+    setStatus('stopped');
+}
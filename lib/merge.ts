@@ -0,0 +1,28 @@
+// Record synced with the server as part of a whole list (projects, comments, custom fields)
+export type VersionedRecord = {
+    id: string;
+    updatedAt: string;
+};
+
+/**
+ * Merges records from the server into the local ones: for each record the version with
+ * the later updatedAt wins. Returns the merged list, in the local order with new records
+ * at the end, and the server versions that replaced or were added to the local ones
+ */
+export function mergeByUpdatedAt<T extends VersionedRecord>(local: T[], remote: T[]): { merged: T[]; received: T[] } {
+    const merged = [...local];
+    const indexById = new Map(merged.map((record, index) => [record.id, index]));
+    const received: T[] = [];
+    for (const remoteRecord of remote) {
+        const index = indexById.get(remoteRecord.id);
+        if (index === undefined) {
+            indexById.set(remoteRecord.id, merged.length);
+            merged.push(remoteRecord);
+            received.push(remoteRecord);
+        } else if (remoteRecord.updatedAt > merged[index]!.updatedAt) {
+            merged[index] = remoteRecord;
+            received.push(remoteRecord);
+        }
+    }
+    return { merged, received };
+}
@@ -0,0 +1,293 @@
+import { z } from 'zod';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createJSONStorage, PersistStorage, StateStorage } from 'zustand/middleware';
+
+/**
+ * Version of the persisted task store (`tm:tasks:v2`). Data written before versioning
+ * was introduced has version 0. Bump it together with a new entry in `taskStoreMigrations`
+ * and a snapshot of the old data in __tests__/migrations.test.ts whenever the shape of the stored data changes
+ */
+export const TASK_STORE_VERSION = 2;
+
+export const QUARANTINE_KEY = 'tm:tasks:quarantine';
+const MAX_QUARANTINED_RECORDS = 200;
+
+// Persisted state as read from storage: nothing about it is trusted until validated
+export type PersistedState = Record<string, unknown>;
+
+// Record that failed validation or migration, kept aside instead of being loaded or dropped
+export type QuarantinedRecord = {
+    collection: string; // Key of the store it came from ('tasks', 'pendingSync', ...), 'state' for the whole snapshot
+    record: unknown;
+    error: string;
+    quarantinedAt: string;
+};
+
+export type MigrationResult = {
+    state: PersistedState;
+    quarantined: QuarantinedRecord[];
+};
+
+export type TaskStoreMigration = {
+    description: string;
+    migrate: (state: PersistedState) => PersistedState;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Applies `fn` to the well-formed records of a collection. Anything else is left for the
+// validation to quarantine, so one broken record can't stop the migration of the others
+const mapRecords = (state: PersistedState, key: string, fn: (record: Record<string, unknown>) => Record<string, unknown>) => {
+    const records = state[key];
+    return Array.isArray(records) ? records.map(record => (isRecord(record) ? fn(record) : record)) : records;
+};
+
+const isFinishedStatus = (status: unknown) => status === 'completed' || status === 'cancelled';
+
+/**
+ * Numbered migrations: entry N turns data of version N - 1 into version N. They only
+ * reshape plain data, no storage or store access, so tests can run snapshots through them
+ */
+export const taskStoreMigrations: Record<number, TaskStoreMigration> = {
+    1: {
+        description: 'Unversioned data: drop session-only fields, defaults for the task location and queue retries',
+        migrate: ({ syncStatus, undoStack, redoStack, ...state }) => {
+            const withRetries = (operation: Record<string, unknown>) =>
+                typeof operation.retries === 'number' ? operation : { ...operation, retries: 0 };
+            return {
+                ...state,
+                // Tasks from the first versions could be saved without a location
+                tasks: mapRecords(state, 'tasks', task =>
+                    typeof task.location === 'string' ? task : { ...task, location: '' }),
+                pendingSync: mapRecords(state, 'pendingSync', withRetries),
+                deadLetters: mapRecords(state, 'deadLetters', deadLetter =>
+                    isRecord(deadLetter.operation) ? { ...deadLetter, operation: withRetries(deadLetter.operation) } : deadLetter),
+            };
+        },
+    },
+    2: {
+        description: 'completedAt for tasks finished before it was recorded, taken from their last modification',
+        migrate: state => ({
+            ...state,
+            tasks: mapRecords(state, 'tasks', task =>
+                isFinishedStatus(task.status) && task.completedAt === undefined
+                    ? { ...task, completedAt: task.updatedAt ?? task.createdAt }
+                    : task),
+        }),
+    },
+};
+
+export const quarantine = (collection: string, record: unknown, error: string): QuarantinedRecord => ({
+    collection,
+    record,
+    error,
+    quarantinedAt: new Date().toISOString(),
+});
+
+export const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Runs the migrations from `fromVersion` up to `toVersion`. If a migration fails, the whole
+ * snapshot is quarantined and the store starts empty rather than with half-migrated data.
+ * Data from a newer app version is passed through as is, validation decides what is kept
+ */
+export function runMigrations(persisted: unknown, fromVersion: number, toVersion = TASK_STORE_VERSION): MigrationResult {
+    if (!isRecord(persisted)) {
+        return { state: {}, quarantined: persisted == null ? [] : [quarantine('state', persisted, 'Stored state is not an object')] };
+    }
+    if (fromVersion > toVersion) {
+        console.warn(`[Storage] Stored data has version ${fromVersion}, newer than ${toVersion}; loading it without migration`);
+        return { state: persisted, quarantined: [] };
+    }
+
+    let state = persisted;
+    for (let version = fromVersion + 1; version <= toVersion; version++) {
+        const migration = taskStoreMigrations[version];
+        if (!migration) {
+            continue;
+        }
+        try {
+            state = migration.migrate(state);
+            console.log(`[Storage] Migrated to version ${version}: ${migration.description}`);
+        } catch (error) {
+            console.error(`[Storage] Migration to version ${version} failed:`, error);
+            return { state: {}, quarantined: [quarantine('state', persisted, `Migration to version ${version} failed: ${describeError(error)}`)] };
+        }
+    }
+    return { state, quarantined: [] };
+}
+
+// Schemas of the stored records. Only what the app relies on is checked; unknown fields
+// (e.g. written by a newer version) are kept
+const taskSchema = z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    datetime: z.string(),
+    location: z.string(),
+    status: z.enum(['todo', 'in_progress', 'completed', 'cancelled']),
+    createdAt: z.string(),
+    tags: z.array(z.string()).optional(),
+    checklist: z.array(z.object({ id: z.string(), title: z.string(), done: z.boolean() }).passthrough()).optional(),
+    blockedBy: z.array(z.string()).optional(),
+    timeEntries: z.array(z.object({ id: z.string(), startedAt: z.string() }).passthrough()).optional(),
+    attachments: z.array(z.object({ uri: z.string(), name: z.string(), type: z.string() }).passthrough()).optional(),
+    revision: z.number().optional(),
+}).passthrough();
+
+const syncOperationSchema = z.object({
+    id: z.string(),
+    type: z.enum(['create', 'update', 'delete']),
+    taskId: z.string(),
+    taskData: taskSchema.optional(),
+    timestamp: z.string(),
+    retries: z.number(),
+}).passthrough();
+
+const collectionSchemas: Record<string, z.ZodTypeAny> = {
+    tasks: taskSchema,
+    pendingSync: syncOperationSchema,
+    actionLogs: z.object({
+        id: z.string(),
+        taskId: z.string(),
+        taskTitle: z.string(),
+        actionType: z.string(),
+        timestamp: z.string(),
+    }).passthrough(),
+    projects: z.object({
+        id: z.string(),
+        name: z.string(),
+        color: z.string(),
+        icon: z.string(),
+        createdAt: z.string(),
+        updatedAt: z.string(),
+    }).passthrough(),
+    comments: z.object({
+        id: z.string(),
+        taskId: z.string(),
+        text: z.string(),
+        createdAt: z.string(),
+        updatedAt: z.string(),
+    }).passthrough(),
+    customFieldDefinitions: z.object({
+        id: z.string(),
+        name: z.string(),
+        type: z.enum(['text', 'number', 'date', 'boolean', 'select']),
+        createdAt: z.string(),
+        updatedAt: z.string(),
+    }).passthrough(),
+    conflicts: z.object({
+        taskId: z.string(),
+        localTask: taskSchema,
+        remoteTask: taskSchema,
+        detectedAt: z.string(),
+    }).passthrough(),
+    deadLetters: z.object({
+        operation: syncOperationSchema,
+        error: z.string(),
+        failedAt: z.string(),
+    }).passthrough(),
+};
+
+const valueSchemas: Record<string, z.ZodTypeAny> = {
+    remoteTaskIds: z.array(z.string()),
+    sortOrder: z.string(),
+    tagColors: z.record(z.string()),
+    lastSyncedAt: z.string().nullable(),
+    accountId: z.string().nullable(),
+};
+
+/**
+ * Checks rehydrated data against the schemas. Broken records are taken out of their
+ * collection and returned for quarantine; a collection or value of the wrong type is
+ * left out entirely, so the store's initial value is used instead
+ */
+export function validatePersistedState(persisted: unknown): MigrationResult {
+    if (!isRecord(persisted)) {
+        return { state: {}, quarantined: persisted == null ? [] : [quarantine('state', persisted, 'Stored state is not an object')] };
+    }
+    const state: PersistedState = { ...persisted };
+    const quarantined: QuarantinedRecord[] = [];
+
+    for (const [key, schema] of Object.entries(collectionSchemas)) {
+        const records = state[key];
+        if (records === undefined) {
+            continue;
+        }
+        if (!Array.isArray(records)) {
+            quarantined.push(quarantine(key, records, 'Expected a list'));
+            delete state[key];
+            continue;
+        }
+        state[key] = records.filter(record => {
+            const result = schema.safeParse(record);
+            if (!result.success) {
+                const issue = result.error.issues[0];
+                quarantined.push(quarantine(key, record, issue ? `${issue.path.join('.') || 'record'}: ${issue.message}` : 'Invalid record'));
+            }
+            return result.success;
+        });
+    }
+
+    for (const [key, schema] of Object.entries(valueSchemas)) {
+        if (state[key] !== undefined && !schema.safeParse(state[key]).success) {
+            quarantined.push(quarantine(key, state[key], 'Invalid value'));
+            delete state[key];
+        }
+    }
+    return { state, quarantined };
+}
+
+/**
+ * Stores records taken out of the task store next to it, newest last. They are
+ * never loaded back automatically; Settings shows them and lets the user export
+ * them for manual recovery or delete them.
+ * Never rejects, hydration goes on even if the quarantine can't be written
+ */
+export async function quarantineRecords(records: QuarantinedRecord[]): Promise<void> {
+    if (records.length === 0) {
+        return;
+    }
+    console.warn(`[Storage] Quarantined ${records.length} invalid record(s):`, records.map(r => `${r.collection}: ${r.error}`));
+    try {
+        const existing = await getQuarantinedRecords();
+        await AsyncStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...records].slice(-MAX_QUARANTINED_RECORDS)));
+    } catch (error) {
+        console.error('[Storage] Could not save quarantined records:', error);
+    }
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    try {
+        const stored = await AsyncStorage.getItem(QUARANTINE_KEY);
+        const records: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(records) ? records : [];
+    } catch (error) {
+        console.error('[Storage] Could not read quarantined records:', error);
+        return [];
+    }
+}
+
+export const clearQuarantine = () => AsyncStorage.removeItem(QUARANTINE_KEY);
+
+/**
+ * JSON storage of the persist middleware that quarantines a snapshot it can't parse.
+ * The store then starts empty instead of failing to hydrate, and the broken data is
+ * kept aside rather than overwritten by the next save
+ */
+export function createQuarantiningStorage<S>(getStorage: () => StateStorage): PersistStorage<S> {
+    const storage = createJSONStorage<S>(getStorage)!;
+    return {
+        ...storage,
+        getItem: async name => {
+            try {
+                return await storage.getItem(name);
+            } catch (error) {
+                console.error('[Storage] Stored state is unreadable:', error);
+                const raw = await getStorage().getItem(name);
+                await quarantineRecords([quarantine('state', raw, `Unreadable stored state: ${describeError(error)}`)]);
+                return null;
+            }
+        },
+    };
+}
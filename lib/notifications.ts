@@ -52,8 +52,13 @@ export async function requestNotificationPermissions(): Promise<boolean> {
  */
 export async function scheduleTaskNotification(task: Task): Promise<string | null> {
   try {
-    // Don't schedule notifications for completed or cancelled tasks
-    if (task.status === "completed" || task.status === "cancelled") {
+    // Don't schedule notifications for completed, cancelled, trashed or archived tasks
+    if (
+      task.status === "completed" ||
+      task.status === "cancelled" ||
+      task.deletedAt ||
+      task.archivedAt
+    ) {
       return null;
     }
 
@@ -98,6 +103,30 @@ export async function scheduleTaskNotification(task: Task): Promise<string | nul
   }
 }
 
+/**
+ * Notify right away that a task can be started: the last task blocking it was completed
+ */
+export async function notifyTaskUnblocked(task: Task): Promise<void> {
+  try {
+    const hasPermission = await requestNotificationPermissions();
+    if (!hasPermission) {
+      return;
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: "Task Unblocked",
+        body: `"${task.title}" is ready to start`,
+        data: { taskId: task.id },
+        sound: true,
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error("Error sending unblocked notification:", error);
+  }
+}
+
 /**
  * Cancel notification for a task
  */
@@ -141,9 +170,13 @@ export async function rescheduleAllTaskNotifications(tasks: Task[]): Promise<voi
       return;
     }
 
-    // Only schedule notifications for tasks that are not completed or cancelled
+    // Only schedule notifications for tasks that are not completed, cancelled, trashed or archived
     const activeTasks = tasks.filter(
-      (task) => task.status !== "completed" && task.status !== "cancelled"
+      (task) =>
+        task.status !== "completed" &&
+        task.status !== "cancelled" &&
+        !task.deletedAt &&
+        !task.archivedAt
     );
 
     for (const task of activeTasks) {
@@ -0,0 +1,16 @@
+import { Task, TaskPriority } from './types';
+
+// From the least to the most important, the index is used as the sort rank
+export const TASK_PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'] as const satisfies readonly TaskPriority[];
+
+export const priorityLabels: Record<TaskPriority, string> = {
+    none: 'None',
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    urgent: 'Urgent',
+};
+
+export const getTaskPriority = (task: Pick<Task, 'priority'>): TaskPriority => task.priority ?? 'none';
+
+export const getPriorityRank = (priority: TaskPriority): number => TASK_PRIORITIES.indexOf(priority);
@@ -0,0 +1,83 @@
+import { Project, Task } from './types';
+
+export const MAX_PROJECT_NAME_LENGTH = 40;
+
+export const INBOX_NAME = 'Inbox';
+export const INBOX_COLOR = '#64748b';
+export const INBOX_ICON = 'inbox';
+
+// Palette and icons offered when creating or editing a project
+export const PROJECT_COLORS = [
+    '#6366f1',
+    '#0ea5e9',
+    '#14b8a6',
+    '#10b981',
+    '#f59e0b',
+    '#f97316',
+    '#ef4444',
+    '#ec4899',
+    '#8b5cf6',
+    '#64748b',
+];
+
+export const PROJECT_ICONS = [
+    'folder',
+    'briefcase',
+    'home',
+    'cart',
+    'school',
+    'heart',
+    'star',
+    'airplane',
+    'dumbbell',
+    'cash',
+    'book-open-variant',
+    'hammer-wrench',
+];
+
+// Tasks shown on the home screen: every task, the Inbox or one project (by id)
+export type ProjectFilter = 'all' | 'inbox' | string;
+
+export type ProjectSummary = {
+    project: Project;
+    openCount: number; // Tasks that are not completed or cancelled
+};
+
+const isOpen = (task: Task) => task.status !== 'completed' && task.status !== 'cancelled';
+
+/**
+ * Projects that are not deleted, in the order they were created
+ */
+export function getActiveProjects(projects: Project[]): Project[] {
+    return projects
+        .filter(project => !project.deleted)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Project of a task. A task whose project is deleted or not synced yet is shown in the Inbox
+ */
+export function getTaskProject(task: Pick<Task, 'projectId'>, projects: Project[]): Project | undefined {
+    return task.projectId ? projects.find(p => p.id === task.projectId && !p.deleted) : undefined;
+}
+
+export const getProjectName = (task: Pick<Task, 'projectId'>, projects: Project[]) =>
+    getTaskProject(task, projects)?.name ?? INBOX_NAME;
+
+export function isTaskInProject(task: Task, filter: ProjectFilter, projects: Project[]): boolean {
+    if (filter === 'all') {
+        return true;
+    }
+    const project = getTaskProject(task, projects);
+    return filter === 'inbox' ? !project : project?.id === filter;
+}
+
+export const countOpenTasks = (tasks: Task[], filter: ProjectFilter, projects: Project[]) =>
+    tasks.filter(task => isOpen(task) && isTaskInProject(task, filter, projects)).length;
+
+export function summarizeProjects(tasks: Task[], projects: Project[]): ProjectSummary[] {
+    return getActiveProjects(projects).map(project => ({
+        project,
+        openCount: countOpenTasks(tasks, project.id, projects),
+    }));
+}
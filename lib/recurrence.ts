@@ -0,0 +1,185 @@
+import { RecurrenceFrequency, RecurrenceRule, Task } from './types';
+
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'] as const satisfies readonly RecurrenceFrequency[];
+
+export const MAX_RECURRENCE_INTERVAL = 99;
+export const MAX_RECURRENCE_COUNT = 999;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Same time of day as `time` on the given calendar day
+const atTimeOf = (time: Date, year: number, month: number, day: number) =>
+    new Date(year, month, day, time.getHours(), time.getMinutes(), time.getSeconds());
+
+/**
+ * Which weekday of its month the date is: 1-4, or -1 for the fifth one,
+ * so "5th Friday" becomes "last Friday" and exists in every month
+ */
+export function getWeekOfMonth(date: Date): number {
+    const week = Math.ceil(date.getDate() / 7);
+    return week > 4 ? -1 : week;
+}
+
+const ordinal = (week: number) => (week === -1 ? 'last' : ['1st', '2nd', '3rd', '4th'][week - 1] ?? `${week}th`);
+
+export const describeWeekdayOfMonth = (date: Date) =>
+    `${ordinal(getWeekOfMonth(date))} ${WEEKDAY_NAMES[date.getDay()]}`;
+
+// Day of the Nth (or last, for -1) given weekday of a month
+function getNthWeekday(year: number, month: number, weekday: number, week: number): number {
+    if (week === -1) {
+        const lastDay = daysInMonth(year, month);
+        return lastDay - ((new Date(year, month, lastDay).getDay() - weekday + 7) % 7);
+    }
+    const firstWeekday = new Date(year, month, 1).getDay();
+    return 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7;
+}
+
+/**
+ * Default rule for a frequency, based on the task due date
+ */
+export function createRecurrenceRule(frequency: RecurrenceFrequency, date: Date): RecurrenceRule {
+    return {
+        frequency,
+        interval: 1,
+        weekdays: frequency === 'weekly' ? [date.getDay()] : undefined,
+        monthlyBy: frequency === 'monthly' ? 'day' : undefined,
+    };
+}
+
+/**
+ * Fixes the day the rule repeats on from the due date of the task and drops the
+ * fields that don't apply to the frequency. Called when the task is saved
+ */
+export function anchorRecurrence(rule: RecurrenceRule, date: Date): RecurrenceRule {
+    const anchored: RecurrenceRule = {
+        frequency: rule.frequency,
+        interval: rule.interval,
+        endDate: rule.endDate,
+        count: rule.count,
+    };
+    if (rule.frequency === 'weekly') {
+        anchored.weekdays = rule.weekdays && rule.weekdays.length > 0
+            ? [...rule.weekdays].sort((a, b) => a - b)
+            : [date.getDay()];
+    }
+    if (rule.frequency === 'monthly') {
+        anchored.monthlyBy = rule.monthlyBy ?? 'day';
+        if (anchored.monthlyBy === 'weekday') {
+            anchored.weekOfMonth = getWeekOfMonth(date);
+        } else {
+            anchored.monthDay = date.getDate();
+        }
+    }
+    if (rule.frequency === 'yearly') {
+        anchored.monthDay = date.getDate();
+    }
+    return anchored;
+}
+
+/**
+ * Date of the occurrence following `from` (ignores the end of the series)
+ */
+export function getNextOccurrenceDate(rule: RecurrenceRule, from: Date): Date {
+    const interval = Math.max(1, rule.interval);
+
+    switch (rule.frequency) {
+        case 'daily':
+            return atTimeOf(from, from.getFullYear(), from.getMonth(), from.getDate() + interval);
+        case 'weekly': {
+            const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [from.getDay()];
+            const weekStart = atTimeOf(from, from.getFullYear(), from.getMonth(), from.getDate() - from.getDay());
+            for (let offset = 1; offset <= 7 * interval; offset++) {
+                const candidate = atTimeOf(from, from.getFullYear(), from.getMonth(), from.getDate() + offset);
+                const candidateWeekStart = atTimeOf(from, candidate.getFullYear(), candidate.getMonth(), candidate.getDate() - candidate.getDay());
+                // Round: a DST switch makes a week an hour shorter or longer
+                const weeksApart = Math.round((candidateWeekStart.getTime() - weekStart.getTime()) / (7 * DAY_MS));
+                if (weeksApart % interval === 0 && weekdays.includes(candidate.getDay())) {
+                    return candidate;
+                }
+            }
+            return atTimeOf(from, from.getFullYear(), from.getMonth(), from.getDate() + 7 * interval);
+        }
+        case 'monthly': {
+            const months = from.getFullYear() * 12 + from.getMonth() + interval;
+            const year = Math.floor(months / 12);
+            const month = months % 12;
+            if (rule.monthlyBy === 'weekday') {
+                const week = rule.weekOfMonth ?? getWeekOfMonth(from);
+                return atTimeOf(from, year, month, getNthWeekday(year, month, from.getDay(), week));
+            }
+            const day = Math.min(rule.monthDay ?? from.getDate(), daysInMonth(year, month));
+            return atTimeOf(from, year, month, day);
+        }
+        case 'yearly': {
+            const year = from.getFullYear() + interval;
+            const day = Math.min(rule.monthDay ?? from.getDate(), daysInMonth(year, from.getMonth()));
+            return atTimeOf(from, year, from.getMonth(), day);
+        }
+    }
+}
+
+/**
+ * Due date of the next task of the series, or null if the task doesn't repeat
+ * or the series has ended (end date passed or all occurrences created)
+ */
+export function getNextOccurrence(task: Pick<Task, 'datetime' | 'recurrence' | 'occurrence'>): Date | null {
+    const rule = task.recurrence;
+    if (!rule) {
+        return null;
+    }
+    if (rule.count !== undefined && (task.occurrence ?? 1) >= rule.count) {
+        return null;
+    }
+    const next = getNextOccurrenceDate(rule, new Date(task.datetime));
+    if (rule.endDate) {
+        const end = new Date(rule.endDate);
+        end.setHours(23, 59, 59, 999);
+        if (next > end) {
+            return null;
+        }
+    }
+    return next;
+}
+
+/**
+ * Human readable rule, e.g. "Every 2 weeks on Mon, Thu, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule, date: Date): string {
+    const unit = frequencyUnits[rule.frequency];
+    let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+    switch (rule.frequency) {
+        case 'weekly':
+            text += ` on ${(rule.weekdays ?? [date.getDay()]).map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+            break;
+        case 'monthly':
+            text += rule.monthlyBy === 'weekday'
+                ? ` on the ${describeWeekdayOfMonth(date)}`
+                : ` on day ${rule.monthDay ?? date.getDate()}`;
+            break;
+        case 'yearly':
+            text += ` on ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+            break;
+    }
+
+    if (rule.count !== undefined) {
+        text += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+    } else if (rule.endDate) {
+        text += ` until ${new Date(rule.endDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+    }
+    return text;
+}
@@ -0,0 +1,59 @@
+import { CustomFieldDefinition, Task, TaskComment } from './types';
+import { getActiveFieldDefinitions } from './customFields';
+
+const SNIPPET_CONTEXT = 30;
+
+export type TaskSearchMatch = {
+    field: 'title' | 'description' | 'location' | 'tags' | 'customField' | 'comment';
+    snippet?: string; // Text around the match in a comment, or the matching custom field
+};
+
+// Part of the text around the match, with ellipses where it was cut
+function getSnippet(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Where a task matches the search query, ignoring case. Task fields are checked
+ * before text and choice custom fields, then comments; `comments` are the task's own,
+ * not deleted ones. null if nothing matches
+ */
+export function searchTask(
+    task: Task,
+    comments: TaskComment[],
+    query: string,
+    fieldDefinitions: CustomFieldDefinition[] = [],
+): TaskSearchMatch | null {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+        return null;
+    }
+    if (task.title.toLowerCase().includes(needle)) {
+        return { field: 'title' };
+    }
+    if (task.description?.toLowerCase().includes(needle)) {
+        return { field: 'description' };
+    }
+    if (task.location.toLowerCase().includes(needle)) {
+        return { field: 'location' };
+    }
+    if (task.tags?.some(tag => tag.toLowerCase().includes(needle))) {
+        return { field: 'tags' };
+    }
+    for (const definition of getActiveFieldDefinitions(fieldDefinitions)) {
+        const value = task.customFields?.[definition.id];
+        if ((definition.type === 'text' || definition.type === 'select')
+            && typeof value === 'string' && value.toLowerCase().includes(needle)) {
+            return { field: 'customField', snippet: `${definition.name}: ${value}` };
+        }
+    }
+    for (const comment of comments) {
+        const index = comment.text.toLowerCase().indexOf(needle);
+        if (index !== -1) {
+            return { field: 'comment', snippet: getSnippet(comment.text, index, needle.length) };
+        }
+    }
+    return null;
+}
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_OVERRUN_MARGIN } from './estimates';
+import { DEFAULT_TRASH_RETENTION_DAYS } from './trash';
+import { DEFAULT_AUTO_ARCHIVE_DAYS } from './archive';
+
+type SettingsState = {
+  apiUrl: string | null; // null = detect automatically (app.json extra / platform defaults)
+  setApiUrl: (url: string | null) => void;
+  autoStartTimer: boolean; // Start the task timer when the task moves to In Progress
+  setAutoStartTimer: (enabled: boolean) => void;
+  overrunMargin: number; // Percent over the estimate before a completed task is flagged
+  setOverrunMargin: (percent: number) => void;
+  trashRetentionDays: number; // Tasks in the Trash are deleted permanently after this many days, 0 = never
+  setTrashRetentionDays: (days: number) => void;
+  autoArchiveDays: number; // Finished tasks are archived this many days after completion, 0 = off
+  setAutoArchiveDays: (days: number) => void;
+};
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      apiUrl: null,
+      setApiUrl: (url) => set({ apiUrl: url }),
+      autoStartTimer: false,
+      setAutoStartTimer: (enabled) => set({ autoStartTimer: enabled }),
+      overrunMargin: DEFAULT_OVERRUN_MARGIN,
+      setOverrunMargin: (percent) => set({ overrunMargin: percent }),
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+      setTrashRetentionDays: (days) => set({ trashRetentionDays: days }),
+      autoArchiveDays: DEFAULT_AUTO_ARCHIVE_DAYS,
+      setAutoArchiveDays: (days) => set({ autoArchiveDays: days }),
+    }),
+    {
+      name: 'tm:settings:v1',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
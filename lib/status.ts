@@ -0,0 +1,8 @@
+import { TaskStatus } from './types';
+
+export const statusLabels: Record<TaskStatus, string> = {
+    todo: 'To Do',
+    in_progress: 'In Progress',
+    completed: 'Completed',
+    cancelled: 'Cancelled',
+};
@@ -1,322 +1,1808 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Task, TaskStatus, SortOrder, ActionLog, ActionType, SyncOperation, SyncStatus, SyncOperationType } from './types';
+import { persist } from 'zustand/middleware';
+import { Task, TaskStatus, SortOrder, ActionLog, ActionType, SyncOperation, SyncStatus, SyncOperationType, TaskConflict, DeadLetterOperation, TaskChangeEvent, Project, TimeEntry, TaskComment, CustomFieldDefinition, CustomFieldValue, UndoEntry } from './types';
 import { nanoid } from 'nanoid/non-secure';
 import { immer } from 'zustand/middleware/immer';
-import { scheduleTaskNotification, cancelTaskNotification, rescheduleAllTaskNotifications } from './notifications';
-import { syncPendingOperations } from './sync';
+import { current, original, isDraft, Draft } from 'immer';
+import { scheduleTaskNotification, cancelTaskNotification, cancelAllTaskNotifications, rescheduleAllTaskNotifications, notifyTaskUnblocked } from './notifications';
+import { syncPendingOperations, fetchTasksFromServer, syncProjectsWithServer, syncCommentsWithServer, syncCustomFieldsWithServer, mergeRemoteTasks, isRemoteNewer, getRetryDelay, AuthError } from './sync';
+import { useAuthStore } from './authStore';
+import { useSettingsStore } from './settingsStore';
+import { hasLocalChanges } from './conflicts';
+import { enqueueSyncOperation, compactSyncQueue } from './syncQueue';
+import { getTaskPriority, getPriorityRank, priorityLabels } from './priority';
+import { statusLabels } from './status';
+import { getTagKey, hasTag, isSameTag, normalizeTag, replaceTag } from './tags';
+import { MAX_CHECKLIST_ITEM_LENGTH, isChecklistComplete, moveChecklistItem as moveItem } from './checklist';
+import { describeRecurrence, getNextOccurrence } from './recurrence';
+import { getBlockerTasks, getDependentTasks, isBlockedStatusChange, isTaskBlocked, sanitizeBlockers } from './dependencies';
+import { INBOX_NAME, MAX_PROJECT_NAME_LENGTH, getProjectName } from './projects';
+import { compareToEstimate, formatEstimate } from './estimates';
+import { MAX_COMMENT_LENGTH, canEditComment } from './comments';
+import { mergeByUpdatedAt } from './merge';
+import { describeRetention, getExpiredTrash, isTrashed } from './trash';
+import { describeAutoArchive, getListedTasks, getTasksToArchive, isArchived } from './archive';
+import { compareByCustomField, formatCustomFieldValue, getActiveFieldDefinitions, normalizeFieldDefinition } from './customFields';
+import { MAX_TIME_ENTRY_NOTE_LENGTH, formatDuration, getEntryDuration, getRunningEntry, validateTimeEntry } from './timeTracking';
+import { TASK_STORE_VERSION, describeError, quarantineRecords, runMigrations, validatePersistedState } from './migrations';
+import { createTaskStorage } from './taskDatabase';
+
+const MAX_ACTION_LOGS = 500;
+const MAX_UNDO_ENTRIES = 20;
+
+// Adds an entry to the top of the action log and trims it to MAX_ACTION_LOGS
+const pushActionLog = (state: { actionLogs: ActionLog[] }, entry: Omit<ActionLog, 'id' | 'timestamp'>) => {
+    state.actionLogs.unshift({
+        id: nanoid(),
+        timestamp: new Date().toISOString(),
+        ...entry,
+    });
+    if (state.actionLogs.length > MAX_ACTION_LOGS) {
+        state.actionLogs = state.actionLogs.slice(0, MAX_ACTION_LOGS);
+    }
+};
+
+// Adds a sync operation, merging it with operations already queued for the same task
+const queueSyncOperation = (state: { pendingSync: SyncOperation[]; syncStatus: SyncStatus }, operation: SyncOperation) => {
+    if (state.syncStatus === 'syncing') {
+        // Queued operations may be in flight right now, so only append;
+        // the queue is compacted before the next sync
+        state.pendingSync.push(operation);
+    } else {
+        state.pendingSync = enqueueSyncOperation(state.pendingSync, operation);
+    }
+};
+
+// Timer of the next automatic sync attempt
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Syncs in a row that failed before reaching the server, drives the backoff
+let failedSyncs = 0;
+
+const scheduleSyncRetry = (delayMs: number, sync: () => Promise<void>) => {
+    if (retryTimer) {
+        clearTimeout(retryTimer);
+    }
+    console.log(`[Sync] Next attempt in ${Math.round(delayMs / 1000)}s`);
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        sync().catch(console.error);
+    }, delayMs);
+};
+
+// Reminders only make sense for tasks that are still open
+const refreshTaskNotification = (task: Task) => {
+    if (task.status === 'completed' || task.status === 'cancelled' || isTrashed(task) || isArchived(task)) {
+        cancelTaskNotification(task.id).catch(console.error);
+    } else {
+        scheduleTaskNotification(task).catch(console.error);
+    }
+};
+
+// Sync operation a task mutation produces. Every action that changes `tasks`
+// is defined through `mutation` below and must return one (a list for actions
+// touching several tasks, null if the change stays local), so a new action
+// can't silently skip the server
+type TaskSyncEffect = { type: SyncOperationType; taskId: string };
+type SyncEffect = TaskSyncEffect | TaskSyncEffect[] | null;
+
+// Replaces a tag on every task that has it (null removes it) and logs each change.
+// Returns the update effects for the touched tasks
+const retagTasks = (state: Pick<State, 'tasks' | 'actionLogs'>, from: string, to: string | null, details: string): TaskSyncEffect[] => {
+    const effects: TaskSyncEffect[] = [];
+    for (const task of state.tasks) {
+        if (!hasTag(task, from)) {
+            continue;
+        }
+        task.tags = replaceTag(task.tags ?? [], from, to);
+        pushActionLog(state, {
+            taskId: task.id,
+            taskTitle: task.title,
+            actionType: 'updated',
+            details,
+        });
+        effects.push({ type: 'update', taskId: task.id });
+    }
+    return effects;
+};
+
+// Plain copy of a task, safe to use after the immer producer has finished
+// (passing the draft itself leads to "Proxy handler is null" errors)
+const toPlainTask = (task: Task): Task => (isDraft(task) ? current(task) : { ...task });
+
+// Deep copy of plain data for undo snapshots, works on drafts and on values
+// that were just put into the draft alike
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const getTaskOperations = (queue: SyncOperation[], taskId: string) => queue.filter(op => op.taskId === taskId);
+
+const isSameQueue = (a: SyncOperation[], b: SyncOperation[]) => JSON.stringify(a) === JSON.stringify(b);
+
+// Undo entries can't restore a task changed after them (by an action that isn't undoable
+// or by the server), so entries touching it are dropped
+const forgetUndo = (state: Pick<State, 'undoStack' | 'redoStack'>, taskIds: string[]) => {
+    const touches = (entry: UndoEntry) => entry.tasks.some(change => taskIds.includes(change.taskId));
+    if (taskIds.length === 0 || ![...state.undoStack, ...state.redoStack].some(touches)) {
+        return;
+    }
+    state.undoStack = state.undoStack.filter(entry => !touches(entry));
+    state.redoStack = state.redoStack.filter(entry => !touches(entry));
+};
+
+// History entry of a task that changed on the server: moved to or out of the Trash, or edited
+const describeRemoteUpdate = (local: Task | undefined, remote: Task, tasks: Task[]): Pick<ActionLog, 'actionType' | 'details'> => {
+    if (isTrashed(remote) && local && !isTrashed(local)) {
+        return { actionType: 'deleted', details: 'Moved to Trash on another device' };
+    }
+    if (!isTrashed(remote) && local && isTrashed(local)) {
+        return { actionType: 'restored', details: 'Restored on another device' };
+    }
+    if (isArchived(remote) !== isArchived(local ?? remote)) {
+        return isArchived(remote)
+            ? { actionType: 'archived', details: 'Archived on another device' }
+            : { actionType: 'unarchived', details: 'Unarchived on another device' };
+    }
+    // The other device has its own view of the blockers, the change is applied but stands out in the history
+    if (local && isBlockedStatusChange(local, remote.status, tasks)) {
+        console.warn(`[Dependencies] Blocked task ${remote.id} moved to ${remote.status} on another device`);
+        return {
+            actionType: 'status_changed',
+            details: `${statusLabels[local.status]} → ${statusLabels[remote.status]} on another device while blocked`,
+        };
+    }
+    return { actionType: 'updated', details: 'Updated on server' };
+};
+
+// Removes a task for good: its comments go with it and an unresolved conflict for it is settled
+const removeTask = (state: Pick<State, 'tasks' | 'comments' | 'conflicts'>, id: string) => {
+    state.tasks = state.tasks.filter(t => t.id !== id);
+    const now = new Date().toISOString();
+    for (const comment of state.comments) {
+        if (comment.taskId === id && !comment.deleted) {
+            comment.deleted = true;
+            comment.updatedAt = now;
+        }
+    }
+    state.conflicts = state.conflicts.filter(c => c.taskId !== id);
+    cancelTaskNotification(id).catch(console.error);
+};
+
+// Creates the next task of a recurring series once a task of it is completed.
+// Nothing happens if the series has ended or the next task already exists
+// (the task was reopened and completed again)
+const createNextOccurrence = (state: Pick<State, 'tasks' | 'actionLogs'>, task: Task): TaskSyncEffect | null => {
+    const nextDate = getNextOccurrence(task);
+    if (!nextDate) {
+        return null;
+    }
+    const seriesId = task.seriesId ?? task.id;
+    const occurrence = (task.occurrence ?? 1) + 1;
+    if (state.tasks.some(t => (t.seriesId ?? t.id) === seriesId && (t.occurrence ?? 1) >= occurrence)) {
+        return null;
+    }
+
+    const source = toPlainTask(task);
+    const now = new Date().toISOString();
+    const nextTask: Task = {
+        ...source,
+        id: nanoid(),
+        datetime: nextDate.toISOString(),
+        status: 'todo',
+        checklist: source.checklist?.map(item => ({ ...item, id: nanoid(), done: false })),
+        timeEntries: undefined,
+        completedAt: undefined,
+        archivedAt: undefined,
+        seriesId,
+        occurrence,
+        createdAt: now,
+        updatedAt: now,
+        revision: 1,
+    };
+    state.tasks.push(nextTask);
+    pushActionLog(state, {
+        taskId: nextTask.id,
+        taskTitle: nextTask.title,
+        actionType: 'created',
+        details: `Next occurrence, due ${nextDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+    });
+    scheduleTaskNotification(nextTask).catch(console.error);
+
+    return { type: 'create', taskId: nextTask.id };
+};
+
+// Lets the user know about the tasks a just completed task was the last blocker of
+const notifyUnblockedDependents = (tasks: Task[], taskId: string) => {
+    for (const dependent of getDependentTasks(taskId, tasks)) {
+        if (dependent.status !== 'completed' && dependent.status !== 'cancelled' && !isTaskBlocked(dependent, tasks)) {
+            notifyTaskUnblocked(toPlainTask(dependent)).catch(console.error);
+        }
+    }
+};
+
+// Stops the timer of a task if it runs. Returns true if there was one to stop
+const stopTaskTimer = (state: Pick<State, 'actionLogs'>, task: Task): boolean => {
+    const entry = getRunningEntry(task);
+    if (!entry) {
+        return false;
+    }
+    entry.endedAt = new Date().toISOString();
+    pushActionLog(state, {
+        taskId: task.id,
+        taskTitle: task.title,
+        actionType: 'updated',
+        details: `Timer stopped (${formatDuration(getEntryDuration(entry))})`,
+    });
+    return true;
+};
+
+// Starts the timer of a task. Only one timer runs at a time, so a timer running
+// on another task is stopped first. Returns the update effects for those tasks
+const startTaskTimer = (state: Pick<State, 'tasks' | 'actionLogs'>, task: Task): TaskSyncEffect[] => {
+    if (getRunningEntry(task)) {
+        return [];
+    }
+    const effects: TaskSyncEffect[] = [];
+    for (const other of state.tasks) {
+        if (other.id !== task.id && stopTaskTimer(state, other)) {
+            effects.push({ type: 'update', taskId: other.id });
+        }
+    }
+    task.timeEntries = [...(task.timeEntries ?? []), { id: nanoid(), startedAt: new Date().toISOString() }];
+    pushActionLog(state, {
+        taskId: task.id,
+        taskTitle: task.title,
+        actionType: 'updated',
+        details: 'Timer started',
+    });
+    return effects;
+};
+
+// Completion log entry of a task with an estimate: tracked vs estimated time,
+// flagged when the task went over the estimate by more than the configured margin
+const describeEstimateResult = (task: Task): Pick<ActionLog, 'details' | 'overEstimate'> => {
+    const comparison = compareToEstimate(task, useSettingsStore.getState().overrunMargin);
+    if (!comparison || comparison.actual === 0) {
+        return {};
+    }
+    return {
+        details: `tracked ${formatDuration(comparison.actual)} of ${formatDuration(comparison.estimated)} estimate`,
+        overEstimate: comparison.overEstimate || undefined,
+    };
+};
+
+const describeEstimate = (task: Task) => (task.estimateMinutes ? formatEstimate(task.estimateMinutes) : 'none');
+
+const cleanTimeEntryNote = (note: string | undefined) =>
+    note?.trim().slice(0, MAX_TIME_ENTRY_NOTE_LENGTH) || undefined;
+
+// "Customer: ACME → Globex" for every custom field whose value changed
+const describeCustomFieldChanges = (
+    before: Record<string, CustomFieldValue> | undefined,
+    after: Record<string, CustomFieldValue> | undefined,
+    definitions: CustomFieldDefinition[],
+) =>
+    getActiveFieldDefinitions(definitions)
+        .filter(definition => before?.[definition.id] !== after?.[definition.id])
+        .map(definition => `${definition.name}: ${formatCustomFieldValue(before?.[definition.id], definition)} → ${formatCustomFieldValue(after?.[definition.id], definition)}`);
+
+const describeBlockers = (task: Task, tasks: Task[]) =>
+    getBlockerTasks(task, tasks).map(blocker => `"${blocker.title}"`).join(', ') || 'none';
+
+const describeTaskRecurrence = (task: Task) =>
+    task.recurrence ? describeRecurrence(task.recurrence, new Date(task.datetime)) : 'Never';
+
+// Queues the sync operations of a mutation. Updates also bump the task revision
+// so concurrent edits can be detected
+const applySyncEffects = (state: Pick<State, 'tasks' | 'pendingSync' | 'syncStatus'>, effects: TaskSyncEffect[]) => {
+    for (const effect of effects) {
+        const task = state.tasks.find(t => t.id === effect.taskId);
+        let baseRevision: number | undefined;
+        if (effect.type === 'update' && task) {
+            baseRevision = task.revision ?? 0;
+            task.revision = baseRevision + 1;
+            task.updatedAt = new Date().toISOString();
+        }
+
+        queueSyncOperation(state, {
+            id: nanoid(),
+            type: effect.type,
+            taskId: effect.taskId,
+            taskData: effect.type !== 'delete' && task ? toPlainTask(task) : undefined,
+            baseRevision,
+            timestamp: new Date().toISOString(),
+            retries: 0,
+        });
+    }
+};
+
+// Makes a mutation undoable; the label is taken before the mutation runs
+type UndoOptions<A extends unknown[]> = {
+    label: (state: Draft<State>, ...args: A) => string | null;
+    destructive?: boolean;
+};
+
+// Records the tasks an action changed, the sync operations queued for them
+// and the history entries it added, so the action can be undone
+const recordUndo = (state: Draft<State>, base: State, taskIds: string[], label: string, destructive: boolean) => {
+    const firstLogIndex = state.actionLogs.findIndex(log => log.id === base.actionLogs[0]?.id);
+    const entry: UndoEntry = {
+        id: nanoid(),
+        label,
+        destructive,
+        tasks: taskIds.map(taskId => {
+            const after = state.tasks.find(t => t.id === taskId);
+            return {
+                taskId,
+                before: base.tasks.find(t => t.id === taskId) ?? null,
+                after: after ? clone(after) : null,
+                queueBefore: getTaskOperations(base.pendingSync, taskId),
+                queueAfter: clone(getTaskOperations(state.pendingSync, taskId)),
+            };
+        }),
+        logs: clone(state.actionLogs.slice(0, firstLogIndex === -1 ? state.actionLogs.length : firstLogIndex)),
+        deletedComments: base.comments
+            .filter(comment => !comment.deleted && state.comments.some(c => c.id === comment.id && c.deleted))
+            .map(comment => comment.id),
+        createdAt: new Date().toISOString(),
+    };
+    state.undoStack.push(entry);
+    if (state.undoStack.length > MAX_UNDO_ENTRIES) {
+        state.undoStack.shift();
+    }
+    state.redoStack = [];
+};
+
+// Brings the tasks of an undo entry back to their state before (undo) or after (redo) the action.
+// If the sync queue of a task is as the action left it, nothing reached the server in between:
+// the task and its queued operations are restored exactly. Otherwise the restored version is
+// sent to the server as a new change; the returned effects are those changes
+const restoreUndoEntry = (state: Draft<State>, entry: UndoEntry, direction: 'undo' | 'redo'): TaskSyncEffect[] => {
+    const effects: TaskSyncEffect[] = [];
+    for (const change of entry.tasks) {
+        const target = direction === 'undo' ? change.before : change.after;
+        const restored = target ? clone(target) : null;
+        const expectedQueue = direction === 'undo' ? change.queueAfter : change.queueBefore;
+        const restoredQueue = clone(direction === 'undo' ? change.queueBefore : change.queueAfter);
+        const index = state.tasks.findIndex(t => t.id === change.taskId);
+        const existing = state.tasks[index];
+
+        if (state.syncStatus !== 'syncing'
+            && isSameQueue(getTaskOperations(state.pendingSync, change.taskId), expectedQueue)) {
+            state.pendingSync = [...state.pendingSync.filter(op => op.taskId !== change.taskId), ...restoredQueue];
+            if (!restored) {
+                state.tasks = state.tasks.filter(t => t.id !== change.taskId);
+            } else if (existing) {
+                state.tasks[index] = restored;
+            } else {
+                state.tasks.push(restored);
+            }
+        } else if (!restored) {
+            state.tasks = state.tasks.filter(t => t.id !== change.taskId);
+            effects.push({ type: 'delete', taskId: change.taskId });
+        } else if (existing) {
+            // Based on the current revision, the server already has it
+            state.tasks[index] = { ...restored, revision: existing.revision };
+            effects.push({ type: 'update', taskId: change.taskId });
+        } else {
+            state.tasks.push(restored);
+            effects.push({ type: state.remoteTaskIds.includes(change.taskId) ? 'update' : 'create', taskId: change.taskId });
+        }
+
+        if (restored) {
+            refreshTaskNotification(restored);
+        } else {
+            cancelTaskNotification(change.taskId).catch(console.error);
+        }
+    }
+
+    if (direction === 'undo') {
+        const logIds = new Set(entry.logs.map(log => log.id));
+        state.actionLogs = state.actionLogs.filter(log => !logIds.has(log.id));
+    } else {
+        state.actionLogs.unshift(...clone(entry.logs));
+        state.actionLogs = state.actionLogs.slice(0, MAX_ACTION_LOGS);
+    }
+
+    // Comments come back (or go again) with their task; updatedAt makes the change win on sync
+    const now = new Date().toISOString();
+    for (const comment of state.comments) {
+        if (entry.deletedComments.includes(comment.id)) {
+            comment.deleted = direction === 'redo' || undefined;
+            comment.updatedAt = now;
+        }
+    }
+    return effects;
+};
 
 type State = {
     tasks: Task[];
+    projects: Project[]; // Includes deleted ones, see getActiveProjects
+    comments: TaskComment[]; // Includes deleted ones, see getTaskComments
+    customFieldDefinitions: CustomFieldDefinition[]; // Includes deleted ones, see getActiveFieldDefinitions
     actionLogs: ActionLog[];
     sortOrder: SortOrder;
+    tagColors: Record<string, string>; // Custom tag colors by tag key (lowercase name)
     pendingSync: SyncOperation[];
     syncStatus: SyncStatus;
+    lastSyncedAt: string | null; // Time of the last sync that reached the server
+    remoteTaskIds: string[]; // Ids of tasks known to exist on the server
+    conflicts: TaskConflict[];
+    deadLetters: DeadLetterOperation[];
+    accountId: string | null; // User the local data belongs to, null before the first sign in
+    undoStack: UndoEntry[]; // Latest action last
+    redoStack: UndoEntry[]; // Latest undone action last
+    loadError: string | null; // Why the stored tasks couldn't be loaded; nothing is saved until they are
     addTask: (data: Omit<Task, "id" | "createdAt" | "status">) => void;
     updateTask: (id: string, updates: Partial<Task>) => void;
-    deleteTask: (id: string) => void;
-    setStatus: (id: string, status: TaskStatus) => void;
+    deleteTask: (id: string) => void; // Moves the task to the Trash
+    restoreTask: (id: string) => void;
+    deleteTaskPermanently: (id: string) => void;
+    emptyTrash: () => void;
+    purgeTrash: () => void; // Deletes the tasks kept in the Trash longer than the retention setting
+    archiveTask: (id: string) => void;
+    unarchiveTask: (id: string) => void;
+    archiveFinishedTasks: (afterPull?: boolean) => void; // Archives the tasks finished longer ago than the auto archive setting
+    setStatus: (id: string, status: TaskStatus, force?: boolean) => void;
+    addChecklistItem: (taskId: string, title: string) => void;
+    renameChecklistItem: (taskId: string, itemId: string, title: string) => void;
+    toggleChecklistItem: (taskId: string, itemId: string) => void;
+    removeChecklistItem: (taskId: string, itemId: string) => void;
+    moveChecklistItem: (taskId: string, itemId: string, direction: 'up' | 'down') => void;
+    setChecklistAutoComplete: (taskId: string, enabled: boolean) => void;
+    startTimer: (taskId: string) => void;
+    stopTimer: (taskId: string) => void;
+    addTimeEntry: (taskId: string, entry: Omit<TimeEntry, 'id'>) => void;
+    updateTimeEntry: (taskId: string, entryId: string, changes: Partial<Omit<TimeEntry, 'id'>>) => void;
+    removeTimeEntry: (taskId: string, entryId: string) => void;
+    addProject: (project: Pick<Project, 'name' | 'color' | 'icon'>) => string;
+    updateProject: (id: string, changes: Partial<Pick<Project, 'name' | 'color' | 'icon'>>) => void;
+    deleteProject: (id: string, tasksAction: 'move' | 'delete', targetProjectId?: string) => void;
+    moveTaskToProject: (taskId: string, projectId: string | undefined) => void;
+    addComment: (taskId: string, text: string) => void;
+    updateComment: (id: string, text: string) => void;
+    deleteComment: (id: string) => void;
+    addCustomField: (definition: Pick<CustomFieldDefinition, 'name' | 'type' | 'options' | 'required'>) => string;
+    updateCustomField: (id: string, changes: Partial<Pick<CustomFieldDefinition, 'name' | 'options' | 'required'>>) => void;
+    deleteCustomField: (id: string) => void;
     setSortOrder: (order: SortOrder) => void;
+    renameTag: (from: string, to: string) => void;
+    mergeTags: (sources: string[], target: string) => void;
+    deleteTag: (tag: string) => void;
+    setTagColor: (tag: string, color: string | null) => void;
     getSortedTasks: () => Task[];
     getActionLogs: () => ActionLog[];
     clearActionLogs: () => void;
     initializeNotifications: () => Promise<void>;
     syncTasks: () => Promise<void>;
+    pullTasks: () => Promise<void>;
+    syncProjects: () => Promise<void>;
+    syncComments: () => Promise<void>;
+    syncCustomFields: () => Promise<void>;
+    applyRemoteChange: (event: TaskChangeEvent) => void;
     addSyncOperation: (type: SyncOperationType, taskId: string, taskData?: Task) => void;
     removeSyncOperation: (operationId: string) => void;
+    resolveConflict: (taskId: string, resolved: Task) => void;
+    retryDeadLetter: (operationId: string) => void;
+    discardDeadLetter: (operationId: string) => void;
+    switchAccount: (userId: string, discardUnsynced?: boolean) => boolean;
+    undo: () => void;
+    redo: () => void;
 };
 
+// Part of the state saved to storage
+type PersistedTaskState = Omit<State, 'syncStatus' | 'undoStack' | 'redoStack' | 'loadError'>;
+
 export const useTaskStore = create<State>()(
     persist(
-        immer((set, get) => ({
-            tasks: [],
-            actionLogs: [],
-            sortOrder: 'dateAdded_desc',
-            pendingSync: [],
-            syncStatus: 'idle',
-            addTask: (data) =>
-                set((state) => {
+        immer((set, get) => {
+            // Wraps a task mutation: runs the recipe and queues the sync operations it declares.
+            // Undoable actions also record what they changed, see recordUndo
+            const mutation = <A extends unknown[]>(
+                recipe: (state: Draft<State>, ...args: A) => SyncEffect,
+                undo?: UndoOptions<A>,
+            ) =>
+                (...args: A) =>
+                    set((state) => {
+                        const base = original(state) as State;
+                        const label = undo?.label(state, ...args);
+                        const result = recipe(state, ...args);
+                        const effects = result === null ? [] : Array.isArray(result) ? result : [result];
+
+                        applySyncEffects(state, effects);
+                        const taskIds = [...new Set(effects.map(effect => effect.taskId))];
+                        if (undo && label && taskIds.length > 0) {
+                            recordUndo(state, base, taskIds, label, !!undo.destructive);
+                        } else {
+                            forgetUndo(state, taskIds);
+                        }
+                    });
+
+            return {
+                tasks: [],
+                projects: [],
+                comments: [],
+                customFieldDefinitions: [],
+                actionLogs: [],
+                sortOrder: 'dateAdded_desc',
+                tagColors: {},
+                pendingSync: [],
+                syncStatus: 'idle',
+                lastSyncedAt: null,
+                remoteTaskIds: [],
+                conflicts: [],
+                deadLetters: [],
+                accountId: null,
+                undoStack: [],
+                redoStack: [],
+                loadError: null,
+                addTask: mutation((state, data: Omit<Task, "id" | "createdAt" | "status">) => {
+                    const now = new Date().toISOString();
                     const newTask: Task = {
                         ...data,
                         id: nanoid(),
-                        createdAt: new Date().toISOString(),
+                        createdAt: now,
+                        updatedAt: now,
+                        revision: 1,
                         status: 'todo'
                     };
                     state.tasks.push(newTask);
                     // Log action
-                    state.actionLogs.unshift({
-                        id: nanoid(),
+                    pushActionLog(state, {
                         taskId: newTask.id,
                         taskTitle: newTask.title,
                         actionType: 'created',
-                        timestamp: new Date().toISOString(),
                     });
-                    if (state.actionLogs.length > 500) {
-                        state.actionLogs = state.actionLogs.slice(0, 500);
-                    }
                     // Schedule notification for new task
                     // newTask is already a plain object, so it's safe to pass directly
                     scheduleTaskNotification(newTask).catch(console.error);
-                    
-                    // Add sync operation
-                    state.pendingSync.push({
-                        id: nanoid(),
-                        type: 'create',
-                        taskId: newTask.id,
-                        taskData: newTask,
-                        timestamp: new Date().toISOString(),
-                        retries: 0,
+
+                    return { type: 'create', taskId: newTask.id };
+                }, {
+                    label: (state, data) => `Created "${data.title}"`,
+                }),
+                updateTask: mutation((state, id: string, updates: Partial<Task>) => {
+                    const task = state.tasks.find(t => t.id === id);
+                    if (!task) {
+                        return null;
+                    }
+                    const oldTitle = task.title;
+                    const oldPriority = getTaskPriority(task);
+                    const oldTags = (task.tags ?? []).join(', ');
+                    const oldRecurrence = describeTaskRecurrence(task);
+                    const oldProject = getProjectName(task, state.projects);
+                    const oldBlockers = describeBlockers(task, state.tasks);
+                    const oldEstimate = describeEstimate(task);
+                    const oldCustomFields = { ...task.customFields };
+                    Object.assign(task, updates);
+                    if (updates.blockedBy) {
+                        task.blockedBy = sanitizeBlockers(id, updates.blockedBy, state.tasks);
+                    }
+                    // Log action
+                    const changes: string[] = [];
+                    if (oldTitle !== task.title) {
+                        changes.push(`Title: "${oldTitle}" → "${task.title}"`);
+                    }
+                    if (oldPriority !== getTaskPriority(task)) {
+                        changes.push(`Priority: ${priorityLabels[oldPriority]} → ${priorityLabels[getTaskPriority(task)]}`);
+                    }
+                    const newTags = (task.tags ?? []).join(', ');
+                    if (oldTags !== newTags) {
+                        changes.push(`Tags: ${oldTags || 'none'} → ${newTags || 'none'}`);
+                    }
+                    const newProject = getProjectName(task, state.projects);
+                    if (oldProject !== newProject) {
+                        changes.push(`Project: ${oldProject} → ${newProject}`);
+                    }
+                    const newBlockers = describeBlockers(task, state.tasks);
+                    if (oldBlockers !== newBlockers) {
+                        changes.push(`Blocked by: ${oldBlockers} → ${newBlockers}`);
+                    }
+                    if (oldEstimate !== describeEstimate(task)) {
+                        changes.push(`Estimate: ${oldEstimate} → ${describeEstimate(task)}`);
+                    }
+                    changes.push(...describeCustomFieldChanges(oldCustomFields, task.customFields, state.customFieldDefinitions));
+                    if (oldRecurrence !== describeTaskRecurrence(task)) {
+                        changes.push(`Repeat: ${oldRecurrence} → ${describeTaskRecurrence(task)}`);
+                    }
+                    const details = changes.length > 0 ? changes.join(', ') : 'Task details updated';
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details,
                     });
+                    // Reschedule notification if task was updated
+                    scheduleTaskNotification(toPlainTask(task)).catch(console.error);
+
+                    return { type: 'update', taskId: id };
+                }, {
+                    label: (state, id) => {
+                        const task = state.tasks.find(t => t.id === id);
+                        return task ? `Edited "${task.title}"` : null;
+                    },
                 }),
-            updateTask: (id, updates) =>
-                set((state) => {
+                // Moves the task to the Trash. It stays in `tasks` (attachments, coordinates
+                // and comments included) and reaches the server as an update, so other
+                // devices move it to their Trash too
+                deleteTask: mutation((state, id: string) => {
                     const task = state.tasks.find(t => t.id === id);
-                    if (task) {
-                        const oldTitle = task.title;
-                        Object.assign(task, updates);
-                        // Log action
-                        const details = oldTitle !== task.title 
-                            ? `Title: "${oldTitle}" → "${task.title}"`
-                            : 'Task details updated';
-                        state.actionLogs.unshift({
-                            id: nanoid(),
-                            taskId: id,
+                    if (!task || isTrashed(task)) {
+                        return null;
+                    }
+                    task.deletedAt = new Date().toISOString();
+                    stopTaskTimer(state, task);
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: task.title,
+                        actionType: 'deleted',
+                        details: 'Moved to Trash',
+                    });
+                    // Cancel notification for deleted task
+                    cancelTaskNotification(id).catch(console.error);
+
+                    return { type: 'update', taskId: id };
+                }, {
+                    label: (state, id) => {
+                        const task = state.tasks.find(t => t.id === id);
+                        return task && !isTrashed(task) ? `Moved "${task.title}" to Trash` : null;
+                    },
+                    destructive: true,
+                }),
+                restoreTask: mutation((state, id: string) => {
+                    const task = state.tasks.find(t => t.id === id);
+                    if (!task || !isTrashed(task)) {
+                        return null;
+                    }
+                    task.deletedAt = undefined;
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: task.title,
+                        actionType: 'restored',
+                        details: 'Restored from Trash',
+                    });
+                    refreshTaskNotification(toPlainTask(task));
+
+                    return { type: 'update', taskId: id };
+                }),
+                deleteTaskPermanently: mutation((state, id: string) => {
+                    const task = state.tasks.find(t => t.id === id);
+                    if (!task) {
+                        return null;
+                    }
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: task.title,
+                        actionType: 'deleted',
+                        details: 'Deleted permanently',
+                    });
+                    removeTask(state, id);
+
+                    return { type: 'delete', taskId: id };
+                }),
+                emptyTrash: mutation((state) => {
+                    const trashed = state.tasks.filter(isTrashed);
+                    for (const task of trashed) {
+                        pushActionLog(state, {
+                            taskId: task.id,
                             taskTitle: task.title,
-                            actionType: 'updated',
-                            timestamp: new Date().toISOString(),
-                            details,
+                            actionType: 'deleted',
+                            details: 'Deleted permanently',
                         });
-                        if (state.actionLogs.length > 500) {
-                            state.actionLogs = state.actionLogs.slice(0, 500);
-                        }
-                        // Reschedule notification if task was updated
-                        const updatedTask = state.tasks.find(t => t.id === id);
-                        if (updatedTask) {
-                            // Create a plain object from the Proxy to avoid "Proxy handler is null" error
-                            const plainTask = {
-                                id: updatedTask.id,
-                                title: updatedTask.title,
-                                description: updatedTask.description,
-                                datetime: updatedTask.datetime,
-                                location: updatedTask.location,
-                                coordinates: updatedTask.coordinates,
-                                attachments: updatedTask.attachments,
-                                createdAt: updatedTask.createdAt,
-                                status: updatedTask.status,
-                            };
-                            scheduleTaskNotification(plainTask).catch(console.error);
-                            
-                            // Add sync operation
-                            state.pendingSync.push({
-                                id: nanoid(),
-                                type: 'update',
-                                taskId: id,
-                                taskData: plainTask,
-                                timestamp: new Date().toISOString(),
-                                retries: 0,
-                            });
-                        }
+                        removeTask(state, task.id);
                     }
+                    return trashed.map(task => ({ type: 'delete' as const, taskId: task.id }));
                 }),
-            deleteTask: (id) =>
-                set((state) => {
-                    const task = state.tasks.find(t => t.id === id);
-                    if (task) {
-                        // Log action before deleting
-                        state.actionLogs.unshift({
-                            id: nanoid(),
-                            taskId: id,
+                purgeTrash: mutation((state) => {
+                    const retentionDays = useSettingsStore.getState().trashRetentionDays;
+                    const expired = getExpiredTrash(state.tasks, retentionDays);
+                    for (const task of expired) {
+                        pushActionLog(state, {
+                            taskId: task.id,
                             taskTitle: task.title,
                             actionType: 'deleted',
-                            timestamp: new Date().toISOString(),
+                            details: `Removed from Trash after ${describeRetention(retentionDays)}`,
                         });
-                        if (state.actionLogs.length > 500) {
-                            state.actionLogs = state.actionLogs.slice(0, 500);
-                        }
-                        state.tasks = state.tasks.filter(t => t.id !== id);
-                        // Cancel notification for deleted task
-                        cancelTaskNotification(id).catch(console.error);
-                        
-                        // Add sync operation
-                        state.pendingSync.push({
-                            id: nanoid(),
-                            type: 'delete',
-                            taskId: id,
-                            timestamp: new Date().toISOString(),
-                            retries: 0,
+                        removeTask(state, task.id);
+                    }
+                    return expired.map(task => ({ type: 'delete' as const, taskId: task.id }));
+                }),
+                archiveTask: mutation((state, id: string) => {
+                    const task = state.tasks.find(t => t.id === id);
+                    if (!task || isArchived(task)) {
+                        return null;
+                    }
+                    task.archivedAt = new Date().toISOString();
+                    stopTaskTimer(state, task);
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: task.title,
+                        actionType: 'archived',
+                    });
+                    cancelTaskNotification(id).catch(console.error);
+
+                    return { type: 'update', taskId: id };
+                }),
+                unarchiveTask: mutation((state, id: string) => {
+                    const task = state.tasks.find(t => t.id === id);
+                    if (!task || !isArchived(task)) {
+                        return null;
+                    }
+                    task.archivedAt = undefined;
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: task.title,
+                        actionType: 'unarchived',
+                    });
+                    refreshTaskNotification(toPlainTask(task));
+
+                    return { type: 'update', taskId: id };
+                }),
+                archiveFinishedTasks: mutation((state, afterPull?: boolean) => {
+                    const days = useSettingsStore.getState().autoArchiveDays;
+                    // Tasks the server knows are archived by syncTasks right after a pull, so the update is based
+                    // on the latest revision: two devices archiving the same task would otherwise conflict
+                    const finished = getTasksToArchive(state.tasks, days)
+                        .filter(task => afterPull || !state.remoteTaskIds.includes(task.id));
+                    const now = new Date().toISOString();
+                    for (const task of finished) {
+                        task.archivedAt = now;
+                        pushActionLog(state, {
+                            taskId: task.id,
+                            taskTitle: task.title,
+                            actionType: 'archived',
+                            details: `Finished more than ${describeAutoArchive(days)} ago`,
                         });
                     }
+                    return finished.map(task => ({ type: 'update' as const, taskId: task.id }));
                 }),
-            setStatus: (id, status) =>
-                set((state) => {
+                setStatus: mutation((state, id: string, status: TaskStatus, force?: boolean) => {
                     const task = state.tasks.find(t => t.id === id);
-                    if (task) {
-                        const oldStatus = task.status;
-                        task.status = status;
-                        // Log action
-                        const statusLabels: Record<TaskStatus, string> = {
-                            'todo': 'To Do',
-                            'in_progress': 'In Progress',
-                            'completed': 'Completed',
-                            'cancelled': 'Cancelled',
-                        };
-                        const details = `${statusLabels[oldStatus]} → ${statusLabels[status]}`;
-                        state.actionLogs.unshift({
-                            id: nanoid(),
-                            taskId: id,
+                    if (!task) {
+                        return null;
+                    }
+                    // A blocked task is started or completed only when the caller confirmed it
+                    if (!force && isBlockedStatusChange(task, status, state.tasks)) {
+                        console.warn(`[Dependencies] Task ${id} is blocked, not moved to ${status}`);
+                        return null;
+                    }
+                    const oldStatus = task.status;
+                    task.status = status;
+                    const finished = status === 'completed' || status === 'cancelled';
+                    if (!finished) {
+                        task.completedAt = undefined;
+                    } else if (oldStatus !== 'completed' && oldStatus !== 'cancelled') {
+                        task.completedAt = new Date().toISOString();
+                    }
+                    // Reopening a task brings it back from the archive
+                    const unarchived = !finished && isArchived(task);
+                    if (unarchived) {
+                        task.archivedAt = undefined;
+                    }
+
+                    const effects: TaskSyncEffect[] = [{ type: 'update', taskId: id }];
+                    // Finished tasks don't collect time, starting the work can start the timer
+                    if (status === 'completed' || status === 'cancelled') {
+                        stopTaskTimer(state, task);
+                    } else if (status === 'in_progress' && oldStatus !== 'in_progress'
+                        && useSettingsStore.getState().autoStartTimer) {
+                        effects.push(...startTaskTimer(state, task));
+                    }
+
+                    // Log action
+                    const estimate = status === 'completed' ? describeEstimateResult(task) : {};
+                    const details = `${statusLabels[oldStatus]} → ${statusLabels[status]}${unarchived ? ', unarchived' : ''}`;
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: task.title,
+                        actionType: 'status_changed',
+                        details: estimate.details ? `${details}, ${estimate.details}` : details,
+                        overEstimate: estimate.overEstimate,
+                    });
+                    // Cancel notification if task is completed or cancelled
+                    if (status === 'completed' || status === 'cancelled') {
+                        cancelTaskNotification(id).catch(console.error);
+                    } else {
+                        // Reschedule notification if task becomes active again
+                        scheduleTaskNotification(toPlainTask(task)).catch(console.error);
+                    }
+
+                    if (status === 'completed' && oldStatus !== 'completed' && oldStatus !== 'cancelled') {
+                        notifyUnblockedDependents(state.tasks, id);
+                    }
+
+                    // Completing a repeating task creates the next one
+                    const next = status === 'completed' && oldStatus !== 'completed'
+                        ? createNextOccurrence(state, task)
+                        : null;
+                    if (next) {
+                        effects.push(next);
+                    }
+                    return effects;
+                }, {
+                    label: (state, id, status, force) => {
+                        const task = state.tasks.find(t => t.id === id);
+                        return task && task.status !== status && (force || !isBlockedStatusChange(task, status, state.tasks))
+                            ? `"${task.title}" marked ${statusLabels[status]}`
+                            : null;
+                    },
+                    destructive: true,
+                }),
+                addChecklistItem: mutation((state, taskId: string, title: string) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    const itemTitle = title.trim().slice(0, MAX_CHECKLIST_ITEM_LENGTH);
+                    if (!task || !itemTitle) {
+                        return null;
+                    }
+                    task.checklist = [...(task.checklist ?? []), { id: nanoid(), title: itemTitle, done: false }];
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: `Checklist: added "${itemTitle}"`,
+                    });
+                    return { type: 'update', taskId };
+                }),
+                renameChecklistItem: mutation((state, taskId: string, itemId: string, title: string) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    const item = task?.checklist?.find(i => i.id === itemId);
+                    const itemTitle = title.trim().slice(0, MAX_CHECKLIST_ITEM_LENGTH);
+                    if (!task || !item || !itemTitle || item.title === itemTitle) {
+                        return null;
+                    }
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: `Checklist: "${item.title}" → "${itemTitle}"`,
+                    });
+                    item.title = itemTitle;
+                    return { type: 'update', taskId };
+                }),
+                toggleChecklistItem: mutation((state, taskId: string, itemId: string) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    const item = task?.checklist?.find(i => i.id === itemId);
+                    if (!task || !item) {
+                        return null;
+                    }
+                    item.done = !item.done;
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: `Checklist: "${item.title}" ${item.done ? 'done' : 'not done'}`,
+                    });
+
+                    // A blocked task stays open, the user completes it once the blockers are finished
+                    if (item.done && task.autoCompleteChecklist && isChecklistComplete(task)
+                        && task.status !== 'completed' && task.status !== 'cancelled'
+                        && !isBlockedStatusChange(task, 'completed', state.tasks)) {
+                        stopTaskTimer(state, task);
+                        const estimate = describeEstimateResult(task);
+                        pushActionLog(state, {
+                            taskId,
                             taskTitle: task.title,
                             actionType: 'status_changed',
-                            timestamp: new Date().toISOString(),
-                            details,
+                            details: `${statusLabels[task.status]} → ${statusLabels.completed} (all checklist items done)`
+                                + (estimate.details ? `, ${estimate.details}` : ''),
+                            overEstimate: estimate.overEstimate,
                         });
-                        if (state.actionLogs.length > 500) {
-                            state.actionLogs = state.actionLogs.slice(0, 500);
+                        task.status = 'completed';
+                        task.completedAt = new Date().toISOString();
+                        cancelTaskNotification(taskId).catch(console.error);
+                        notifyUnblockedDependents(state.tasks, taskId);
+
+                        const next = createNextOccurrence(state, task);
+                        if (next) {
+                            return [{ type: 'update', taskId }, next];
                         }
-                        // Cancel notification if task is completed or cancelled
-                        if (status === 'completed' || status === 'cancelled') {
-                            cancelTaskNotification(id).catch(console.error);
+                    }
+                    return { type: 'update', taskId };
+                }),
+                removeChecklistItem: mutation((state, taskId: string, itemId: string) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    const item = task?.checklist?.find(i => i.id === itemId);
+                    if (!task || !item) {
+                        return null;
+                    }
+                    task.checklist = task.checklist?.filter(i => i.id !== itemId);
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: `Checklist: removed "${item.title}"`,
+                    });
+                    return { type: 'update', taskId };
+                }),
+                moveChecklistItem: mutation((state, taskId: string, itemId: string, direction: 'up' | 'down') => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    if (!task?.checklist) {
+                        return null;
+                    }
+                    const reordered = moveItem(task.checklist, itemId, direction);
+                    if (reordered === task.checklist) {
+                        return null;
+                    }
+                    task.checklist = reordered;
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: 'Checklist reordered',
+                    });
+                    return { type: 'update', taskId };
+                }),
+                setChecklistAutoComplete: mutation((state, taskId: string, enabled: boolean) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    if (!task || !!task.autoCompleteChecklist === enabled) {
+                        return null;
+                    }
+                    task.autoCompleteChecklist = enabled;
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: enabled ? 'Checklist: complete task when all items are done' : 'Checklist: auto-complete turned off',
+                    });
+                    return { type: 'update', taskId };
+                }),
+                startTimer: mutation((state, taskId: string) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    if (!task || getRunningEntry(task)) {
+                        return null;
+                    }
+                    return [{ type: 'update', taskId }, ...startTaskTimer(state, task)];
+                }),
+                stopTimer: mutation((state, taskId: string) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    if (!task || !stopTaskTimer(state, task)) {
+                        return null;
+                    }
+                    return { type: 'update', taskId };
+                }),
+                addTimeEntry: mutation((state, taskId: string, entry: Omit<TimeEntry, 'id'>) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    if (!task) {
+                        return null;
+                    }
+                    // Entries added by hand are always finished, the timer is the only way to run one
+                    const error = entry.endedAt ? validateTimeEntry(entry) : 'End time is missing';
+                    if (error) {
+                        console.warn(`[Time] Entry for task ${taskId} not added: ${error}`);
+                        return null;
+                    }
+                    const newEntry: TimeEntry = {
+                        id: nanoid(),
+                        startedAt: entry.startedAt,
+                        endedAt: entry.endedAt,
+                        note: cleanTimeEntryNote(entry.note),
+                    };
+                    task.timeEntries = [...(task.timeEntries ?? []), newEntry]
+                        .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: `Time: added ${formatDuration(getEntryDuration(newEntry))}`,
+                    });
+                    return { type: 'update', taskId };
+                }),
+                updateTimeEntry: mutation((state, taskId: string, entryId: string, changes: Partial<Omit<TimeEntry, 'id'>>) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    const entry = task?.timeEntries?.find(e => e.id === entryId);
+                    if (!task || !entry) {
+                        return null;
+                    }
+                    const updated: TimeEntry = { ...entry, ...changes, note: cleanTimeEntryNote(changes.note ?? entry.note) };
+                    // A finished entry can't be turned back into a running one
+                    const error = entry.endedAt && !updated.endedAt ? 'End time is missing' : validateTimeEntry(updated);
+                    if (error) {
+                        console.warn(`[Time] Entry ${entryId} of task ${taskId} not changed: ${error}`);
+                        return null;
+                    }
+                    const oldDuration = formatDuration(getEntryDuration(entry));
+                    Object.assign(entry, updated);
+                    task.timeEntries = [...(task.timeEntries ?? [])]
+                        .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+                    const newDuration = formatDuration(getEntryDuration(entry));
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: oldDuration !== newDuration ? `Time: ${oldDuration} → ${newDuration}` : 'Time entry updated',
+                    });
+                    return { type: 'update', taskId };
+                }),
+                removeTimeEntry: mutation((state, taskId: string, entryId: string) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    const entry = task?.timeEntries?.find(e => e.id === entryId);
+                    if (!task || !entry) {
+                        return null;
+                    }
+                    task.timeEntries = task.timeEntries?.filter(e => e.id !== entryId);
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: `Time: removed ${formatDuration(getEntryDuration(entry))}`,
+                    });
+                    return { type: 'update', taskId };
+                }),
+                addProject: ({ name, color, icon }) => {
+                    const now = new Date().toISOString();
+                    const project: Project = {
+                        id: nanoid(),
+                        name: name.trim().slice(0, MAX_PROJECT_NAME_LENGTH),
+                        color,
+                        icon,
+                        createdAt: now,
+                        updatedAt: now,
+                    };
+                    set((state) => {
+                        state.projects.push(project);
+                        pushActionLog(state, {
+                            taskId: project.id,
+                            taskTitle: project.name,
+                            actionType: 'project_created',
+                        });
+                    });
+                    return project.id;
+                },
+                updateProject: (id, changes) =>
+                    set((state) => {
+                        const project = state.projects.find(p => p.id === id && !p.deleted);
+                        if (!project) {
+                            return;
+                        }
+                        const oldName = project.name;
+                        const name = changes.name?.trim().slice(0, MAX_PROJECT_NAME_LENGTH) || project.name;
+                        Object.assign(project, changes, { name, updatedAt: new Date().toISOString() });
+                        pushActionLog(state, {
+                            taskId: id,
+                            taskTitle: project.name,
+                            actionType: 'project_updated',
+                            details: oldName !== project.name ? `Renamed from "${oldName}"` : 'Project details updated',
+                        });
+                    }),
+                // Deleting a project either moves its tasks (to another project or the Inbox) or deletes them
+                deleteProject: mutation((state, id: string, tasksAction: 'move' | 'delete', targetProjectId?: string) => {
+                    const project = state.projects.find(p => p.id === id && !p.deleted);
+                    if (!project) {
+                        return null;
+                    }
+                    const target = state.projects.find(p => p.id === targetProjectId && p.id !== id && !p.deleted);
+                    // Tasks already in the Trash keep the project and come back to the Inbox when restored
+                    const projectTasks = state.tasks.filter(t => t.projectId === id && !isTrashed(t));
+                    const effects: TaskSyncEffect[] = [];
+
+                    for (const task of projectTasks) {
+                        if (tasksAction === 'delete') {
+                            task.deletedAt = new Date().toISOString();
+                            stopTaskTimer(state, task);
+                            pushActionLog(state, {
+                                taskId: task.id,
+                                taskTitle: task.title,
+                                actionType: 'deleted',
+                                details: `Moved to Trash with project "${project.name}"`,
+                            });
+                            cancelTaskNotification(task.id).catch(console.error);
+                            effects.push({ type: 'update', taskId: task.id });
                         } else {
-                            // Reschedule notification if task becomes active again
-                            // Create a plain object from the Proxy to avoid "Proxy handler is null" error
-                            const plainTask = {
-                                id: task.id,
-                                title: task.title,
-                                description: task.description,
-                                datetime: task.datetime,
-                                location: task.location,
-                                coordinates: task.coordinates,
-                                attachments: task.attachments,
-                                createdAt: task.createdAt,
-                                status: task.status,
-                            };
-                            scheduleTaskNotification(plainTask).catch(console.error);
+                            task.projectId = target?.id;
+                            pushActionLog(state, {
+                                taskId: task.id,
+                                taskTitle: task.title,
+                                actionType: 'updated',
+                                details: `Project: ${project.name} → ${target?.name ?? INBOX_NAME}`,
+                            });
+                            effects.push({ type: 'update', taskId: task.id });
                         }
                     }
+
+                    project.deleted = true;
+                    project.updatedAt = new Date().toISOString();
+                    const count = `${projectTasks.length} task${projectTasks.length !== 1 ? 's' : ''}`;
+                    pushActionLog(state, {
+                        taskId: id,
+                        taskTitle: project.name,
+                        actionType: 'project_deleted',
+                        details: tasksAction === 'delete' ? `${count} moved to Trash` : `${count} moved to ${target?.name ?? INBOX_NAME}`,
+                    });
+
+                    return effects;
                 }),
-            setSortOrder: (order) =>
-                set((state) => {
-                    state.sortOrder = order;
+                moveTaskToProject: mutation((state, taskId: string, projectId: string | undefined) => {
+                    const task = state.tasks.find(t => t.id === taskId);
+                    if (!task || task.projectId === projectId) {
+                        return null;
+                    }
+                    const oldProject = getProjectName(task, state.projects);
+                    task.projectId = projectId;
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: `Project: ${oldProject} → ${getProjectName(task, state.projects)}`,
+                    });
+                    return { type: 'update', taskId };
                 }),
-            getSortedTasks: () => {
-                const { tasks, sortOrder } = get();
-                const sorted = [...tasks];
-                
-                switch (sortOrder) {
-                    case 'dateAdded_desc':
-                        return sorted.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                    case 'dateAdded_asc':
-                        return sorted.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
-                    case 'status':
-                        const statusOrder = { 'in_progress': 0, 'todo': 1, 'completed': 2, 'cancelled': 3 };
-                        return sorted.sort((a, b) => {
-                            const statusDiff = statusOrder[a.status] - statusOrder[b.status];
-                            if (statusDiff !== 0) return statusDiff;
-                            return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+                addComment: (taskId, text) => {
+                    const commentText = text.trim().slice(0, MAX_COMMENT_LENGTH);
+                    if (!commentText || !get().tasks.some(t => t.id === taskId)) {
+                        return;
+                    }
+                    const { user } = useAuthStore.getState();
+                    const now = new Date().toISOString();
+                    set((state) => {
+                        state.comments.push({
+                            id: nanoid(),
+                            taskId,
+                            text: commentText,
+                            authorId: user?.id,
+                            authorName: user?.username,
+                            createdAt: now,
+                            updatedAt: now,
                         });
-                    default:
-                        return sorted;
-                }
-            },
-            getActionLogs: () => {
-                const { actionLogs } = get();
-                return [...actionLogs].sort((a, b) => 
-                    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-                );
-            },
-            clearActionLogs: () =>
-                set((state) => {
-                    state.actionLogs = [];
-                }),
-            initializeNotifications: async () => {
-                const { tasks } = get();
-                await rescheduleAllTaskNotifications(tasks);
-            },
-            addSyncOperation: (type, taskId, taskData) =>
-                set((state) => {
-                    const operation: SyncOperation = {
+                    });
+                },
+                updateComment: (id, text) =>
+                    set((state) => {
+                        const comment = state.comments.find(c => c.id === id && !c.deleted);
+                        const commentText = text.trim().slice(0, MAX_COMMENT_LENGTH);
+                        if (!comment || !commentText || comment.text === commentText
+                            || !canEditComment(comment, state.accountId)) {
+                            return;
+                        }
+                        comment.text = commentText;
+                        comment.updatedAt = new Date().toISOString();
+                    }),
+                deleteComment: (id) =>
+                    set((state) => {
+                        const comment = state.comments.find(c => c.id === id && !c.deleted);
+                        if (!comment || !canEditComment(comment, state.accountId)) {
+                            return;
+                        }
+                        // Kept as a tombstone so the deletion reaches the server
+                        comment.deleted = true;
+                        comment.updatedAt = new Date().toISOString();
+                    }),
+                addCustomField: (definition) => {
+                    const now = new Date().toISOString();
+                    const field: CustomFieldDefinition = {
+                        ...normalizeFieldDefinition(definition),
                         id: nanoid(),
-                        type,
-                        taskId,
-                        taskData,
-                        timestamp: new Date().toISOString(),
-                        retries: 0,
+                        required: definition.required || undefined,
+                        createdAt: now,
+                        updatedAt: now,
                     };
-                    state.pendingSync.push(operation);
+                    set((state) => {
+                        state.customFieldDefinitions.push(field);
+                    });
+                    return field.id;
+                },
+                // The type of a field stays as created, values already on tasks depend on it
+                updateCustomField: (id, changes) =>
+                    set((state) => {
+                        const field = state.customFieldDefinitions.find(f => f.id === id && !f.deleted);
+                        if (!field) {
+                            return;
+                        }
+                        const normalized = normalizeFieldDefinition({
+                            name: field.name,
+                            type: field.type,
+                            options: field.options,
+                            required: field.required,
+                            ...changes,
+                        });
+                        Object.assign(field, {
+                            name: normalized.name || field.name,
+                            options: normalized.options,
+                            required: normalized.required || undefined,
+                            updatedAt: new Date().toISOString(),
+                        });
+                    }),
+                // Values on tasks are left in place: they are hidden with the field and
+                // come back if another device still has it
+                deleteCustomField: (id) =>
+                    set((state) => {
+                        const field = state.customFieldDefinitions.find(f => f.id === id && !f.deleted);
+                        if (!field) {
+                            return;
+                        }
+                        // Kept as a tombstone so the deletion reaches the server
+                        field.deleted = true;
+                        field.updatedAt = new Date().toISOString();
+                        if (state.sortOrder === `field:${id}`) {
+                            state.sortOrder = 'dateAdded_desc';
+                        }
+                    }),
+                setSortOrder: (order) =>
+                    set((state) => {
+                        state.sortOrder = order;
+                    }),
+                renameTag: mutation((state, from: string, to: string) => {
+                    const name = normalizeTag(to);
+                    if (!name || name === from) {
+                        return null;
+                    }
+                    const color = state.tagColors[getTagKey(from)];
+                    if (color && !isSameTag(from, name)) {
+                        state.tagColors[getTagKey(name)] = color;
+                        delete state.tagColors[getTagKey(from)];
+                    }
+                    return retagTasks(state, from, name, `Tag renamed: "${from}" → "${name}"`);
+                }),
+                mergeTags: mutation((state, sources: string[], target: string) => {
+                    const effects = sources
+                        .filter(source => !isSameTag(source, target))
+                        .flatMap(source => {
+                            delete state.tagColors[getTagKey(source)];
+                            return retagTasks(state, source, target, `Tag "${source}" merged into "${target}"`);
+                        });
+                    // A task that had several of the merged tags is still synced once
+                    return effects.filter((effect, index) => effects.findIndex(e => e.taskId === effect.taskId) === index);
                 }),
-            removeSyncOperation: (operationId) =>
-                set((state) => {
-                    state.pendingSync = state.pendingSync.filter(op => op.id !== operationId);
+                deleteTag: mutation((state, tag: string) => {
+                    delete state.tagColors[getTagKey(tag)];
+                    return retagTasks(state, tag, null, `Tag removed: "${tag}"`);
                 }),
-            syncTasks: async () => {
-                const { pendingSync } = get();
+                setTagColor: (tag, color) =>
+                    set((state) => {
+                        if (color) {
+                            state.tagColors[getTagKey(tag)] = color;
+                        } else {
+                            delete state.tagColors[getTagKey(tag)];
+                        }
+                    }),
+                getSortedTasks: () => {
+                    const { tasks, sortOrder, customFieldDefinitions } = get();
+                    // Archived and trashed tasks have their own screens
+                    const sorted = getListedTasks(tasks);
+
+                    if (sortOrder.startsWith('field:')) {
+                        const definition = customFieldDefinitions.find(f => `field:${f.id}` === sortOrder && !f.deleted);
+                        if (!definition) {
+                            return sorted;
+                        }
+                        // Ties keep the newest tasks first
+                        return sorted.sort((a, b) =>
+                            compareByCustomField(a, b, definition)
+                            || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                    }
                 
-                // Если нет операций для синхронизации, выходим
-                if (pendingSync.length === 0) {
-                    return;
-                }
+                    switch (sortOrder) {
+                        case 'dateAdded_desc':
+                            return sorted.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                        case 'dateAdded_asc':
+                            return sorted.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+                        case 'status':
+                            const statusOrder = { 'in_progress': 0, 'todo': 1, 'completed': 2, 'cancelled': 3 };
+                            return sorted.sort((a, b) => {
+                                const statusDiff = statusOrder[a.status] - statusOrder[b.status];
+                                if (statusDiff !== 0) return statusDiff;
+                                return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+                            });
+                        case 'priority':
+                            // Most important first, then the nearest due date
+                            return sorted.sort((a, b) => {
+                                const priorityDiff = getPriorityRank(getTaskPriority(b)) - getPriorityRank(getTaskPriority(a));
+                                if (priorityDiff !== 0) return priorityDiff;
+                                return new Date(a.datetime).getTime() - new Date(b.datetime).getTime();
+                            });
+                        default:
+                            return sorted;
+                    }
+                },
+                getActionLogs: () => {
+                    const { actionLogs } = get();
+                    return [...actionLogs].sort((a, b) => 
+                        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+                    );
+                },
+                clearActionLogs: () =>
+                    set((state) => {
+                        state.actionLogs = [];
+                    }),
+                initializeNotifications: async () => {
+                    const { tasks } = get();
+                    await rescheduleAllTaskNotifications(tasks);
+                },
+                addSyncOperation: (type, taskId, taskData) =>
+                    set((state) => {
+                        const operation: SyncOperation = {
+                            id: nanoid(),
+                            type,
+                            taskId,
+                            taskData,
+                            timestamp: new Date().toISOString(),
+                            retries: 0,
+                        };
+                        queueSyncOperation(state, operation);
+                    }),
+                removeSyncOperation: (operationId) =>
+                    set((state) => {
+                        state.pendingSync = state.pendingSync.filter(op => op.id !== operationId);
+                    }),
+                retryDeadLetter: (operationId) => {
+                    set((state) => {
+                        const deadLetter = state.deadLetters.find(d => d.operation.id === operationId);
+                        if (!deadLetter) {
+                            return;
+                        }
+                        state.deadLetters = state.deadLetters.filter(d => d.operation.id !== operationId);
+                        queueSyncOperation(state, {
+                            ...deadLetter.operation,
+                            retries: 0,
+                            nextAttemptAt: undefined,
+                            timestamp: new Date().toISOString(),
+                        });
+                    });
+                    get().syncTasks().catch(console.error);
+                },
+                switchAccount: (userId, discardUnsynced = false) => {
+                    const { accountId, pendingSync, deadLetters } = get();
+                    if (accountId === userId) {
+                        return true;
+                    }
 
-                // Если уже идет синхронизация, не запускаем еще одну
-                if (get().syncStatus === 'syncing') {
-                    return;
-                }
+                    if (accountId === null) {
+                        // First sign in on this device: local tasks are uploaded to the account
+                        set((state) => {
+                            state.accountId = userId;
+                            state.remoteTaskIds = [];
+                            state.conflicts = [];
+                            // Comments written before signing in become the user's
+                            const { user } = useAuthStore.getState();
+                            for (const comment of state.comments) {
+                                if (!comment.authorId) {
+                                    comment.authorId = userId;
+                                    comment.authorName = user?.username;
+                                }
+                            }
+                            state.pendingSync = state.tasks.map((task) => ({
+                                id: nanoid(),
+                                type: 'create' as const,
+                                taskId: task.id,
+                                taskData: toPlainTask(task),
+                                timestamp: new Date().toISOString(),
+                                retries: 0,
+                            }));
+                        });
+                        return true;
+                    }
+
+                    // Another user signed in: local data of the previous account must not leak into it.
+                    // Changes the server hasn't received yet would be lost, so the caller has to confirm that
+                    const unsynced = pendingSync.length + deadLetters.length;
+                    if (unsynced > 0 && !discardUnsynced) {
+                        console.warn(`Account switch blocked: ${unsynced} unsynced operations of the previous account`);
+                        return false;
+                    }
+                    set((state) => {
+                        state.accountId = userId;
+                        state.tasks = [];
+                        state.actionLogs = [];
+                        state.pendingSync = [];
+                        state.remoteTaskIds = [];
+                        state.conflicts = [];
+                        state.deadLetters = [];
+                        state.tagColors = {};
+                        state.projects = [];
+                        state.comments = [];
+                        state.customFieldDefinitions = [];
+                        state.sortOrder = 'dateAdded_desc';
+                        state.undoStack = [];
+                        state.redoStack = [];
+                    });
+                    cancelAllTaskNotifications().catch(console.error);
+                    return true;
+                },
+                undo: () =>
+                    set((state) => {
+                        const entry = state.undoStack.pop();
+                        if (!entry) {
+                            return;
+                        }
+                        applySyncEffects(state, restoreUndoEntry(state, entry, 'undo'));
+                        state.redoStack.push(entry);
+                    }),
+                redo: () =>
+                    set((state) => {
+                        const entry = state.redoStack.pop();
+                        if (!entry) {
+                            return;
+                        }
+                        applySyncEffects(state, restoreUndoEntry(state, entry, 'redo'));
+                        state.undoStack.push(entry);
+                    }),
+                discardDeadLetter: (operationId) =>
+                    set((state) => {
+                        state.deadLetters = state.deadLetters.filter(d => d.operation.id !== operationId);
+                    }),
+                resolveConflict: mutation((state, taskId: string, resolved: Task) => {
+                    const conflict = state.conflicts.find(c => c.taskId === taskId);
+                    const index = state.tasks.findIndex(t => t.id === taskId);
+                    if (!conflict || index === -1) {
+                        return null;
+                    }
+                    const pushNeeded = hasLocalChanges(resolved, conflict.remoteTask);
+                    // The resolved version is based on the server revision,
+                    // the update below bumps it past the server one
+                    const task: Task = pushNeeded
+                        ? { ...resolved, revision: conflict.remoteTask.revision ?? 0 }
+                        : toPlainTask(conflict.remoteTask);
 
-                set((state) => {
-                    state.syncStatus = 'syncing';
-                });
+                    state.tasks[index] = task;
+                    state.conflicts = state.conflicts.filter(c => c.taskId !== taskId);
+                    // Local edits of this task are superseded by the resolved version
+                    state.pendingSync = state.pendingSync.filter(op => op.taskId !== taskId || op.type !== 'update');
+
+                    pushActionLog(state, {
+                        taskId,
+                        taskTitle: task.title,
+                        actionType: 'updated',
+                        details: pushNeeded ? 'Conflict resolved with local changes' : 'Conflict resolved with server version',
+                    });
+
+                    refreshTaskNotification(task);
+
+                    return pushNeeded ? { type: 'update', taskId } : null;
+                }),
+                syncTasks: async () => {
+                    // Если уже идет синхронизация, не запускаем еще одну
+                    if (get().syncStatus === 'syncing') {
+                        return;
+                    }
+
+                    // Без входа синхронизация на паузе, изменения копятся в очереди
+                    if (useAuthStore.getState().status !== 'signedIn') {
+                        console.log('[Sync] Not signed in, sync paused');
+                        return;
+                    }
+
+                    if (retryTimer) {
+                        clearTimeout(retryTimer);
+                        retryTimer = null;
+                    }
+
+                    // Удаляем задачи, которые пролежали в корзине дольше срока - удаление уйдет первым же пакетом
+                    get().purgeTrash();
+
+                    // Отправляет очередь одним пакетом; весь результат пакета применяется к очереди за один set
+                    const pushPendingOperations = async () => {
+                        set((state) => {
+                            // Сжимаем очередь: объединяем update'ы, убираем пары create+delete
+                            state.pendingSync = compactSyncQueue(state.pendingSync);
+                        });
+                        const { pendingSync } = get();
+
+                        if (pendingSync.length > 0) {
+                            const batch = await syncPendingOperations(pendingSync);
 
-                try {
-                    await syncPendingOperations(
-                        pendingSync,
-                        // onOperationComplete
-                        (operationId) => {
-                            set((state) => {
-                                state.pendingSync = state.pendingSync.filter(op => op.id !== operationId);
-                            });
-                        },
-                        // onOperationFailed - операция превысила лимит retries
-                        (operationId, error) => {
-                            console.error('Sync operation failed after max retries:', error);
                             set((state) => {
-                                // Удаляем операцию, так как превышен лимит попыток
-                                state.pendingSync = state.pendingSync.filter(op => op.id !== operationId);
+                                const completed = new Set(batch.completed);
+                                for (const operation of state.pendingSync.filter(op => completed.has(op.id))) {
+                                    if (operation.type === 'delete') {
+                                        state.remoteTaskIds = state.remoteTaskIds.filter(id => id !== operation.taskId);
+                                    } else if (!state.remoteTaskIds.includes(operation.taskId)) {
+                                        state.remoteTaskIds.push(operation.taskId);
+                                    }
+                                }
+
+                                // Операции, исчерпавшие retries, переносим в dead letter, чтобы изменение не потерялось
+                                for (const { operationId, error } of batch.failed) {
+                                    const operation = state.pendingSync.find(op => op.id === operationId);
+                                    if (operation) {
+                                        state.deadLetters.push({
+                                            operation: { ...operation, lastError: error },
+                                            error,
+                                            failedAt: new Date().toISOString(),
+                                        });
+                                    }
+                                }
+
+                                // Остальные неудачные - откладываем следующую попытку
+                                for (const { operationId, error } of batch.retry) {
+                                    const operation = state.pendingSync.find(op => op.id === operationId);
+                                    if (operation) {
+                                        operation.nextAttemptAt = new Date(Date.now() + getRetryDelay(operation.retries)).toISOString();
+                                        operation.retries += 1;
+                                        operation.lastError = error;
+                                    }
+                                }
+
+                                // Задачу изменили на сервере - ждем решения пользователя
+                                for (const { operationId, remoteTask } of batch.conflicts) {
+                                    const operation = state.pendingSync.find(op => op.id === operationId);
+                                    const localIndex = state.tasks.findIndex(t => t.id === operation?.taskId);
+                                    const localTask = state.tasks[localIndex];
+                                    if (!operation || !localTask) {
+                                        continue;
+                                    }
+                                    state.conflicts = state.conflicts.filter(c => c.taskId !== operation.taskId);
+                                    forgetUndo(state, [operation.taskId]);
+                                    // Ни одно поле не расходится (например, задачу заархивировали на обоих устройствах) -
+                                    // выбирать нечего, берем серверную версию, как resolveConflict
+                                    if (!hasLocalChanges(localTask, remoteTask)) {
+                                        state.tasks[localIndex] = remoteTask;
+                                        state.pendingSync = state.pendingSync.filter(op => op.taskId !== operation.taskId || op.type !== 'update');
+                                        continue;
+                                    }
+                                    state.conflicts.push({
+                                        taskId: operation.taskId,
+                                        localTask: { ...localTask },
+                                        remoteTask,
+                                        detectedAt: new Date().toISOString(),
+                                    });
+                                }
+
+                                const removed = new Set([
+                                    ...batch.completed,
+                                    ...batch.failed.map(f => f.operationId),
+                                    ...batch.conflicts.map(c => c.operationId),
+                                ]);
+                                state.pendingSync = state.pendingSync.filter(op => !removed.has(op.id));
                             });
-                        },
-                        // onOperationRetry - операция провалилась, но retries < MAX_RETRIES
-                        (operationId) => {
+                        }
+                    };
+
+                    set((state) => {
+                        state.syncStatus = 'syncing';
+                    });
+
+                    try {
+                        // Сначала отправляем локальные изменения, потом забираем серверные
+                        await pushPendingOperations();
+
+                        // Проекты забираем до задач, чтобы новые задачи сразу попали в свои проекты
+                        await get().syncProjects();
+                        await get().pullTasks();
+
+                        // Давно завершенные задачи архивируем только после pull: обновление строится от последней
+                        // ревизии сервера, и задача, уже заархивированная на другом устройстве, не дает конфликт
+                        const queued = get().pendingSync.length;
+                        get().archiveFinishedTasks(true);
+                        if (get().pendingSync.length > queued) {
+                            await pushPendingOperations();
+                        }
+
+                        await get().syncComments();
+                        await get().syncCustomFields();
+
+                        set((state) => {
+                            state.syncStatus = 'success';
+                            state.lastSyncedAt = new Date().toISOString();
+                        });
+                        failedSyncs = 0;
+
+                        // Планируем повтор для операций, которые ждут своей очереди (backoff)
+                        const nextAttempts = get().pendingSync
+                            .filter(op => op.nextAttemptAt)
+                            .map(op => new Date(op.nextAttemptAt!).getTime());
+                        if (nextAttempts.length > 0) {
+                            scheduleSyncRetry(Math.max(0, Math.min(...nextAttempts) - Date.now()), get().syncTasks);
+                        }
+                    } catch (error) {
+                        console.error('Sync failed:', error);
+                        set((state) => {
+                            state.syncStatus = 'error';
+                        });
+                        if (error instanceof AuthError) {
+                            // Токен больше не действует - ждем повторного входа, без автоматических повторов
+                            useAuthStore.getState().expireSession().catch(console.error);
+                            return;
+                        }
+                        // Сервер недоступен - повторяем с экспоненциальной задержкой, если есть что отправлять
+                        if (get().pendingSync.length > 0) {
+                            scheduleSyncRetry(getRetryDelay(failedSyncs), get().syncTasks);
+                        }
+                        failedSyncs += 1;
+                    } finally {
+                        // Через 2 секунды сбрасываем статус на idle
+                        setTimeout(() => {
                             set((state) => {
-                                // Увеличиваем retries для операции, которая останется в очереди
-                                const operation = state.pendingSync.find(op => op.id === operationId);
-                                if (operation) {
-                                    operation.retries += 1;
+                                if (state.syncStatus === 'success' || state.syncStatus === 'error') {
+                                    state.syncStatus = 'idle';
                                 }
                             });
-                        }
+                        }, 2000);
+                    }
+                },
+                pullTasks: async () => {
+                    const remoteTasks = await fetchTasksFromServer();
+                    const { tasks, pendingSync, remoteTaskIds, conflicts } = get();
+                    const merge = mergeRemoteTasks(
+                        tasks,
+                        remoteTasks,
+                        pendingSync,
+                        remoteTaskIds,
+                        conflicts.map(c => c.taskId)
                     );
 
+                    console.log(`[Sync] Pulled ${remoteTasks.length} task(s): ${merge.created.length} new, ${merge.updated.length} updated, ${merge.deleted.length} deleted`);
+
+                    set((state) => {
+                        state.tasks = merge.tasks;
+                        state.remoteTaskIds = merge.remoteTaskIds;
+                        forgetUndo(state, [...merge.created, ...merge.updated, ...merge.deleted].map(t => t.id));
+
+                        // Keep the server side of unresolved conflicts up to date
+                        for (const conflict of state.conflicts) {
+                            const remoteTask = remoteTasks.find(t => t.id === conflict.taskId);
+                            if (remoteTask) {
+                                conflict.remoteTask = remoteTask;
+                            }
+                        }
+
+                        for (const task of merge.created) {
+                            // Nothing to report about a task this device never showed
+                            if (isTrashed(task)) {
+                                continue;
+                            }
+                            pushActionLog(state, {
+                                taskId: task.id,
+                                taskTitle: task.title,
+                                actionType: 'created',
+                                details: 'Received from server',
+                                origin: 'remote',
+                            });
+                        }
+                        for (const task of merge.updated) {
+                            pushActionLog(state, {
+                                taskId: task.id,
+                                taskTitle: task.title,
+                                ...describeRemoteUpdate(tasks.find(t => t.id === task.id), task, tasks),
+                                origin: 'remote',
+                            });
+                        }
+                        for (const task of merge.deleted) {
+                            pushActionLog(state, {
+                                taskId: task.id,
+                                taskTitle: task.title,
+                                actionType: 'deleted',
+                                details: 'Deleted on server',
+                                origin: 'remote',
+                            });
+                        }
+                    });
+
+                    // merge содержит обычные объекты, а не Proxy, поэтому их можно передавать напрямую
+                    for (const task of [...merge.created, ...merge.updated]) {
+                        refreshTaskNotification(task);
+                    }
+                    for (const task of merge.deleted) {
+                        cancelTaskNotification(task.id).catch(console.error);
+                    }
+                },
+                syncProjects: async () => {
+                    const remoteProjects = await syncProjectsWithServer(get().projects);
+                    set((state) => {
+                        // Merged against the current state: projects edited while the request was in flight are kept
+                        const { merged: projects, received } = mergeByUpdatedAt(state.projects, remoteProjects);
+                        const previous = state.projects;
+                        state.projects = projects;
+                        for (const project of received) {
+                            const local = previous.find(p => p.id === project.id);
+                            // Nothing to report about a project this device never showed
+                            if (project.deleted && (!local || local.deleted)) {
+                                continue;
+                            }
+                            pushActionLog(state, {
+                                taskId: project.id,
+                                taskTitle: project.name,
+                                actionType: project.deleted ? 'project_deleted' : local ? 'project_updated' : 'project_created',
+                                details: project.deleted ? 'Deleted on another device' : local ? 'Updated on another device' : 'Received from server',
+                                origin: 'remote',
+                            });
+                        }
+                    });
+                },
+                syncComments: async () => {
+                    const remoteComments = await syncCommentsWithServer(get().comments);
                     set((state) => {
-                        state.syncStatus = 'success';
+                        // Merged against the current state: comments written while the request was in flight are kept
+                        state.comments = mergeByUpdatedAt(state.comments, remoteComments).merged;
                     });
-                } catch (error) {
-                    console.error('Sync failed:', error);
+                },
+                syncCustomFields: async () => {
+                    const remoteFields = await syncCustomFieldsWithServer(get().customFieldDefinitions);
                     set((state) => {
-                        state.syncStatus = 'error';
+                        // Merged against the current state: fields edited while the request was in flight are kept
+                        state.customFieldDefinitions = mergeByUpdatedAt(state.customFieldDefinitions, remoteFields).merged;
                     });
-                } finally {
-                    // Через 2 секунды сбрасываем статус на idle
-                    setTimeout(() => {
+                },
+                applyRemoteChange: (event) => {
+                    const { tasks, pendingSync, conflicts } = get();
+                    // Local changes not yet pushed win for now; the next sync reconciles them
+                    // the same way pullTasks does
+                    if (pendingSync.some(op => op.taskId === event.taskId) || conflicts.some(c => c.taskId === event.taskId)) {
+                        return;
+                    }
+                    const localTask = tasks.find(t => t.id === event.taskId);
+
+                    if (event.type === 'task.deleted') {
                         set((state) => {
-                            if (state.syncStatus === 'success' || state.syncStatus === 'error') {
-                                state.syncStatus = 'idle';
+                            state.remoteTaskIds = state.remoteTaskIds.filter(id => id !== event.taskId);
+                            if (!localTask) {
+                                return;
                             }
+                            state.tasks = state.tasks.filter(t => t.id !== event.taskId);
+                            forgetUndo(state, [event.taskId]);
+                            pushActionLog(state, {
+                                taskId: localTask.id,
+                                taskTitle: localTask.title,
+                                actionType: 'deleted',
+                                details: 'Deleted on server',
+                                origin: 'remote',
+                            });
+                        });
+                        if (localTask) {
+                            cancelTaskNotification(localTask.id).catch(console.error);
+                        }
+                        return;
+                    }
+
+                    const remoteTask = event.task;
+                    const isNew = !localTask;
+                    const changed = isNew || isRemoteNewer(localTask, remoteTask);
+                    set((state) => {
+                        if (!state.remoteTaskIds.includes(remoteTask.id)) {
+                            state.remoteTaskIds.push(remoteTask.id);
+                        }
+                        if (!changed) {
+                            return;
+                        }
+                        if (isNew) {
+                            state.tasks.push(remoteTask);
+                        } else {
+                            state.tasks = state.tasks.map(t => (t.id === remoteTask.id ? remoteTask : t));
+                        }
+                        forgetUndo(state, [remoteTask.id]);
+                        // Nothing to report about a task this device never showed
+                        if (isNew && isTrashed(remoteTask)) {
+                            return;
+                        }
+                        pushActionLog(state, {
+                            taskId: remoteTask.id,
+                            taskTitle: remoteTask.title,
+                            ...(isNew
+                                ? { actionType: 'created' as const, details: 'Received from server' }
+                                : describeRemoteUpdate(localTask, remoteTask, state.tasks)),
+                            origin: 'remote',
                         });
-                    }, 2000);
+                    });
+                    if (changed) {
+                        refreshTaskNotification(remoteTask);
+                    }
                 }
-            }
-        })),
+            };
+        }),
         { 
             name: "tm:tasks:v2", 
-            storage: createJSONStorage(() => AsyncStorage),
+            // One row per record in SQLite, only changed records are written, see lib/taskDatabase.ts
+            storage: createTaskStorage<PersistedTaskState>(),
+            // Stored data of an older version goes through the numbered migrations, see lib/migrations.ts
+            version: TASK_STORE_VERSION,
+            migrate: (persistedState, version) => {
+                const { state, quarantined } = runMigrations(persistedState, version);
+                quarantineRecords(quarantined);
+                return state as PersistedTaskState;
+            },
+            // Every rehydration is validated: broken records are quarantined instead of
+            // crashing the screens that read them
+            merge: (persistedState, currentState) => {
+                const { state, quarantined } = validatePersistedState(persistedState);
+                quarantineRecords(quarantined);
+                return { ...currentState, ...(state as PersistedTaskState) };
+            },
+            // syncStatus describes the running app only; a persisted 'syncing'
+            // (app closed mid-sync) would block every following sync.
+            // Undo covers the current session only
+            partialize: ({ syncStatus, undoStack, redoStack, loadError, ...state }): PersistedTaskState => state,
+            // A failed load is shown by the root layout, which offers to load again (persist.rehydrate)
+            onRehydrateStorage: () => (_state, error) => {
+                if (error || useTaskStore.getState().loadError) {
+                    useTaskStore.setState({ loadError: error ? describeError(error) : null });
+                }
+            },
         }
     )
 );
\ No newline at end of file
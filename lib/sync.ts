@@ -1,11 +1,14 @@
-import { Task, SyncOperation } from './types';
+import { Task, SyncOperation, Project, TaskComment, CustomFieldDefinition } from './types';
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
+import { nanoid } from 'nanoid/non-secure';
+import { useSettingsStore } from './settingsStore';
+import { useAuthStore } from './authStore';
 
-// API base URL - можно настроить через переменные окружения
+// API base URL по умолчанию, если пользователь не указал адрес в настройках
 // На Android эмуляторе используем 10.0.2.2 вместо localhost
 // На реальных устройствах (через Expo Go) нужен IP адрес компьютера
-const getApiBaseUrl = (): string => {
+export const getDefaultApiUrl = (): string => {
     // Можно переопределить через переменную окружения в app.json
     if (Constants.expoConfig?.extra?.apiUrl) {
         return Constants.expoConfig.extra.apiUrl;
@@ -44,7 +47,7 @@ const getApiBaseUrl = (): string => {
                 
                 // Если не получилось определить автоматически, используем localhost
                 // Но это не сработает на реальном устройстве, поэтому лучше указать в app.json
-                console.warn('[Sync] Real iOS device detected but IP not found. Using localhost (may not work). Set apiUrl in app.json extra section.');
+                console.warn('[Sync] Real iOS device detected but IP not found. Using localhost (may not work). Set the server URL in Settings or apiUrl in app.json extra section.');
                 return 'http://localhost:3000';
             } else {
                 // Симулятор - localhost работает
@@ -59,181 +62,428 @@ const getApiBaseUrl = (): string => {
     return 'http://localhost:3000';
 };
 
-const API_BASE_URL = getApiBaseUrl();
+const DEFAULT_API_URL = getDefaultApiUrl();
 
 // Логируем какой URL используется при старте
-console.log(`[Sync] Platform: ${Platform.OS}, Execution: ${Constants.executionEnvironment}, API URL: ${API_BASE_URL}`);
+console.log(`[Sync] Platform: ${Platform.OS}, Execution: ${Constants.executionEnvironment}, default API URL: ${DEFAULT_API_URL}`);
 
-const MAX_RETRIES = 3;
+/**
+ * Текущий адрес сервера: из настроек, иначе определенный автоматически.
+ * Читается при каждом запросе, поэтому смена адреса работает без перезапуска
+ */
+export function getApiBaseUrl(): string {
+    return useSettingsStore.getState().apiUrl || DEFAULT_API_URL;
+}
+
+/**
+ * Приводит введенный адрес к виду http(s)://host[:port] без завершающего слеша,
+ * null если адрес некорректный
+ */
+export function normalizeApiUrl(input: string): string | null {
+    let url = input.trim().replace(/\/+$/, '');
+    if (!url) {
+        return null;
+    }
+    if (!/^https?:\/\//i.test(url)) {
+        url = `http://${url}`;
+    }
+    return /^https?:\/\/[^\s/:]+(:\d+)?(\/\S*)?$/i.test(url) ? url : null;
+}
+
+/**
+ * Идентификатор этого запуска приложения. Сервер не присылает по WebSocket
+ * события об изменениях, которые сделал сам этот клиент
+ */
+export const CLIENT_ID = nanoid();
+
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Задержка перед следующей попыткой: экспоненциальный рост с потолком
+ * и случайным разбросом (jitter), чтобы устройства не долбили сервер одновременно
+ */
+export function getRetryDelay(attempt: number): number {
+    const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
 
 /**
- * Проверяет доступность API сервера
+ * true если время следующей попытки для операции уже наступило
  */
-export async function checkApiConnection(): Promise<boolean> {
+export function isOperationDue(operation: SyncOperation, now: number = Date.now()): boolean {
+    return !operation.nextAttemptAt || new Date(operation.nextAttemptAt).getTime() <= now;
+}
+
+/**
+ * Сервер отклонил токен (401) - синхронизация приостанавливается до повторного входа
+ */
+export class AuthError extends Error {
+    constructor(message: string = 'Authentication required') {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * Заголовки для запросов к API, с токеном если пользователь вошел
+ */
+function getApiHeaders(): Record<string, string> {
+    const { token } = useAuthStore.getState();
+    return {
+        'Content-Type': 'application/json',
+        'X-Client-Id': CLIENT_ID,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+}
+
+/**
+ * fetch к текущему серверу с заголовком Authorization; 401 превращается в AuthError
+ */
+async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${getApiBaseUrl()}${path}`, {
+        ...init,
+        headers: {
+            ...getApiHeaders(),
+            ...(init.headers as Record<string, string> | undefined),
+        },
+    });
+
+    if (response.status === 401) {
+        throw new AuthError();
+    }
+
+    return response;
+}
+
+export type ConnectionTestResult = {
+    ok: boolean;
+    latencyMs: number;
+    status?: number; // HTTP статус, если сервер ответил
+    error?: string;
+};
+
+/**
+ * Проверяет доступность API сервера по указанному адресу (по умолчанию - текущему)
+ * и возвращает подробный результат для экрана настроек
+ */
+export async function testApiConnection(baseUrl: string = getApiBaseUrl()): Promise<ConnectionTestResult> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+
     try {
-        console.log(`[Sync] Checking API connection to ${API_BASE_URL}...`);
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000);
-        
-        const response = await fetch(`${API_BASE_URL}/tasks`, {
+        console.log(`[Sync] Checking API connection to ${baseUrl}...`);
+        // /health отвечает без токена и без данных - только подтверждает, что сервер жив
+        const response = await fetch(`${baseUrl}/health`, {
             method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
             signal: controller.signal,
         });
-        
-        clearTimeout(timeoutId);
-        const isOk = response.ok;
-        console.log(`[Sync] API connection check: ${isOk ? 'OK' : 'FAILED'} (status: ${response.status})`);
-        return isOk;
+
+        const latencyMs = Date.now() - startedAt;
+        const ok = response.ok;
+        console.log(`[Sync] API connection check: ${ok ? 'OK' : 'FAILED'} (status: ${response.status}, ${latencyMs}ms)`);
+        return {
+            ok,
+            latencyMs,
+            status: response.status,
+            error: ok ? undefined : `Server responded with ${response.status} ${response.statusText}`.trim(),
+        };
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
+        const aborted = error instanceof Error && error.name === 'AbortError';
+        const errorMessage = aborted
+            ? 'Timed out after 5 seconds'
+            : error instanceof Error ? error.message : String(error);
         console.warn(`[Sync] API connection check failed: ${errorMessage}`);
-        console.warn(`[Sync] Trying to connect to: ${API_BASE_URL}`);
-        return false;
+        console.warn(`[Sync] Trying to connect to: ${baseUrl}`);
+        return { ok: false, latencyMs: Date.now() - startedAt, error: errorMessage };
+    } finally {
+        clearTimeout(timeoutId);
     }
 }
 
+export type LoginResponse = {
+    token: string;
+    expiresAt: string;
+    user: { id: string; username: string };
+};
+
 /**
- * Создает задачу на сервере
+ * Обменивает логин и пароль на токен
  */
-export async function createTaskOnServer(task: Task): Promise<Task> {
-    const response = await fetch(`${API_BASE_URL}/tasks`, {
+export async function loginOnServer(username: string, password: string): Promise<LoginResponse> {
+    const response = await fetch(`${getApiBaseUrl()}/login`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
         },
-        body: JSON.stringify(task),
+        body: JSON.stringify({ username, password }),
     });
 
+    if (response.status === 401) {
+        throw new Error('Invalid username or password');
+    }
+
     if (!response.ok) {
-        throw new Error(`Failed to create task: ${response.statusText}`);
+        throw new Error(`Failed to sign in: ${response.status} ${response.statusText}`.trim());
     }
 
     return await response.json();
 }
 
 /**
- * Обновляет задачу на сервере
+ * Получает все задачи с сервера
  */
-export async function updateTaskOnServer(taskId: string, task: Task): Promise<Task> {
-    const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
-        method: 'PUT',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(task),
+export async function fetchTasksFromServer(): Promise<Task[]> {
+    const response = await apiFetch(`/tasks`, {
+        method: 'GET',
     });
 
     if (!response.ok) {
-        throw new Error(`Failed to update task: ${response.statusText}`);
+        throw new Error(`Failed to fetch tasks: ${response.statusText}`);
     }
 
     return await response.json();
 }
 
 /**
- * Удаляет задачу на сервере
+ * Отправляет все локальные проекты (включая удаленные) и получает проекты с сервера.
+ * Сервер по каждому проекту оставляет версию с более поздним updatedAt
  */
-export async function deleteTaskOnServer(taskId: string): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
-        method: 'DELETE',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+export async function syncProjectsWithServer(projects: Project[]): Promise<Project[]> {
+    const response = await apiFetch(`/projects/sync`, {
+        method: 'POST',
+        body: JSON.stringify({ projects }),
     });
 
     if (!response.ok) {
-        throw new Error(`Failed to delete task: ${response.statusText}`);
+        throw new Error(`Failed to sync projects: ${response.statusText}`);
     }
+
+    const result = await response.json();
+    return result.projects;
 }
 
 /**
- * Получает все задачи с сервера
+ * Отправляет все локальные комментарии (включая удаленные) и получает комментарии с сервера.
+ * Слияние такое же, как у проектов: побеждает версия с более поздним updatedAt
  */
-export async function fetchTasksFromServer(): Promise<Task[]> {
-    const response = await fetch(`${API_BASE_URL}/tasks`, {
-        method: 'GET',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+export async function syncCommentsWithServer(comments: TaskComment[]): Promise<TaskComment[]> {
+    const response = await apiFetch(`/comments/sync`, {
+        method: 'POST',
+        body: JSON.stringify({ comments }),
     });
 
     if (!response.ok) {
-        throw new Error(`Failed to fetch tasks: ${response.statusText}`);
+        throw new Error(`Failed to sync comments: ${response.statusText}`);
     }
 
-    return await response.json();
+    const result = await response.json();
+    return result.comments;
 }
 
 /**
- * Выполняет одну операцию синхронизации
+ * Отправляет все локальные описания пользовательских полей (включая удаленные) и получает поля с сервера.
+ * Значения полей хранятся в самих задачах и синхронизируются вместе с ними
  */
-export async function executeSyncOperation(operation: SyncOperation): Promise<void> {
-    switch (operation.type) {
-        case 'create':
-            if (!operation.taskData) {
-                throw new Error('Task data is required for create operation');
-            }
-            await createTaskOnServer(operation.taskData);
-            break;
-        case 'update':
-            if (!operation.taskData) {
-                throw new Error('Task data is required for update operation');
-            }
-            await updateTaskOnServer(operation.taskId, operation.taskData);
-            break;
-        case 'delete':
-            await deleteTaskOnServer(operation.taskId);
-            break;
-        default:
-            throw new Error(`Unknown operation type: ${(operation as any).type}`);
+export async function syncCustomFieldsWithServer(fields: CustomFieldDefinition[]): Promise<CustomFieldDefinition[]> {
+    const response = await apiFetch(`/fields/sync`, {
+        method: 'POST',
+        body: JSON.stringify({ fields }),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to sync custom fields: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.fields;
+}
+
+// Результат одной операции из пакета, как его возвращает POST /sync
+export type SyncOperationResult = {
+    id: string;
+    status: 'ok' | 'conflict' | 'error';
+    task?: Task; // Версия задачи на сервере после операции
+    remoteTask?: Task; // Для conflict - текущая версия на сервере
+    error?: string;
+};
+
+// Итог отправки очереди, разложенный по тому, что store должен сделать с каждой операцией
+export type SyncBatchResult = {
+    completed: string[];
+    retry: { operationId: string; error: string }[];
+    failed: { operationId: string; error: string }[];
+    conflicts: { operationId: string; remoteTask: Task }[];
+};
+
+/**
+ * Отправляет операции одним запросом POST /sync и возвращает результат по каждой
+ */
+export async function sendSyncBatch(operations: SyncOperation[]): Promise<SyncOperationResult[]> {
+    let response: Response;
+    try {
+        response = await apiFetch(`/sync`, {
+            method: 'POST',
+            body: JSON.stringify({
+                operations: operations.map(({ id, type, taskId, taskData, baseRevision }) => ({
+                    id,
+                    type,
+                    taskId,
+                    taskData,
+                    baseRevision,
+                })),
+            }),
+        });
+    } catch (error) {
+        if (error instanceof AuthError) {
+            throw error;
+        }
+        throw new Error(`API server is not available at ${getApiBaseUrl()}. Make sure the task server is running with: npm run server`);
     }
+
+    if (!response.ok) {
+        throw new Error(`Failed to sync: ${response.status} ${response.statusText}`.trim());
+    }
+
+    const { results } = await response.json();
+    return results;
 }
 
 /**
- * Выполняет синхронизацию всех операций из очереди
+ * Отправляет все операции из очереди, время которых пришло, одним запросом.
+ * Ничего не меняет сам - store применяет результат к pendingSync за один set()
  */
-export async function syncPendingOperations(
-    operations: SyncOperation[],
-    onOperationComplete: (operationId: string) => void,
-    onOperationFailed: (operationId: string, error: Error) => void,
-    onOperationRetry: (operationId: string) => void
-): Promise<void> {
-    console.log(`[Sync] Starting sync for ${operations.length} operation(s)...`);
-    
-    // Проверяем доступность API
-    const isConnected = await checkApiConnection();
-    if (!isConnected) {
-        const error = new Error(`API server is not available at ${API_BASE_URL}. Make sure json-server is running with: npm run server`);
-        console.error(`[Sync] ${error.message}`);
-        throw error;
-    }
-
-    // Выполняем операции последовательно
-    for (const operation of operations) {
-        try {
-            console.log(`[Sync] Executing ${operation.type} operation for task ${operation.taskId}...`);
-            await executeSyncOperation(operation);
-            console.log(`[Sync] ✓ Successfully synced ${operation.type} operation for task ${operation.taskId}`);
-            onOperationComplete(operation.id);
-        } catch (error) {
-            const err = error instanceof Error ? error : new Error(String(error));
-            
-            // Если операция провалилась и retries < MAX_RETRIES, увеличиваем retries
-            if (operation.retries < MAX_RETRIES) {
-                // Вызываем onOperationRetry чтобы увеличить retries, операция останется в очереди
-                console.warn(`[Sync] ✗ Operation failed, will retry (${operation.retries + 1}/${MAX_RETRIES}):`, err.message);
-                onOperationRetry(operation.id);
+export async function syncPendingOperations(operations: SyncOperation[]): Promise<SyncBatchResult> {
+    const batch: SyncBatchResult = { completed: [], retry: [], failed: [], conflicts: [] };
+
+    // Пропускаем операции, время повтора которых еще не пришло
+    const now = Date.now();
+    const dueOperations = operations.filter(op => isOperationDue(op, now));
+    if (dueOperations.length < operations.length) {
+        console.log(`[Sync] Skipping ${operations.length - dueOperations.length} operation(s) waiting for retry`);
+    }
+    if (dueOperations.length === 0) {
+        return batch;
+    }
+
+    console.log(`[Sync] Sending ${dueOperations.length} operation(s) in one batch...`);
+    // AuthError и недоступность сервера пробрасываем - очередь остается как есть
+    const results = await sendSyncBatch(dueOperations);
+    const resultsById = new Map(results.map(result => [result.id, result]));
+
+    for (const operation of dueOperations) {
+        const result = resultsById.get(operation.id);
+        if (result?.status === 'ok') {
+            batch.completed.push(operation.id);
+            continue;
+        }
+        if (result?.status === 'conflict' && result.remoteTask) {
+            // Конфликт не лечится повторной отправкой - его разрешает пользователь
+            console.warn(`[Sync] ✗ Conflict for task ${operation.taskId}`);
+            batch.conflicts.push({ operationId: operation.id, remoteTask: result.remoteTask });
+            continue;
+        }
+
+        const error = result?.error ?? 'No result returned by the server';
+        if (operation.retries < MAX_RETRIES) {
+            console.warn(`[Sync] ✗ ${operation.type} for task ${operation.taskId} failed, will retry (${operation.retries + 1}/${MAX_RETRIES}):`, error);
+            batch.retry.push({ operationId: operation.id, error });
+        } else {
+            console.error(`[Sync] ✗ ${operation.type} for task ${operation.taskId} failed after ${MAX_RETRIES} retries:`, error);
+            batch.failed.push({ operationId: operation.id, error });
+        }
+    }
+
+    console.log(`[Sync] Batch done: ${batch.completed.length} ok, ${batch.retry.length} to retry, ${batch.failed.length} failed, ${batch.conflicts.length} conflict(s)`);
+    return batch;
+}
+
+
+export type RemoteMergeResult = {
+    tasks: Task[];
+    created: Task[];
+    updated: Task[];
+    deleted: Task[];
+    remoteTaskIds: string[];
+};
+
+/**
+ * Время последнего изменения задачи (для старых задач без updatedAt - время создания)
+ */
+export function getTaskModifiedAt(task: Task): number {
+    return new Date(task.updatedAt ?? task.createdAt).getTime();
+}
+
+/**
+ * true если серверная версия задачи новее локальной: сравниваем ревизии,
+ * а при равных ревизиях (или старых задачах без них) - время изменения
+ */
+export function isRemoteNewer(local: Task, remote: Task): boolean {
+    const localRevision = local.revision ?? 0;
+    const remoteRevision = remote.revision ?? 0;
+    if (localRevision !== remoteRevision) {
+        return remoteRevision > localRevision;
+    }
+    return getTaskModifiedAt(remote) > getTaskModifiedAt(local);
+}
+
+/**
+ * Сливает задачи с сервера с локальными.
+ * - задачи с незавершенными операциями в очереди или неразрешенным конфликтом не трогаем
+ * - новые задачи с сервера добавляем
+ * - если серверная версия изменена позже локальной - заменяем локальную
+ * - если задача уже была на сервере (knownRemoteIds), а теперь ее нет - значит ее удалили
+ */
+export function mergeRemoteTasks(
+    localTasks: Task[],
+    remoteTasks: Task[],
+    pendingOperations: SyncOperation[],
+    knownRemoteIds: string[],
+    conflictTaskIds: string[] = []
+): RemoteMergeResult {
+    const pendingTaskIds = new Set([...pendingOperations.map(op => op.taskId), ...conflictTaskIds]);
+    const remoteById = new Map(remoteTasks.map(task => [task.id, task]));
+    const localIds = new Set(localTasks.map(task => task.id));
+    const known = new Set(knownRemoteIds);
+
+    const created: Task[] = [];
+    const updated: Task[] = [];
+    const deleted: Task[] = [];
+    const tasks: Task[] = [];
+
+    for (const local of localTasks) {
+        const remote = remoteById.get(local.id);
+        if (pendingTaskIds.has(local.id)) {
+            tasks.push(local);
+        } else if (!remote) {
+            if (known.has(local.id)) {
+                deleted.push(local);
             } else {
-                // Превышен лимит попыток
-                console.error(`[Sync] ✗ Operation failed after ${MAX_RETRIES} retries:`, err.message);
-                onOperationFailed(operation.id, err);
+                // Задача еще ни разу не попадала на сервер - не удаляем
+                tasks.push(local);
             }
+        } else if (isRemoteNewer(local, remote)) {
+            tasks.push(remote);
+            updated.push(remote);
+        } else {
+            tasks.push(local);
         }
     }
-    
-    console.log(`[Sync] Sync completed`);
-}
 
+    for (const remote of remoteTasks) {
+        if (!localIds.has(remote.id) && !pendingTaskIds.has(remote.id)) {
+            tasks.push(remote);
+            created.push(remote);
+        }
+    }
+
+    return {
+        tasks,
+        created,
+        updated,
+        deleted,
+        remoteTaskIds: remoteTasks.map(task => task.id),
+    };
+}
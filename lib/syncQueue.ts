@@ -0,0 +1,43 @@
+import { SyncOperation } from './types';
+
+/**
+ * Adds an operation to the sync queue, folding it into operations already
+ * queued for the same task:
+ * - update after create → the create just carries the newer task data
+ * - update after update → one update with the newer data and the original baseRevision
+ * - delete after create → the task never reaches the server, both are dropped
+ * - delete after update → updates are dropped, only the delete is sent
+ */
+export function enqueueSyncOperation(queue: SyncOperation[], operation: SyncOperation): SyncOperation[] {
+    const pendingCreate = queue.find(op => op.taskId === operation.taskId && op.type === 'create');
+    const pendingUpdate = queue.find(op => op.taskId === operation.taskId && op.type === 'update');
+
+    switch (operation.type) {
+        case 'update':
+            if (pendingCreate) {
+                return queue.map(op => op === pendingCreate
+                    ? { ...op, taskData: operation.taskData, timestamp: operation.timestamp }
+                    : op);
+            }
+            if (pendingUpdate) {
+                return queue.map(op => op === pendingUpdate
+                    ? { ...op, taskData: operation.taskData, timestamp: operation.timestamp }
+                    : op);
+            }
+            return [...queue, operation];
+        case 'delete': {
+            const withoutTask = queue.filter(op => op.taskId !== operation.taskId);
+            return pendingCreate ? withoutTask : [...withoutTask, operation];
+        }
+        default:
+            return [...queue, operation];
+    }
+}
+
+/**
+ * Rebuilds the whole queue through enqueueSyncOperation, e.g. after operations
+ * were appended without merging while a sync was running
+ */
+export function compactSyncQueue(queue: SyncOperation[]): SyncOperation[] {
+    return queue.reduce<SyncOperation[]>((compacted, op) => enqueueSyncOperation(compacted, op), []);
+}
@@ -0,0 +1,116 @@
+import { Task } from './types';
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS_PER_TASK = 10;
+
+// Palette offered on the tag management screen
+export const TAG_COLORS = [
+    '#6366f1',
+    '#0ea5e9',
+    '#14b8a6',
+    '#10b981',
+    '#84cc16',
+    '#f59e0b',
+    '#f97316',
+    '#ef4444',
+    '#ec4899',
+    '#8b5cf6',
+    '#64748b',
+];
+
+export type TagSummary = {
+    name: string;
+    count: number; // Number of tasks with this tag
+};
+
+// Tags are compared case-insensitively: "Home" and "home" are the same tag
+export const getTagKey = (tag: string) => tag.toLowerCase();
+
+export const isSameTag = (a: string, b: string) => getTagKey(a) === getTagKey(b);
+
+/**
+ * Cleans up a tag typed by the user: trims, collapses spaces and drops a leading "#".
+ * Returns an empty string if nothing is left
+ */
+export function normalizeTag(input: string): string {
+    return input
+        .trim()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Adds a tag to the list unless the same tag (ignoring case) is already there
+ */
+export function addTag(tags: string[], tag: string): string[] {
+    const normalized = normalizeTag(tag);
+    if (!normalized || tags.some(t => isSameTag(t, normalized))) {
+        return tags;
+    }
+    return [...tags, normalized];
+}
+
+/**
+ * Replaces `from` with `to` in a tag list (null removes it), without creating duplicates
+ */
+export function replaceTag(tags: string[], from: string, to: string | null): string[] {
+    const result: string[] = [];
+    for (const tag of tags) {
+        const next = isSameTag(tag, from) ? to : tag;
+        if (next && !result.some(t => isSameTag(t, next))) {
+            result.push(next);
+        }
+    }
+    return result;
+}
+
+export const hasTag = (task: Pick<Task, 'tags'>, tag: string) => (task.tags ?? []).some(t => isSameTag(t, tag));
+
+/**
+ * All tags used by the tasks with the number of tasks for each, sorted by name.
+ * The first spelling met wins when the same tag is written in different case
+ */
+export function collectTags(tasks: Task[]): TagSummary[] {
+    const summaries = new Map<string, TagSummary>();
+    for (const task of tasks) {
+        for (const tag of task.tags ?? []) {
+            const summary = summaries.get(getTagKey(tag));
+            if (summary) {
+                summary.count += 1;
+            } else {
+                summaries.set(getTagKey(tag), { name: tag, count: 1 });
+            }
+        }
+    }
+    return [...summaries.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Autocomplete for the tag input: existing tags containing the query, prefix matches first
+ */
+export function suggestTags(allTags: string[], query: string, exclude: string[], limit: number = 6): string[] {
+    const needle = getTagKey(normalizeTag(query));
+    return allTags
+        .filter(tag => !exclude.some(t => isSameTag(t, tag)))
+        .filter(tag => getTagKey(tag).includes(needle))
+        .sort((a, b) => Number(!getTagKey(a).startsWith(needle)) - Number(!getTagKey(b).startsWith(needle)))
+        .slice(0, limit);
+}
+
+/**
+ * Color of a tag: the one picked by the user, otherwise a stable color derived from the name,
+ * so the same tag looks the same on every device
+ */
+export function getTagColor(tag: string, tagColors: Record<string, string>): string {
+    const custom = tagColors[getTagKey(tag)];
+    if (custom) {
+        return custom;
+    }
+    let hash = 0;
+    for (const char of getTagKey(tag)) {
+        hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    }
+    return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length] ?? '#64748b';
+}
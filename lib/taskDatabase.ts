@@ -0,0 +1,331 @@
+import { Platform } from 'react-native';
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import { PersistedState, QuarantinedRecord, createQuarantiningStorage, describeError, quarantine, quarantineRecords } from './migrations';
+
+const DATABASE_NAME = 'tasks.db';
+const VERSION_KEY = '@version'; // Meta row with the version of the stored data, missing until the first write
+
+type StoredRecord = Record<string, unknown>;
+type Write = [sql: string, params: SQLite.SQLiteBindValue[]];
+
+// Collections stored one row per record in `records`, by the key of the record in its collection.
+// Tasks have a table of their own with indexed columns; other values go to `meta` as JSON
+const RECORD_COLLECTIONS: Record<string, (record: StoredRecord) => string> = {
+    pendingSync: operation => String(operation.id),
+    actionLogs: log => String(log.id),
+    projects: project => String(project.id),
+    comments: comment => String(comment.id),
+    customFieldDefinitions: field => String(field.id),
+    conflicts: conflict => String(conflict.taskId),
+    deadLetters: deadLetter => String((deadLetter.operation as StoredRecord | undefined)?.id),
+};
+
+const getRecordId = (collection: string, record: StoredRecord) =>
+    collection === 'tasks' ? String(record.id) : RECORD_COLLECTIONS[collection]!(record);
+
+const isStoredCollection = (key: string) => key === 'tasks' || key in RECORD_COLLECTIONS;
+
+const SCHEMA = `
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY NOT NULL,
+        position INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        datetime TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS tasks_status ON tasks (status);
+    CREATE INDEX IF NOT EXISTS tasks_datetime ON tasks (datetime);
+    CREATE INDEX IF NOT EXISTS tasks_created_at ON tasks (created_at);
+    CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+    );
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT NOT NULL
+    );
+`;
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const getDatabase = () => {
+    if (!databasePromise) {
+        databasePromise = SQLite.openDatabaseAsync(DATABASE_NAME).then(async db => {
+            await db.execAsync(SCHEMA);
+            return db;
+        });
+        // A failed open is retried on the next access
+        databasePromise.catch(() => {
+            databasePromise = null;
+        });
+    }
+    return databasePromise;
+};
+
+const upsert = (collection: string, id: string, position: number, record: StoredRecord): Write =>
+    collection === 'tasks'
+        ? [
+            'INSERT OR REPLACE INTO tasks (id, position, status, datetime, created_at, data) VALUES (?, ?, ?, ?, ?, ?)',
+            [id, position, String(record.status ?? ''), String(record.datetime ?? ''), String(record.createdAt ?? ''), JSON.stringify(record)],
+        ]
+        : ['INSERT OR REPLACE INTO records (collection, id, position, data) VALUES (?, ?, ?, ?)', [collection, id, position, JSON.stringify(record)]];
+
+const move = (collection: string, id: string, position: number): Write =>
+    collection === 'tasks'
+        ? ['UPDATE tasks SET position = ? WHERE id = ?', [position, id]]
+        : ['UPDATE records SET position = ? WHERE collection = ? AND id = ?', [position, collection, id]];
+
+const remove = (collection: string, id: string): Write =>
+    collection === 'tasks'
+        ? ['DELETE FROM tasks WHERE id = ?', [id]]
+        : ['DELETE FROM records WHERE collection = ? AND id = ?', [collection, id]];
+
+const setVersion = (version: number | undefined): Write =>
+    ['INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [VERSION_KEY, String(version ?? 0)]];
+
+// Collections the store keeps newest first. They are stored oldest first, so that a new entry
+// is appended after the stored ones instead of moving all of them down
+const NEWEST_FIRST = new Set(['actionLogs']);
+
+/**
+ * Sort key each record was written with. Keys only have to grow along a collection, so records
+ * keep theirs when others are added or removed, and only records that changed places are moved
+ */
+export type Positions = WeakMap<object, number>;
+
+const asRecords = (value: unknown): StoredRecord[] =>
+    Array.isArray(value) ? value.filter((record): record is StoredRecord => typeof record === 'object' && record !== null) : [];
+
+/**
+ * Rows to write to go from the previously written collection to the new one. Immer keeps
+ * unchanged records as the same objects, so only new and edited records are serialized
+ * (records that were copied, e.g. by the validation on load, are compared by content)
+ */
+export function diffCollection(collection: string, previous: unknown, next: unknown, positions: Positions): Write[] {
+    if (previous === next) {
+        return [];
+    }
+    const writes: Write[] = [];
+    const previousRecords = new Map<string, StoredRecord>();
+    for (const record of asRecords(previous)) {
+        previousRecords.set(getRecordId(collection, record), record);
+    }
+
+    const records = asRecords(next);
+    let lastPosition = -1;
+    for (const record of NEWEST_FIRST.has(collection) ? [...records].reverse() : records) {
+        const id = getRecordId(collection, record);
+        const stored = previousRecords.get(id);
+        const storedPosition = stored && positions.get(stored);
+        const position = storedPosition !== undefined && storedPosition > lastPosition ? storedPosition : lastPosition + 1;
+        if (!stored || (stored !== record && JSON.stringify(stored) !== JSON.stringify(record))) {
+            writes.push(upsert(collection, id, position, record));
+        } else if (position !== storedPosition) {
+            writes.push(move(collection, id, position));
+        }
+        positions.set(record, position);
+        previousRecords.delete(id);
+        lastPosition = position;
+    }
+    for (const id of previousRecords.keys()) {
+        writes.push(remove(collection, id));
+    }
+    return writes;
+}
+
+// Everything that changed between two persisted states; the version is written separately, see setVersion
+export function diffState(previous: PersistedState, next: PersistedState, positions: Positions): Write[] {
+    const writes: Write[] = [];
+    for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+        const before = previous[key];
+        const after = next[key];
+        if (isStoredCollection(key)) {
+            writes.push(...diffCollection(key, before, after, positions));
+        } else if (before !== after) {
+            writes.push(after === undefined
+                ? ['DELETE FROM meta WHERE key = ?', [key]]
+                : ['INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, JSON.stringify(after)]]);
+        }
+    }
+    return writes;
+}
+
+// Runs the writes in one transaction, each distinct statement is prepared once
+async function executeWrites(writes: Write[]): Promise<void> {
+    if (writes.length === 0) {
+        return;
+    }
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async txn => {
+        const statements = new Map<string, SQLite.SQLiteStatement>();
+        try {
+            for (const [sql, params] of writes) {
+                let statement = statements.get(sql);
+                if (!statement) {
+                    statement = await txn.prepareAsync(sql);
+                    statements.set(sql, statement);
+                }
+                await statement.executeAsync(params);
+            }
+        } finally {
+            await Promise.all([...statements.values()].map(statement => statement.finalizeAsync()));
+        }
+    });
+}
+
+// Parses a stored row; an unreadable one is quarantined and deleted, see readDatabase
+const parseRow = (collection: string, id: string, data: string, quarantined: QuarantinedRecord[], removes: Write[]): unknown => {
+    try {
+        return JSON.parse(data);
+    } catch (error) {
+        quarantined.push(quarantine(collection === 'meta' ? id : collection, data, `Unreadable record: ${describeError(error)}`));
+        removes.push(collection === 'meta' ? ['DELETE FROM meta WHERE key = ?', [id]] : remove(collection, id));
+        return undefined;
+    }
+};
+
+/**
+ * Reads the stored state with the positions of its records, null when nothing was ever saved.
+ * Unreadable rows are quarantined; the writes that delete them are returned with the state
+ */
+async function readDatabase(positions: Positions): Promise<{ value: StorageValue<PersistedState> | null; removes: Write[] }> {
+    const db = await getDatabase();
+    const meta = await db.getAllAsync<{ key: string; value: string }>('SELECT key, value FROM meta');
+    const version = meta.find(row => row.key === VERSION_KEY);
+    if (!version) {
+        return { value: null, removes: [] };
+    }
+
+    const quarantined: QuarantinedRecord[] = [];
+    const removes: Write[] = [];
+    const state: PersistedState = {};
+    for (const { key, value } of meta) {
+        if (key !== VERSION_KEY) {
+            const parsed = parseRow('meta', key, value, quarantined, removes);
+            if (parsed !== undefined) {
+                state[key] = parsed;
+            }
+        }
+    }
+    const collections: Record<string, StoredRecord[]> = { tasks: [] };
+    const tasks = await db.getAllAsync<{ id: string; position: number; data: string }>('SELECT id, position, data FROM tasks ORDER BY position');
+    const records = await db.getAllAsync<{ collection: string; id: string; position: number; data: string }>(
+        'SELECT collection, id, position, data FROM records ORDER BY collection, position');
+    for (const row of [...tasks.map(task => ({ ...task, collection: 'tasks' })), ...records]) {
+        const record = parseRow(row.collection, row.id, row.data, quarantined, removes);
+        if (typeof record === 'object' && record !== null) {
+            positions.set(record, row.position);
+            (collections[row.collection] ??= []).push(record as StoredRecord);
+        }
+    }
+    for (const collection of NEWEST_FIRST) {
+        collections[collection]?.reverse();
+    }
+    Object.assign(state, collections);
+
+    await quarantineRecords(quarantined);
+    return { value: { state, version: Number(version.value) || 0 }, removes };
+}
+
+/**
+ * Storage of the task store in SQLite: tasks and the other collections are kept one
+ * row per record and every save writes only what changed since the previous one.
+ * The first start imports the JSON blob the store was saved as in AsyncStorage (under
+ * the store name); the stored version is kept, so the persist migrations still apply.
+ *
+ * Nothing is saved until the stored tasks have been loaded: before that the store holds a
+ * state the loaded one replaces, and saving it would delete them. The same applies when
+ * they couldn't be loaded (or imported), until loading again (persist.rehydrate or the
+ * next start) succeeds
+ */
+function createDatabaseStorage<S>(): PersistStorage<S> {
+    const positions: Positions = new WeakMap();
+    // Last state known to be in the database, null when it has to be read back first
+    let written: StorageValue<PersistedState> | null = null;
+    let loaded = false;
+    let writeQueue: Promise<void> = Promise.resolve();
+
+    const save = (value: StorageValue<PersistedState>) => {
+        if (!loaded) {
+            return writeQueue;
+        }
+        writeQueue = writeQueue
+            .then(async () => {
+                const writes: Write[] = [];
+                let previous = written;
+                if (!previous) {
+                    // A failed write left the database behind: the state is compared with what it holds
+                    const stored = await readDatabase(positions);
+                    writes.push(...stored.removes);
+                    previous = stored.value ?? { state: {} };
+                }
+                writes.push(...diffState(previous.state, value.state, positions));
+                if (previous.version !== value.version) {
+                    writes.push(setVersion(value.version));
+                }
+                await executeWrites(writes);
+                written = value;
+            })
+            .catch(error => {
+                console.error('[Storage] Failed to save tasks:', error);
+                written = null;
+            });
+        return writeQueue;
+    };
+
+    const importLegacyBlob = async (name: string) => {
+        const legacy = await createQuarantiningStorage<PersistedState>(() => AsyncStorage).getItem(name);
+        if (legacy) {
+            // The version is written once the records are in: an import that fails is
+            // started over from the blob, which is kept until then
+            await executeWrites(diffState({}, legacy.state, positions));
+            await executeWrites([setVersion(legacy.version)]);
+            console.log(`[Storage] Imported ${asRecords(legacy.state.tasks).length} tasks from AsyncStorage`);
+        }
+        // An unreadable blob has been quarantined above
+        await AsyncStorage.removeItem(name);
+        return legacy;
+    };
+
+    return {
+        getItem: async name => {
+            loaded = false;
+            await writeQueue;
+            try {
+                const stored = await readDatabase(positions);
+                if (stored.removes.length > 0) {
+                    await executeWrites(stored.removes).catch(error => {
+                        console.error('[Storage] Failed to delete unreadable records:', error);
+                    });
+                }
+                written = stored.value ?? (await importLegacyBlob(name));
+            } catch (error) {
+                console.error('[Storage] Failed to load tasks, changes are not saved until they are loaded:', error);
+                written = null;
+                throw error;
+            }
+            loaded = true;
+            return written as StorageValue<S> | null;
+        },
+        setItem: (_name, value) => save(value as StorageValue<PersistedState>),
+        removeItem: async () => {
+            await writeQueue;
+            written = null;
+            await executeWrites([['DELETE FROM tasks', []], ['DELETE FROM records', []], ['DELETE FROM meta', []]]);
+        },
+    };
+}
+
+/**
+ * Storage of the task store: SQLite on devices. expo-sqlite needs extra setup on web,
+ * the web build keeps the JSON blob in AsyncStorage
+ */
+export const createTaskStorage = <S>(): PersistStorage<S> =>
+    Platform.OS === 'web' ? createQuarantiningStorage<S>(() => AsyncStorage) : createDatabaseStorage<S>();
@@ -79,3 +79,50 @@ export const darkStatusColors = {
   },
 };
 
+// Priority colors for light theme
+export const lightPriorityColors = {
+  none: {
+    color: '#6b7280',
+    backgroundColor: '#f3f4f6',
+  },
+  low: {
+    color: '#0ea5e9',
+    backgroundColor: '#e0f2fe',
+  },
+  medium: {
+    color: '#ca8a04',
+    backgroundColor: '#fef9c3',
+  },
+  high: {
+    color: '#ea580c',
+    backgroundColor: '#ffedd5',
+  },
+  urgent: {
+    color: '#dc2626',
+    backgroundColor: '#fee2e2',
+  },
+};
+
+// Priority colors for dark theme
+export const darkPriorityColors = {
+  none: {
+    color: '#9ca3af',
+    backgroundColor: '#374151',
+  },
+  low: {
+    color: '#38bdf8',
+    backgroundColor: '#0c4a6e',
+  },
+  medium: {
+    color: '#facc15',
+    backgroundColor: '#713f12',
+  },
+  high: {
+    color: '#fb923c',
+    backgroundColor: '#7c2d12',
+  },
+  urgent: {
+    color: '#f87171',
+    backgroundColor: '#7f1d1d',
+  },
+};
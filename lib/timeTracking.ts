@@ -0,0 +1,163 @@
+import { Project, Task, TimeEntry } from './types';
+import { INBOX_COLOR, INBOX_NAME, getTaskProject } from './projects';
+
+export const MAX_TIME_ENTRY_NOTE_LENGTH = 120;
+
+const MINUTE = 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export type TimeReportProject = {
+    projectId: string | null; // null for the Inbox
+    name: string;
+    color: string;
+    duration: number; // ms
+};
+
+export type TimeReportDay = {
+    date: string; // Local day, YYYY-MM-DD
+    total: number; // ms
+    projects: TimeReportProject[]; // Longest first
+};
+
+export type TimeReport = {
+    days: TimeReportDay[]; // Newest first, only days with tracked time
+    total: number; // ms
+};
+
+export const isTimerRunning = (entry: TimeEntry) => !entry.endedAt;
+
+/**
+ * The running entry of a task, if its timer is started
+ */
+export const getRunningEntry = (task: Pick<Task, 'timeEntries'>) =>
+    task.timeEntries?.find(isTimerRunning);
+
+/**
+ * Task whose timer is running. Only one timer runs at a time
+ */
+export const getRunningTask = (tasks: Task[]) => tasks.find(task => getRunningEntry(task));
+
+/**
+ * Length of an entry in ms, a running entry counts up to `now`
+ */
+export function getEntryDuration(entry: Pick<TimeEntry, 'startedAt' | 'endedAt'>, now = Date.now()): number {
+    const end = entry.endedAt ? new Date(entry.endedAt).getTime() : now;
+    return Math.max(0, end - new Date(entry.startedAt).getTime());
+}
+
+export const getTrackedTime = (task: Pick<Task, 'timeEntries'>, now = Date.now()) =>
+    (task.timeEntries ?? []).reduce((total, entry) => total + getEntryDuration(entry, now), 0);
+
+/**
+ * "2h 05m" or "45m"; anything under a minute is "0m"
+ */
+export function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / MINUTE);
+    const hours = Math.floor(minutes / 60);
+    if (hours === 0) {
+        return `${minutes}m`;
+    }
+    return `${hours}h ${pad(minutes % 60)}m`;
+}
+
+/**
+ * Stopwatch style "1:02:03" for a running timer
+ */
+export function formatElapsed(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Checks an entry entered by hand, returns the problem or null if it's valid
+ */
+export function validateTimeEntry(entry: Pick<TimeEntry, 'startedAt' | 'endedAt'>, now = Date.now()): string | null {
+    const start = new Date(entry.startedAt).getTime();
+    if (Number.isNaN(start)) {
+        return 'Start time is invalid';
+    }
+    if (start > now) {
+        return "Start time can't be in the future";
+    }
+    if (entry.endedAt !== undefined) {
+        const end = new Date(entry.endedAt).getTime();
+        if (Number.isNaN(end) || end <= start) {
+            return 'End time must be after the start time';
+        }
+        if (end > now) {
+            return "End time can't be in the future";
+        }
+    }
+    return null;
+}
+
+// Local calendar day of a date, YYYY-MM-DD
+export const getDateKey = (date: Date) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Tracked time between `from` and `to` grouped by day and project. Entries that
+ * cross midnight are split between the days, entries running now count up to `now`
+ */
+export function buildTimeReport(tasks: Task[], projects: Project[], from: Date, to: Date, now = new Date()): TimeReport {
+    const days = new Map<string, Map<string, TimeReportProject>>();
+    const rangeStart = from.getTime();
+    const rangeEnd = Math.min(to.getTime(), now.getTime());
+
+    for (const task of tasks) {
+        const project = getTaskProject(task, projects);
+        for (const entry of task.timeEntries ?? []) {
+            let cursor = Math.max(new Date(entry.startedAt).getTime(), rangeStart);
+            const end = Math.min(entry.endedAt ? new Date(entry.endedAt).getTime() : now.getTime(), rangeEnd);
+            while (cursor < end) {
+                const day = new Date(cursor);
+                const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+                const sliceEnd = Math.min(nextDay, end);
+
+                const dateKey = getDateKey(day);
+                const dayProjects = days.get(dateKey) ?? new Map<string, TimeReportProject>();
+                days.set(dateKey, dayProjects);
+                const projectKey = project?.id ?? '';
+                const row = dayProjects.get(projectKey) ?? {
+                    projectId: project?.id ?? null,
+                    name: project?.name ?? INBOX_NAME,
+                    color: project?.color ?? INBOX_COLOR,
+                    duration: 0,
+                };
+                row.duration += sliceEnd - cursor;
+                dayProjects.set(projectKey, row);
+
+                cursor = sliceEnd;
+            }
+        }
+    }
+
+    const reportDays: TimeReportDay[] = [...days.entries()]
+        .map(([date, dayProjects]) => {
+            const rows = [...dayProjects.values()].sort((a, b) => b.duration - a.duration);
+            return { date, total: rows.reduce((sum, row) => sum + row.duration, 0), projects: rows };
+        })
+        .sort((a, b) => b.date.localeCompare(a.date));
+
+    return {
+        days: reportDays,
+        total: reportDays.reduce((sum, day) => sum + day.total, 0),
+    };
+}
+
+export const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * CSV with one row per day and project, for spreadsheets
+ */
+export function timeReportToCsv(report: TimeReport): string {
+    const rows = ['Date,Project,Minutes,Hours'];
+    for (const day of report.days) {
+        for (const project of day.projects) {
+            const minutes = Math.round(project.duration / MINUTE);
+            rows.push([day.date, escapeCsv(project.name), minutes, (minutes / 60).toFixed(2)].join(','));
+        }
+    }
+    return rows.join('\n') + '\n';
+}
@@ -0,0 +1,44 @@
+import { Task } from './types';
+
+// Days a deleted task stays in the Trash before it is deleted permanently, 0 = never
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0] as const;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (task: Pick<Task, 'deletedAt'>) => !!task.deletedAt;
+
+/**
+ * Tasks that are not in the Trash, the ones every list, report and count works with
+ */
+export const getActiveTasks = (tasks: Task[]) => tasks.filter(task => !isTrashed(task));
+
+/**
+ * Tasks in the Trash, the most recently deleted first
+ */
+export function getTrashedTasks(tasks: Task[]): Task[] {
+    return tasks
+        .filter(isTrashed)
+        .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+}
+
+/**
+ * When a task in the Trash gets deleted permanently, null if the Trash is kept forever
+ */
+export function getPurgeDate(task: Pick<Task, 'deletedAt'>, retentionDays: number): Date | null {
+    if (!task.deletedAt || retentionDays <= 0) {
+        return null;
+    }
+    return new Date(new Date(task.deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Tasks that have been in the Trash longer than the retention period
+ */
+export const getExpiredTrash = (tasks: Task[], retentionDays: number, now = new Date()) =>
+    tasks.filter(task => {
+        const purgeDate = getPurgeDate(task, retentionDays);
+        return purgeDate !== null && purgeDate <= now;
+    });
+
+export const describeRetention = (days: number) => (days > 0 ? `${days} days` : 'Never');
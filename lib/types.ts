@@ -1,5 +1,7 @@
 export type TaskStatus = 'todo' | 'in_progress' | 'completed' | 'cancelled';
 
+export type TaskPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+
 export type Attachment = {
     uri: string;
     name: string;
@@ -12,6 +14,74 @@ export type LocationCoordinates = {
     longitude: number;
 }
 
+export type ChecklistItem = {
+    id: string;
+    title: string;
+    done: boolean;
+}
+
+// Period of work on a task. The running timer is the entry without endedAt
+export type TimeEntry = {
+    id: string;
+    startedAt: string;
+    endedAt?: string;
+    note?: string;
+}
+
+// Named list grouping tasks. Tasks without a project are in the Inbox
+export type Project = {
+    id: string;
+    name: string;
+    color: string;
+    icon: string; // MaterialCommunityIcons name
+    createdAt: string;
+    updatedAt: string; // The newer version wins when projects are synced
+    deleted?: boolean; // Deleted projects are kept so the deletion reaches other devices
+}
+
+// User-written note on a task. Comments sync separately from tasks, like projects
+export type TaskComment = {
+    id: string;
+    taskId: string;
+    text: string;
+    authorId?: string; // Missing for comments written before the first sign in
+    authorName?: string;
+    createdAt: string;
+    updatedAt: string; // The newer version wins when comments are synced
+    deleted?: boolean; // Deleted comments are kept so the deletion reaches other devices
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'boolean' | 'select';
+
+// User-defined task attribute ("Customer ID", "Invoice amount"). Synced like projects
+export type CustomFieldDefinition = {
+    id: string;
+    name: string;
+    type: CustomFieldType; // Can't be changed once the field is created
+    options?: string[]; // Choices of a select field
+    required?: boolean;
+    createdAt: string;
+    updatedAt: string; // The newer version wins when fields are synced
+    deleted?: boolean; // Deleted fields are kept so the deletion reaches other devices
+}
+
+// Value of a custom field on a task: text and select are strings, dates are ISO strings
+export type CustomFieldValue = string | number | boolean;
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// How a task repeats. Dates of the next occurrences are computed from the task due date
+export type RecurrenceRule = {
+    frequency: RecurrenceFrequency;
+    interval: number; // Every N days / weeks / months / years
+    weekdays?: number[]; // Weekly: days of the week, 0 = Sunday
+    monthlyBy?: 'day' | 'weekday'; // Monthly: on day N of the month or on the Nth weekday (e.g. 2nd Tuesday)
+    monthDay?: number; // Day N for monthly and yearly rules, kept so the 31st stays the 31st after shorter months
+    weekOfMonth?: number; // Nth weekday: 1-4, or -1 for the last one
+    endDate?: string; // No occurrences after this date
+    count?: number; // Total number of occurrences in the series
+}
+
 export type Task = {
     id: string;
     title: string;
@@ -20,21 +90,43 @@ export type Task = {
     location: string;
     coordinates?: LocationCoordinates;
     status: TaskStatus;
+    projectId?: string; // Inbox when missing
+    priority?: TaskPriority; // Tasks created before priorities have none, treated as 'none'
+    tags?: string[]; // Free-form context labels ("errands", "client-A"), compared ignoring case
+    checklist?: ChecklistItem[]; // Ordered sub-steps of the task
+    autoCompleteChecklist?: boolean; // Mark the task completed once every checklist item is done
+    blockedBy?: string[]; // Ids of tasks that have to be finished before this one can start
+    recurrence?: RecurrenceRule;
+    seriesId?: string; // Id of the first task of a recurring series
+    occurrence?: number; // Position in the series, the first task is 1
+    estimateMinutes?: number; // Expected duration of the work, compared with the tracked time
+    timeEntries?: TimeEntry[]; // Tracked work, in the order it was recorded
+    customFields?: Record<string, CustomFieldValue>; // By field definition id, empty values are left out
     attachments?: Attachment[];
     createdAt: string;
+    updatedAt?: string; // Last modification time, used to merge server changes
+    revision?: number; // Incremented on every edit, used to detect concurrent edits
+    deletedAt?: string; // Moved to the Trash; synced as an update so it can be restored on any device
+    completedAt?: string; // When the task was last completed or cancelled, auto archiving counts from it
+    archivedAt?: string; // Hidden from the main list, the map and reminders; independent of the status
 }
 
-export type SortOrder = 'dateAdded_desc' | 'dateAdded_asc' | 'status';
+// `field:<id>` sorts by the value of a custom field, tasks without it go last
+export type SortOrder = 'dateAdded_desc' | 'dateAdded_asc' | 'status' | 'priority' | `field:${string}`;
+
+export type ActionType = 'created' | 'updated' | 'deleted' | 'restored' | 'archived' | 'unarchived' | 'status_changed' | 'project_created' | 'project_updated' | 'project_deleted';
 
-export type ActionType = 'created' | 'updated' | 'deleted' | 'status_changed';
+export type ActionOrigin = 'local' | 'remote';
 
 export type ActionLog = {
     id: string;
-    taskId: string;
-    taskTitle: string;
+    taskId: string; // Project id for project_* actions
+    taskTitle: string; // Project name for project_* actions
     actionType: ActionType;
     timestamp: string;
     details?: string; // Additional info like old status -> new status
+    origin?: ActionOrigin; // 'remote' for changes pulled from the server
+    overEstimate?: boolean; // The task was completed with more tracked time than estimated (plus the margin)
 }
 
 // Sync types
@@ -45,8 +137,61 @@ export type SyncOperation = {
     type: SyncOperationType;
     taskId: string;
     taskData?: Task; // For create/update operations
+    baseRevision?: number; // Revision the update was made against
     timestamp: string;
     retries: number;
+    nextAttemptAt?: string; // Not retried before this time (exponential backoff)
+    lastError?: string;
+}
+
+// Operation that exhausted its retries, kept until the user retries or discards it
+export type DeadLetterOperation = {
+    operation: SyncOperation;
+    error: string;
+    failedAt: string;
+}
+
+// State of one task before and after an undoable action; null when the task didn't exist
+export type UndoTaskChange = {
+    taskId: string;
+    before: Task | null;
+    after: Task | null;
+    queueBefore: SyncOperation[]; // Operations queued for the task, restored as they were
+    queueAfter: SyncOperation[]; // when nothing was synced in between
 }
 
-export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error';
\ No newline at end of file
+// Action that can be undone (and redone after that), kept for the running app only
+export type UndoEntry = {
+    id: string;
+    label: string; // 'Deleted "Buy milk"'
+    destructive: boolean; // Undo is offered right after the action
+    tasks: UndoTaskChange[];
+    logs: ActionLog[]; // History entries the action added, newest first
+    deletedComments: string[]; // Comments deleted together with a task
+    createdAt: string;
+}
+
+// Task edited both locally and on the server since the last sync
+export type TaskConflict = {
+    taskId: string;
+    localTask: Task;
+    remoteTask: Task;
+    detectedAt: string;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error';
+// Change pushed by the server over the live connection (/events)
+export type TaskChangeEvent =
+    | { type: 'task.created' | 'task.updated'; taskId: string; task: Task }
+    | { type: 'task.deleted'; taskId: string };
+
+// Projects changed on another device, the client syncs them
+export type ProjectsChangeEvent = { type: 'projects.updated' };
+
+// Comments changed on another device, the client syncs them
+export type CommentsChangeEvent = { type: 'comments.updated' };
+
+// Custom field definitions changed on another device, the client syncs them
+export type CustomFieldsChangeEvent = { type: 'fields.updated' };
+
+export type LiveSyncStatus = 'stopped' | 'connecting' | 'connected' | 'polling';
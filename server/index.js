@@ -0,0 +1,592 @@
+// Сервер задач для синхронизации (замена json-server)
+// Хранит данные в db.json, выдает токены по логину/паролю и разделяет задачи по пользователям.
+// По WebSocket /events рассылает изменения задач и проектов остальным устройствам пользователя
+//
+// Запуск:            npm run server
+// Новый пользователь: npm run server:add-user -- <username> <password>
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { WebSocketServer } = require('ws');
+
+const DB_PATH = process.env.DB_PATH || path.join(__dirname, '..', 'db.json');
+const PORT = Number(process.env.PORT) || 3000;
+const HOST = process.env.HOST || '0.0.0.0';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+function loadDb() {
+    const db = fs.existsSync(DB_PATH) ? JSON.parse(fs.readFileSync(DB_PATH, 'utf8')) : {};
+    return {
+        ...db,
+        tasks: db.tasks || [],
+        projects: db.projects || [],
+        comments: db.comments || [],
+        customFields: db.customFields || [],
+        users: db.users || [],
+        sessions: db.sessions || [],
+    };
+}
+
+function saveDb(db) {
+    const tmpPath = `${DB_PATH}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(db, null, 2));
+    fs.renameSync(tmpPath, DB_PATH);
+}
+
+function hashPassword(password, salt) {
+    return crypto.scryptSync(password, salt, 64).toString('hex');
+}
+
+function verifyPassword(user, password) {
+    const expected = Buffer.from(user.passwordHash, 'hex');
+    const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function addUser(username, password) {
+    const db = loadDb();
+    if (db.users.some(u => u.username === username)) {
+        throw new Error(`User "${username}" already exists`);
+    }
+    const salt = crypto.randomBytes(16).toString('hex');
+    const user = {
+        id: crypto.randomUUID(),
+        username,
+        salt,
+        passwordHash: hashPassword(password, salt),
+    };
+    db.users.push(user);
+    saveDb(db);
+    return user;
+}
+
+/**
+ * Данные, сохраненные до появления пользователей, не имеют владельца и никому не видны.
+ * Их получает первый вошедший пользователь
+ */
+function claimUnownedRecords(db, user) {
+    let claimed = 0;
+    for (const collection of ['tasks', 'projects', 'comments', 'customFields']) {
+        db[collection] = db[collection].map(record => {
+            if (record.ownerId) {
+                return record;
+            }
+            claimed++;
+            return { ...record, ownerId: user.id };
+        });
+    }
+    if (claimed > 0) {
+        console.log(`Assigned ${claimed} records without an owner to ${user.username}`);
+    }
+}
+
+// Владелец задачи - внутреннее поле сервера, клиенту его не отдаем
+function toClientTask(task) {
+    const { ownerId, ...clientTask } = task;
+    return clientTask;
+}
+
+// То же для проектов, комментариев и описаний пользовательских полей
+function toClientRecord(record) {
+    const { ownerId, ...clientRecord } = record;
+    return clientRecord;
+}
+
+function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function sendError(res, status, message) {
+    sendJson(res, status, { error: message });
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.on('data', chunk => {
+            data += chunk;
+        });
+        req.on('end', () => {
+            try {
+                resolve(data ? JSON.parse(data) : {});
+            } catch (error) {
+                reject(new Error('Invalid JSON body'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Возвращает пользователя по токену, null если токен неверный или истек
+ */
+function findUserByToken(db, token) {
+    const session = db.sessions.find(s => s.token === token);
+    if (!session || new Date(session.expiresAt).getTime() < Date.now()) {
+        return null;
+    }
+    return db.users.find(u => u.id === session.userId) || null;
+}
+
+/**
+ * Возвращает пользователя по заголовку Authorization: Bearer <token>
+ */
+function authenticate(req, db) {
+    const header = req.headers.authorization || '';
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    return match ? findUserByToken(db, match[1]) : null;
+}
+
+// Открытые WebSocket соединения: userId → Set<{ socket, clientId }>
+const subscribers = new Map();
+
+/**
+ * Отправляет событие об изменении задачи всем устройствам пользователя,
+ * кроме того, которое это изменение сделало
+ */
+function broadcast(userId, originClientId, event) {
+    const connections = subscribers.get(userId);
+    if (!connections) {
+        return;
+    }
+    const message = JSON.stringify(event);
+    for (const connection of connections) {
+        if (connection.clientId !== originClientId && connection.socket.readyState === connection.socket.OPEN) {
+            connection.socket.send(message);
+        }
+    }
+}
+
+function handleLogin(req, res, db, body) {
+    const { username, password } = body;
+    const user = db.users.find(u => u.username === username);
+    if (!user || typeof password !== 'string' || !verifyPassword(user, password)) {
+        sendError(res, 401, 'Invalid username or password');
+        return;
+    }
+
+    const now = Date.now();
+    const session = {
+        token: crypto.randomBytes(32).toString('hex'),
+        userId: user.id,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    };
+    // Заодно чистим истекшие сессии
+    db.sessions = db.sessions.filter(s => new Date(s.expiresAt).getTime() >= now);
+    db.sessions.push(session);
+    claimUnownedRecords(db, user);
+    saveDb(db);
+
+    sendJson(res, 200, {
+        token: session.token,
+        expiresAt: session.expiresAt,
+        user: { id: user.id, username: user.username },
+    });
+}
+
+function handleTasks(req, res, db, user, taskId, body) {
+    const clientId = req.headers['x-client-id'];
+    const userTasks = db.tasks.filter(t => t.ownerId === user.id);
+    const existing = taskId ? userTasks.find(t => t.id === taskId) : undefined;
+
+    if (!taskId && req.method === 'GET') {
+        sendJson(res, 200, userTasks.map(toClientTask));
+        return;
+    }
+
+    if (!taskId && req.method === 'POST') {
+        const task = body;
+        if (!task.id) {
+            sendError(res, 400, 'Task id is required');
+            return;
+        }
+        const duplicate = db.tasks.find(t => t.id === task.id);
+        if (duplicate) {
+            // Повторная отправка create (например, ответ потерялся) - отдаем то, что уже есть
+            if (duplicate.ownerId === user.id) {
+                sendJson(res, 200, toClientTask(duplicate));
+            } else {
+                sendError(res, 409, 'Task id is already taken');
+            }
+            return;
+        }
+        const stored = { ...task, ownerId: user.id };
+        db.tasks.push(stored);
+        saveDb(db);
+        sendJson(res, 201, toClientTask(stored));
+        broadcast(user.id, clientId, { type: 'task.created', taskId: stored.id, task: toClientTask(stored) });
+        return;
+    }
+
+    if (!existing) {
+        sendError(res, 404, 'Task not found');
+        return;
+    }
+
+    switch (req.method) {
+        case 'GET':
+            sendJson(res, 200, toClientTask(existing));
+            return;
+        case 'PUT': {
+            // Та же проверка ревизий, что и у update в /sync: If-Match - ревизия, поверх которой
+            // сделано изменение. Ревизию увеличивает сервер
+            const baseRevision = Number(req.headers['if-match']);
+            if (!req.headers['if-match'] || !Number.isInteger(baseRevision)) {
+                sendError(res, 428, 'If-Match header with the base revision is required');
+                return;
+            }
+            const remoteRevision = existing.revision ?? 0;
+            if (remoteRevision !== baseRevision) {
+                sendJson(res, 409, { error: 'Task was changed on another device', remoteTask: toClientTask(existing) });
+                return;
+            }
+            const stored = { ...body, id: taskId, revision: remoteRevision + 1, ownerId: user.id };
+            db.tasks = db.tasks.map(t => (t === existing ? stored : t));
+            saveDb(db);
+            sendJson(res, 200, toClientTask(stored));
+            broadcast(user.id, clientId, { type: 'task.updated', taskId, task: toClientTask(stored) });
+            return;
+        }
+        case 'DELETE':
+            db.tasks = db.tasks.filter(t => t !== existing);
+            saveDb(db);
+            sendJson(res, 200, toClientTask(existing));
+            broadcast(user.id, clientId, { type: 'task.deleted', taskId });
+            return;
+        default:
+            sendError(res, 405, 'Method not allowed');
+    }
+}
+
+/**
+ * Применяет одну операцию из пакета синхронизации к db (без сохранения).
+ * Ревизии сверяются здесь, а не на клиенте: update, сделанный поверх устаревшей
+ * версии задачи, отклоняется как конфликт
+ */
+function applySyncOperation(db, user, operation) {
+    const { id, type, taskId, taskData, baseRevision } = operation;
+    const existing = db.tasks.find(t => t.id === taskId);
+    if (existing && existing.ownerId !== user.id) {
+        return { result: { id, status: 'error', error: 'Task id is already taken' } };
+    }
+
+    switch (type) {
+        case 'create': {
+            if (!taskData || taskData.id !== taskId) {
+                return { result: { id, status: 'error', error: 'Task data is required for create operation' } };
+            }
+            if (existing) {
+                // Повторная отправка create (ответ на прошлый запрос потерялся)
+                return { result: { id, status: 'ok', task: toClientTask(existing) } };
+            }
+            const stored = { ...taskData, ownerId: user.id };
+            db.tasks.push(stored);
+            return {
+                result: { id, status: 'ok', task: toClientTask(stored) },
+                event: { type: 'task.created', taskId, task: toClientTask(stored) },
+            };
+        }
+        case 'update': {
+            if (!taskData) {
+                return { result: { id, status: 'error', error: 'Task data is required for update operation' } };
+            }
+            if (!existing) {
+                return { result: { id, status: 'error', error: 'Task not found' } };
+            }
+            const remoteRevision = existing.revision ?? 0;
+            if (remoteRevision === (taskData.revision ?? 0) && existing.updatedAt === taskData.updatedAt) {
+                // Это изменение уже применено (ответ на прошлый запрос потерялся)
+                return { result: { id, status: 'ok', task: toClientTask(existing) } };
+            }
+            if (baseRevision !== undefined && remoteRevision !== baseRevision) {
+                return { result: { id, status: 'conflict', remoteTask: toClientTask(existing) } };
+            }
+            const stored = { ...taskData, id: taskId, ownerId: user.id };
+            db.tasks = db.tasks.map(t => (t === existing ? stored : t));
+            return {
+                result: { id, status: 'ok', task: toClientTask(stored) },
+                event: { type: 'task.updated', taskId, task: toClientTask(stored) },
+            };
+        }
+        case 'delete':
+            if (!existing) {
+                // Уже удалена (например, на другом устройстве) - результат тот же
+                return { result: { id, status: 'ok' } };
+            }
+            db.tasks = db.tasks.filter(t => t !== existing);
+            return {
+                result: { id, status: 'ok' },
+                event: { type: 'task.deleted', taskId },
+            };
+        default:
+            return { result: { id, status: 'error', error: `Unknown operation type: ${type}` } };
+    }
+}
+
+/**
+ * POST /sync - вся очередь клиента одним запросом.
+ * Операции применяются по порядку, db сохраняется один раз, в ответе результат по каждой операции
+ */
+function handleSync(req, res, db, user, body) {
+    const { operations } = body;
+    if (!Array.isArray(operations)) {
+        sendError(res, 400, 'operations must be an array');
+        return;
+    }
+
+    const results = [];
+    const events = [];
+    for (const operation of operations) {
+        const { result, event } = applySyncOperation(db, user, operation);
+        results.push(result);
+        if (event) {
+            events.push(event);
+        }
+    }
+    if (events.length > 0) {
+        saveDb(db);
+    }
+
+    sendJson(res, 200, { results });
+    for (const event of events) {
+        broadcast(user.id, req.headers['x-client-id'], event);
+    }
+}
+
+/**
+ * Обработчик POST /<name>/sync для данных, которые синхронизируются списком целиком:
+ * клиент присылает все свои записи (вместе с удаленными), по каждой остается версия
+ * с более поздним updatedAt. В ответе - все записи пользователя.
+ * create/update строят сохраняемую запись; update возвращает null, если менять запись нельзя
+ */
+function createListSyncHandler({ bodyKey, dbKey, event, isValid = () => true, create, update }) {
+    return (req, res, db, user, body) => {
+        const records = body[bodyKey];
+        if (!Array.isArray(records)) {
+            sendError(res, 400, `${bodyKey} must be an array`);
+            return;
+        }
+
+        let changed = false;
+        for (const record of records) {
+            if (!record || typeof record.id !== 'string' || typeof record.updatedAt !== 'string' || !isValid(record)) {
+                continue;
+            }
+            const index = db[dbKey].findIndex(r => r.id === record.id);
+            const existing = db[dbKey][index];
+            if (!existing) {
+                db[dbKey].push({ ...create(record, user), ownerId: user.id });
+                changed = true;
+            } else if (existing.ownerId === user.id && record.updatedAt > existing.updatedAt) {
+                const updated = update(existing, record, user);
+                if (updated) {
+                    db[dbKey][index] = { ...updated, ownerId: user.id };
+                    changed = true;
+                }
+            }
+        }
+        if (changed) {
+            saveDb(db);
+        }
+
+        sendJson(res, 200, { [bodyKey]: db[dbKey].filter(r => r.ownerId === user.id).map(toClientRecord) });
+        if (changed) {
+            broadcast(user.id, req.headers['x-client-id'], { type: event });
+        }
+    };
+}
+
+// POST /projects/sync
+const handleProjectsSync = createListSyncHandler({
+    bodyKey: 'projects',
+    dbKey: 'projects',
+    event: 'projects.updated',
+    create: project => project,
+    update: (existing, project) => project,
+});
+
+// POST /comments/sync - менять и удалять комментарий может только его автор;
+// у нового комментария автором становится пользователь
+const handleCommentsSync = createListSyncHandler({
+    bodyKey: 'comments',
+    dbKey: 'comments',
+    event: 'comments.updated',
+    isValid: comment => typeof comment.taskId === 'string',
+    create: (comment, user) => ({ ...comment, authorId: user.id, authorName: user.username }),
+    update: (existing, comment, user) => (existing.authorId === user.id
+        ? { ...comment, authorId: existing.authorId, authorName: existing.authorName }
+        : null),
+});
+
+// POST /fields/sync - описания пользовательских полей. Значения полей лежат в задачах
+// и приходят через обычную синхронизацию задач. Тип поля после создания не меняется
+const handleCustomFieldsSync = createListSyncHandler({
+    bodyKey: 'fields',
+    dbKey: 'customFields',
+    event: 'fields.updated',
+    create: field => field,
+    update: (existing, field) => ({ ...field, type: existing.type }),
+});
+
+const server = http.createServer(async (req, res) => {
+    // Разрешаем запросы из веб-версии приложения
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Client-Id, If-Match');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const { pathname } = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    console.log(`${req.method} ${pathname}`);
+
+    try {
+        // Тело читаем до загрузки db: дальше обработчик синхронно загружает, меняет и сохраняет db,
+        // и параллельные запросы не затирают изменения друг друга
+        const body = req.method === 'POST' || req.method === 'PUT' ? await readBody(req) : {};
+        const db = loadDb();
+
+        if (pathname === '/health' && req.method === 'GET') {
+            sendJson(res, 200, { status: 'ok', time: new Date().toISOString() });
+            return;
+        }
+
+        if (pathname === '/login' && req.method === 'POST') {
+            handleLogin(req, res, db, body);
+            return;
+        }
+
+        if (pathname === '/sync' && req.method === 'POST') {
+            const user = authenticate(req, db);
+            if (!user) {
+                sendError(res, 401, 'Authentication required');
+                return;
+            }
+            handleSync(req, res, db, user, body);
+            return;
+        }
+
+        if (pathname === '/projects/sync' && req.method === 'POST') {
+            const user = authenticate(req, db);
+            if (!user) {
+                sendError(res, 401, 'Authentication required');
+                return;
+            }
+            handleProjectsSync(req, res, db, user, body);
+            return;
+        }
+
+        if (pathname === '/comments/sync' && req.method === 'POST') {
+            const user = authenticate(req, db);
+            if (!user) {
+                sendError(res, 401, 'Authentication required');
+                return;
+            }
+            handleCommentsSync(req, res, db, user, body);
+            return;
+        }
+
+        if (pathname === '/fields/sync' && req.method === 'POST') {
+            const user = authenticate(req, db);
+            if (!user) {
+                sendError(res, 401, 'Authentication required');
+                return;
+            }
+            handleCustomFieldsSync(req, res, db, user, body);
+            return;
+        }
+
+        const tasksMatch = /^\/tasks(?:\/([^/]+))?\/?$/.exec(pathname);
+        if (!tasksMatch) {
+            sendError(res, 404, 'Not found');
+            return;
+        }
+
+        const user = authenticate(req, db);
+        if (!user) {
+            sendError(res, 401, 'Authentication required');
+            return;
+        }
+
+        handleTasks(req, res, db, user, tasksMatch[1] && decodeURIComponent(tasksMatch[1]), body);
+    } catch (error) {
+        console.error(error);
+        sendError(res, 500, error instanceof Error ? error.message : String(error));
+    }
+});
+
+// WebSocket /events?token=<token>&clientId=<id> - токен в query, т.к. браузерный WebSocket не умеет заголовки
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    const user = url.pathname === '/events' ? findUserByToken(loadDb(), url.searchParams.get('token')) : null;
+    if (!user) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+        const connection = { socket: ws, clientId: url.searchParams.get('clientId') };
+        if (!subscribers.has(user.id)) {
+            subscribers.set(user.id, new Set());
+        }
+        subscribers.get(user.id).add(connection);
+        console.log(`WS connected: ${user.username} (${connection.clientId || 'unknown client'})`);
+
+        ws.isAlive = true;
+        ws.on('pong', () => {
+            ws.isAlive = true;
+        });
+        ws.on('close', () => {
+            const connections = subscribers.get(user.id);
+            connections.delete(connection);
+            if (connections.size === 0) {
+                subscribers.delete(user.id);
+            }
+        });
+        ws.send(JSON.stringify({ type: 'hello' }));
+    });
+});
+
+// Закрываем "мертвые" соединения, которые не ответили на ping
+server.on('listening', () => {
+    const heartbeat = setInterval(() => {
+        for (const ws of wss.clients) {
+            if (!ws.isAlive) {
+                ws.terminate();
+                continue;
+            }
+            ws.isAlive = false;
+            ws.ping();
+        }
+    }, HEARTBEAT_INTERVAL_MS);
+    server.on('close', () => clearInterval(heartbeat));
+});
+
+if (process.argv[2] === 'add-user') {
+    const [username, password] = process.argv.slice(3);
+    if (!username || !password) {
+        console.error('Usage: node server/index.js add-user <username> <password>');
+        process.exit(1);
+    }
+    try {
+        const user = addUser(username, password);
+        console.log(`Created user "${user.username}" (${user.id})`);
+    } catch (error) {
+        console.error(error.message);
+        process.exit(1);
+    }
+} else {
+    server.listen(PORT, HOST, () => {
+        console.log(`Task server listening on http://${HOST}:${PORT} (data: ${DB_PATH})`);
+    });
+}